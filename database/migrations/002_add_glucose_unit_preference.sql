@@ -0,0 +1,4 @@
+-- Add per-user glucose unit preference (values are always stored in mg/dL)
+ALTER TABLE user_preferences
+    ADD COLUMN IF NOT EXISTS "glucoseUnit" TEXT NOT NULL DEFAULT 'mg/dL'
+    CHECK ("glucoseUnit" IN ('mg/dL', 'mmol/L'));
@@ -0,0 +1,3 @@
+-- Store the Dexcom trend arrow alongside CGM readings (used by the glucose forecast)
+ALTER TABLE glucose_readings
+    ADD COLUMN IF NOT EXISTS trend TEXT;
@@ -0,0 +1,61 @@
+-- Create glucose_alert_rules table for user-configurable glucose alerts
+CREATE TABLE IF NOT EXISTS glucose_alert_rules (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('urgent_low', 'low', 'high', 'rapid_rise', 'rapid_fall', 'no_data')),
+    -- mg/dL for level rules, mg/dL per minute for rate rules, minutes for no_data
+    threshold NUMERIC NOT NULL,
+    snooze_minutes INTEGER NOT NULL DEFAULT 30,
+    quiet_hours JSONB,
+    channels TEXT[] NOT NULL DEFAULT ARRAY['in_app'],
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create glucose_alerts table for the history of triggered alerts
+CREATE TABLE IF NOT EXISTS glucose_alerts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    rule_id UUID REFERENCES glucose_alert_rules(id) ON DELETE SET NULL,
+    type TEXT NOT NULL,
+    value NUMERIC,
+    message TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('delivered', 'suppressed')),
+    suppressed_reason TEXT,
+    channels TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    triggered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_glucose_alert_rules_user_id ON glucose_alert_rules(user_id);
+CREATE INDEX IF NOT EXISTS idx_glucose_alert_rules_type_enabled ON glucose_alert_rules(type, enabled);
+CREATE INDEX IF NOT EXISTS idx_glucose_alerts_user_id_triggered_at ON glucose_alerts(user_id, triggered_at DESC);
+CREATE INDEX IF NOT EXISTS idx_glucose_alerts_rule_id_triggered_at ON glucose_alerts(rule_id, triggered_at DESC);
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_glucose_alert_rules_updated_at
+    BEFORE UPDATE ON glucose_alert_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE glucose_alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE glucose_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own alert rules" ON glucose_alert_rules
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own alert rules" ON glucose_alert_rules
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own alert rules" ON glucose_alert_rules
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own alert rules" ON glucose_alert_rules
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own alerts" ON glucose_alerts
+    FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,6 @@
+-- Structured context for glucose readings (fasting, pre/post-meal, bedtime, ...) used for per-tag statistics
+ALTER TABLE glucose_readings
+    ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    ADD COLUMN IF NOT EXISTS meal_type TEXT CHECK (meal_type IN ('breakfast', 'lunch', 'dinner', 'snack'));
+
+CREATE INDEX IF NOT EXISTS idx_glucose_readings_tags ON glucose_readings USING GIN (tags);
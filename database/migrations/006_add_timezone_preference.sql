@@ -0,0 +1,3 @@
+-- IANA timezone used to compute local day boundaries for glucose statistics and meal plans
+ALTER TABLE user_preferences
+    ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC';
@@ -0,0 +1,4 @@
+-- Readings accepted but flagged as physiologically implausible (e.g. a sensor compression spike) are excluded from analytics
+ALTER TABLE glucose_readings
+    ADD COLUMN IF NOT EXISTS quality TEXT NOT NULL DEFAULT 'ok' CHECK (quality IN ('ok', 'flagged')),
+    ADD COLUMN IF NOT EXISTS quality_flags TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,41 @@
+-- Create insulin_doses table for bolus and basal insulin logging
+CREATE TABLE IF NOT EXISTS insulin_doses (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    dose_type TEXT NOT NULL CHECK (dose_type IN ('bolus', 'basal')),
+    insulin_type TEXT NOT NULL CHECK (insulin_type IN ('rapid_acting', 'long_acting')),
+    units NUMERIC(6, 2) NOT NULL CHECK (units > 0),
+    timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    -- Meal the dose covered, if any
+    food_log_id UUID REFERENCES food_analysis_logs(id) ON DELETE SET NULL,
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'chat', 'pump_import')),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_insulin_doses_user_id_timestamp ON insulin_doses(user_id, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_insulin_doses_food_log_id ON insulin_doses(food_log_id);
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_insulin_doses_updated_at
+    BEFORE UPDATE ON insulin_doses
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE insulin_doses ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own insulin doses" ON insulin_doses
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own insulin doses" ON insulin_doses
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own insulin doses" ON insulin_doses
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own insulin doses" ON insulin_doses
+    FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,13 @@
+-- Insulin action curve and carb absorption settings used to calculate insulin and carbs on board
+ALTER TABLE user_preferences
+    ADD COLUMN IF NOT EXISTS "insulinActionCurve" TEXT NOT NULL DEFAULT 'rapid_acting'
+        CHECK ("insulinActionCurve" IN ('rapid_acting', 'ultra_rapid')),
+    ADD COLUMN IF NOT EXISTS "insulinDurationHours" NUMERIC NOT NULL DEFAULT 5
+        CHECK ("insulinDurationHours" BETWEEN 5 AND 8),
+    -- NULL uses the peak of the selected curve
+    ADD COLUMN IF NOT EXISTS "insulinPeakMinutes" INTEGER
+        CHECK ("insulinPeakMinutes" BETWEEN 35 AND 120),
+    ADD COLUMN IF NOT EXISTS "carbAbsorptionModel" TEXT NOT NULL DEFAULT 'linear'
+        CHECK ("carbAbsorptionModel" IN ('linear', 'parabolic')),
+    ADD COLUMN IF NOT EXISTS "carbAbsorptionHours" NUMERIC NOT NULL DEFAULT 3
+        CHECK ("carbAbsorptionHours" BETWEEN 1 AND 8);
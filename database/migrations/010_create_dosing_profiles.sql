@@ -0,0 +1,34 @@
+-- Create dosing_profiles table for time-of-day carb ratios, correction factors and targets used by the bolus calculator
+CREATE TABLE IF NOT EXISTS dosing_profiles (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- [{ "start": "HH:MM", "value": grams per unit }]
+    carb_ratios JSONB NOT NULL,
+    -- [{ "start": "HH:MM", "value": mg/dL per unit }]
+    correction_factors JSONB NOT NULL,
+    -- [{ "start": "HH:MM", "low": mg/dL, "high": mg/dL }]
+    targets JSONB NOT NULL,
+    max_bolus NUMERIC(5, 2) NOT NULL CHECK (max_bolus > 0),
+    dose_increment NUMERIC(3, 2) NOT NULL DEFAULT 0.5 CHECK (dose_increment IN (0.05, 0.1, 0.5, 1)),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_dosing_profiles_updated_at
+    BEFORE UPDATE ON dosing_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE dosing_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own dosing profile" ON dosing_profiles
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own dosing profile" ON dosing_profiles
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own dosing profile" ON dosing_profiles
+    FOR UPDATE USING (auth.uid() = user_id);
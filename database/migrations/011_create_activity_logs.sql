@@ -0,0 +1,39 @@
+-- Create activity_logs table for exercise and other physical activity
+CREATE TABLE IF NOT EXISTS activity_logs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    activity_type TEXT NOT NULL CHECK (activity_type IN ('walking', 'running', 'cycling', 'swimming', 'strength', 'yoga', 'sports', 'other')),
+    duration_minutes INTEGER NOT NULL CHECK (duration_minutes > 0 AND duration_minutes <= 1440),
+    intensity TEXT NOT NULL DEFAULT 'moderate' CHECK (intensity IN ('low', 'moderate', 'high')),
+    -- When the activity started
+    timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'chat')),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create index for faster lookups
+CREATE INDEX IF NOT EXISTS idx_activity_logs_user_id_timestamp ON activity_logs(user_id, timestamp DESC);
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_activity_logs_updated_at
+    BEFORE UPDATE ON activity_logs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE activity_logs ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own activity logs" ON activity_logs
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own activity logs" ON activity_logs
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own activity logs" ON activity_logs
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own activity logs" ON activity_logs
+    FOR DELETE USING (auth.uid() = user_id);
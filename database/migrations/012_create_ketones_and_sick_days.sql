@@ -0,0 +1,69 @@
+-- Create ketone_readings table for blood and urine ketone checks
+CREATE TABLE IF NOT EXISTS ketone_readings (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- mmol/L; urine strips are stored as trace 0.5, small 1.5, moderate 4, large 8
+    value NUMERIC(4, 1) NOT NULL CHECK (value >= 0 AND value <= 16),
+    sample_type TEXT NOT NULL CHECK (sample_type IN ('blood', 'urine')),
+    timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create sick_day_sessions table; a session without ended_at means sick-day mode is on
+CREATE TABLE IF NOT EXISTS sick_day_sessions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    ended_at TIMESTAMP WITH TIME ZONE,
+    symptoms TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    -- [{ timestamp, ml }]
+    fluid_log JSONB NOT NULL DEFAULT '[]'::jsonb,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_ketone_readings_user_id_timestamp ON ketone_readings(user_id, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_sick_day_sessions_user_id_started_at ON sick_day_sessions(user_id, started_at DESC);
+-- At most one active sick day per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sick_day_sessions_active ON sick_day_sessions(user_id) WHERE ended_at IS NULL;
+
+-- Create triggers to automatically update updated_at
+CREATE TRIGGER update_ketone_readings_updated_at
+    BEFORE UPDATE ON ketone_readings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_sick_day_sessions_updated_at
+    BEFORE UPDATE ON sick_day_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE ketone_readings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sick_day_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own ketone readings" ON ketone_readings
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own ketone readings" ON ketone_readings
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own ketone readings" ON ketone_readings
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own ketone readings" ON ketone_readings
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own sick days" ON sick_day_sessions
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own sick days" ON sick_day_sessions
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own sick days" ON sick_day_sessions
+    FOR UPDATE USING (auth.uid() = user_id);
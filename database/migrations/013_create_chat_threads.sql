@@ -0,0 +1,40 @@
+-- Create chat_threads table so conversations can span several messages
+CREATE TABLE IF NOT EXISTS chat_threads (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    -- Running summary of older turns that no longer fit the replayed window
+    summary TEXT,
+    summarized_through TIMESTAMP WITH TIME ZONE,
+    last_message_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    archived_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Add thread_id to chat_conversations; existing conversations stay outside any thread
+ALTER TABLE chat_conversations
+    ADD COLUMN IF NOT EXISTS thread_id UUID REFERENCES chat_threads(id) ON DELETE SET NULL;
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_chat_threads_user_id_last_message_at ON chat_threads(user_id, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_thread_id_created_at ON chat_conversations(thread_id, created_at DESC);
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_chat_threads_updated_at
+    BEFORE UPDATE ON chat_threads
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE chat_threads ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own chat threads" ON chat_threads
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own chat threads" ON chat_threads
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own chat threads" ON chat_threads
+    FOR UPDATE USING (auth.uid() = user_id);
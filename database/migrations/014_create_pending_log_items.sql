@@ -0,0 +1,40 @@
+-- Create pending_log_items table: entries picked out of chat messages, waiting for the user to confirm them
+CREATE TABLE IF NOT EXISTS pending_log_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    conversation_id UUID REFERENCES chat_conversations(id) ON DELETE SET NULL,
+    item_type TEXT NOT NULL CHECK (item_type IN ('glucose', 'food', 'insulin', 'activity')),
+    -- Entry fields for the item type; glucose values are in mg/dL
+    data JSONB NOT NULL,
+    -- The part of the message the entry came from
+    source_text TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'rejected')),
+    -- Id of the glucose reading, food log, insulin dose or activity written on confirmation
+    record_id UUID,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_pending_log_items_user_id_status_created_at ON pending_log_items(user_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pending_log_items_conversation_id ON pending_log_items(conversation_id);
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_pending_log_items_updated_at
+    BEFORE UPDATE ON pending_log_items
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE pending_log_items ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own pending log items" ON pending_log_items
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own pending log items" ON pending_log_items
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own pending log items" ON pending_log_items
+    FOR UPDATE USING (auth.uid() = user_id);
@@ -0,0 +1,7 @@
+-- Publish new readings and alerts over Supabase Realtime for the live glucose stream;
+-- RLS still limits each subscriber to their own rows
+ALTER PUBLICATION supabase_realtime ADD TABLE glucose_readings, glucose_alerts;
+
+-- Create indexes for replaying events missed between stream reconnects
+CREATE INDEX IF NOT EXISTS idx_glucose_readings_user_id_created_at ON glucose_readings(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_glucose_alerts_user_id_created_at ON glucose_alerts(user_id, created_at);
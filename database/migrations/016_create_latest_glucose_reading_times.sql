@@ -0,0 +1,11 @@
+-- Create function returning each user's most recent reading time in one query, for scheduled no-data checks
+CREATE OR REPLACE FUNCTION get_latest_glucose_reading_times(user_ids UUID[])
+RETURNS TABLE (user_id UUID, latest_timestamp TIMESTAMP WITH TIME ZONE) AS $$
+    SELECT DISTINCT ON (glucose_readings.user_id) glucose_readings.user_id, glucose_readings.timestamp
+    FROM glucose_readings
+    WHERE glucose_readings.user_id = ANY(user_ids)
+    ORDER BY glucose_readings.user_id, glucose_readings.timestamp DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Create index so each user's latest reading is found without a scan
+CREATE INDEX IF NOT EXISTS idx_glucose_readings_user_id_timestamp ON glucose_readings(user_id, timestamp DESC);
@@ -0,0 +1,3 @@
+-- Lets chat put entries into the log inbox with the propose_log_entry tool; chat is read-only without it
+ALTER TABLE user_preferences
+    ADD COLUMN IF NOT EXISTS "chatLogProposals" BOOLEAN NOT NULL DEFAULT false;
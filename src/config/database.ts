@@ -1,4 +1,4 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -27,4 +27,10 @@ export interface DatabaseConfig {
 export const databaseConfig: DatabaseConfig = {
   url: supabaseUrl,
   anonKey: supabaseAnonKey,
-}; 
\ No newline at end of file
+}; 
+
+// Client acting as the signed-in user, so RLS limits it to their own rows; used for Realtime subscriptions
+export const createUserClient = (accessToken: string): SupabaseClient =>
+  createClient(supabaseUrl, supabaseAnonKey, {
+    accessToken: async () => accessToken
+  });
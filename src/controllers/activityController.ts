@@ -0,0 +1,329 @@
+import { Request, Response } from 'express';
+import { ActivityService, NewActivityLog } from '../services/activityService';
+import { GlucoseService } from '../services/glucoseService';
+import { convertActivityImpactReport } from '../utils/glucoseUnits';
+import { resolveDateBound } from '../utils/timezone';
+
+const INVALID_UNIT_ERROR = 'unit must be either mg/dL or mmol/L';
+const INVALID_TIMEZONE_ERROR = 'tz must be a valid IANA timezone, e.g. America/Los_Angeles';
+const DEFAULT_IMPACT_DAYS = 30;
+const MAX_IMPACT_DAYS = 366;
+// Allows for clock drift between the device and the server
+const MAX_FUTURE_MINUTES = 5;
+
+export class ActivityController {
+  // Validate activity fields from a request body; partial bodies are allowed for updates
+  private static parseActivityFields(body: any): { fields: Partial<NewActivityLog>; error?: string } {
+    const fields: Partial<NewActivityLog> = {};
+
+    if (body.activity_type !== undefined) {
+      if (!ActivityService.ACTIVITY_TYPES.includes(body.activity_type)) {
+        return { fields, error: `activity_type must be one of ${ActivityService.ACTIVITY_TYPES.join(', ')}` };
+      }
+      fields.activity_type = body.activity_type;
+    }
+
+    if (body.duration_minutes !== undefined) {
+      if (
+        !Number.isInteger(body.duration_minutes)
+        || body.duration_minutes < 1
+        || body.duration_minutes > ActivityService.MAX_DURATION_MINUTES
+      ) {
+        return { fields, error: `duration_minutes must be a whole number between 1 and ${ActivityService.MAX_DURATION_MINUTES}` };
+      }
+      fields.duration_minutes = body.duration_minutes;
+    }
+
+    if (body.intensity !== undefined) {
+      if (!ActivityService.INTENSITIES.includes(body.intensity)) {
+        return { fields, error: `intensity must be one of ${ActivityService.INTENSITIES.join(', ')}` };
+      }
+      fields.intensity = body.intensity;
+    }
+
+    if (body.timestamp !== undefined) {
+      const time = typeof body.timestamp === 'string' ? new Date(body.timestamp).getTime() : NaN;
+      if (isNaN(time)) {
+        return { fields, error: 'timestamp must be an ISO 8601 date-time' };
+      }
+      if (time - Date.now() > MAX_FUTURE_MINUTES * 60000) {
+        return { fields, error: 'timestamp cannot be in the future' };
+      }
+      fields.timestamp = new Date(time).toISOString();
+    }
+
+    if (body.source !== undefined) {
+      if (!ActivityService.SOURCES.includes(body.source)) {
+        return { fields, error: `source must be one of ${ActivityService.SOURCES.join(', ')}` };
+      }
+      fields.source = body.source;
+    }
+
+    if (body.notes !== undefined) {
+      if (typeof body.notes !== 'string') {
+        return { fields, error: 'notes must be a string' };
+      }
+      fields.notes = body.notes;
+    }
+
+    return { fields };
+  }
+
+  static async getActivities(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id, startDate, endDate } = req.query;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id parameter is required'
+        });
+        return;
+      }
+
+      if ((startDate && isNaN(new Date(startDate as string).getTime())) || (endDate && isNaN(new Date(endDate as string).getTime()))) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid start date or end date'
+        });
+        return;
+      }
+
+      const activities = startDate || endDate
+        ? await ActivityService.getActivitiesByDateRange(
+          user_id as string,
+          (startDate as string) || new Date(0).toISOString(),
+          (endDate as string) || new Date().toISOString()
+        )
+        : await ActivityService.getActivities(user_id as string, parseInt(req.query['limit'] as string) || 100);
+
+      res.json({
+        success: true,
+        data: activities
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async createActivity(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.body;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id is required in request body'
+        });
+        return;
+      }
+
+      const { fields, error } = ActivityController.parseActivityFields(req.body);
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error
+        });
+        return;
+      }
+
+      if (!fields.activity_type || fields.duration_minutes === undefined) {
+        res.status(400).json({
+          success: false,
+          error: 'activity_type and duration_minutes are required'
+        });
+        return;
+      }
+
+      const activity = await ActivityService.createActivity({
+        user_id,
+        activity_type: fields.activity_type,
+        duration_minutes: fields.duration_minutes,
+        intensity: ActivityService.DEFAULT_INTENSITY[fields.activity_type],
+        // Without a start time the activity is taken to have just finished
+        timestamp: new Date(Date.now() - fields.duration_minutes * 60000).toISOString(),
+        source: 'manual',
+        ...fields
+      });
+
+      if (!activity) {
+        res.status(400).json({
+          success: false,
+          error: 'Failed to log activity'
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: activity
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async updateActivity(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      if (!id) {
+        res.status(400).json({
+          success: false,
+          error: 'Activity ID is required'
+        });
+        return;
+      }
+
+      const { fields, error } = ActivityController.parseActivityFields(req.body);
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error
+        });
+        return;
+      }
+
+      const activity = await ActivityService.updateActivity(id, fields);
+
+      if (!activity) {
+        res.status(404).json({
+          success: false,
+          error: 'Activity not found or update failed'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: activity
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async deleteActivity(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      if (!id) {
+        res.status(400).json({
+          success: false,
+          error: 'Activity ID is required'
+        });
+        return;
+      }
+
+      const success = await ActivityService.deleteActivity(id);
+
+      if (!success) {
+        res.status(404).json({
+          success: false,
+          error: 'Activity not found or delete failed'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Activity deleted successfully'
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  // Glucose during and in the 24 hours after each activity, grouped by activity type
+  static async getImpact(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.query;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id parameter is required'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(user_id as string, req.query['unit']);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const timeZone = await GlucoseService.resolveTimeZone(user_id as string, req.query['tz']);
+
+      if (!timeZone) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_TIMEZONE_ERROR
+        });
+        return;
+      }
+
+      const endDate = resolveDateBound((req.query['endDate'] as string) || new Date().toISOString(), timeZone, true);
+      const startDate = endDate && resolveDateBound(
+        (req.query['startDate'] as string)
+          || new Date(new Date(endDate).getTime() - DEFAULT_IMPACT_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+        timeZone,
+        false
+      );
+
+      if (!startDate || !endDate || new Date(startDate).getTime() > new Date(endDate).getTime()) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid start date or end date'
+        });
+        return;
+      }
+
+      if (new Date(endDate).getTime() - new Date(startDate).getTime() > MAX_IMPACT_DAYS * 24 * 60 * 60 * 1000) {
+        res.status(400).json({
+          success: false,
+          error: `Date range cannot exceed ${MAX_IMPACT_DAYS} days`
+        });
+        return;
+      }
+
+      const report = await GlucoseService.getActivityImpact(user_id as string, startDate, endDate);
+
+      if (!report) {
+        res.status(400).json({
+          success: false,
+          error: 'Failed to analyze activity impact'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: convertActivityImpactReport(report, unit),
+        unit,
+        timeZone
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
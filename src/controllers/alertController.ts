@@ -0,0 +1,345 @@
+import { Request, Response } from 'express';
+import { AlertService, NewGlucoseAlertRule } from '../services/alertService';
+import { GlucoseService } from '../services/glucoseService';
+import { AlertChannel, GlucoseAlert, GlucoseAlertType, GlucoseUnit } from '../types';
+import { convertAlert, convertAlertRule } from '../utils/glucoseUnits';
+
+const INVALID_UNIT_ERROR = 'unit must be either mg/dL or mmol/L';
+
+const isValidTime = (value: unknown): value is string =>
+  typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+const isAlertChannel = (value: unknown): value is AlertChannel =>
+  AlertService.CHANNELS.includes(value as AlertChannel);
+
+export class AlertController {
+  // Validate rule fields from a request body; partial bodies are allowed for updates
+  private static parseRuleFields(
+    body: Record<string, unknown>,
+    type: GlucoseAlertType,
+    unit: GlucoseUnit
+  ): { fields: Partial<NewGlucoseAlertRule>; error?: string } {
+    const fields: Partial<NewGlucoseAlertRule> = {};
+    const { threshold, snooze_minutes, quiet_hours, channels, enabled } = body;
+
+    if (threshold !== undefined) {
+      const { threshold: mgdl, error } = AlertService.parseThreshold(type, threshold, unit);
+      if (mgdl === undefined) {
+        return { fields, error: error || 'threshold is invalid' };
+      }
+      fields.threshold = mgdl;
+    }
+
+    if (snooze_minutes !== undefined) {
+      if (
+        typeof snooze_minutes !== 'number'
+        || !Number.isInteger(snooze_minutes)
+        || snooze_minutes < 0
+        || snooze_minutes > AlertService.MAX_SNOOZE_MINUTES
+      ) {
+        return { fields, error: `snooze_minutes must be an integer from 0 to ${AlertService.MAX_SNOOZE_MINUTES}` };
+      }
+      fields.snooze_minutes = snooze_minutes;
+    }
+
+    if (quiet_hours === null) {
+      fields.quiet_hours = null;
+    } else if (quiet_hours !== undefined) {
+      const { start, end } = (typeof quiet_hours === 'object' ? quiet_hours : {}) as Record<string, unknown>;
+      if (!isValidTime(start) || !isValidTime(end)) {
+        return { fields, error: 'quiet_hours must be null or { start, end } in HH:MM format' };
+      }
+      fields.quiet_hours = { start, end };
+    }
+
+    if (channels !== undefined) {
+      if (!Array.isArray(channels) || !channels.every(isAlertChannel)) {
+        return { fields, error: `channels must only contain ${AlertService.CHANNELS.join(', ')}; push, sms and email delivery is not available yet` };
+      }
+      fields.channels = [...new Set(channels)];
+    }
+
+    if (enabled !== undefined) {
+      if (typeof enabled !== 'boolean') {
+        return { fields, error: 'enabled must be a boolean' };
+      }
+      fields.enabled = enabled;
+    }
+
+    return { fields };
+  }
+
+  static async getRules(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.query;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id parameter is required'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(user_id as string, req.query['unit']);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const rules = await AlertService.getRules(user_id as string);
+
+      res.json({
+        success: true,
+        data: rules.map(rule => convertAlertRule(rule, unit)),
+        unit
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async createRule(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id, type } = req.body;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id is required in request body'
+        });
+        return;
+      }
+
+      if (!AlertService.ALERT_TYPES.includes(type)) {
+        res.status(400).json({
+          success: false,
+          error: `type must be one of ${AlertService.ALERT_TYPES.join(', ')}`
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(user_id, req.body.unit);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const { fields, error } = AlertController.parseRuleFields(req.body, type, unit);
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error
+        });
+        return;
+      }
+
+      const rule = await AlertService.createRule({
+        user_id,
+        type,
+        threshold: AlertService.DEFAULT_THRESHOLDS[type as GlucoseAlertType],
+        snooze_minutes: AlertService.DEFAULT_SNOOZE_MINUTES[type as GlucoseAlertType],
+        quiet_hours: null,
+        channels: ['in_app'],
+        enabled: true,
+        ...fields
+      });
+
+      if (!rule) {
+        res.status(400).json({
+          success: false,
+          error: 'Failed to create alert rule'
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: convertAlertRule(rule, unit),
+        unit
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async updateRule(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      if (!id) {
+        res.status(400).json({
+          success: false,
+          error: 'Alert rule ID is required'
+        });
+        return;
+      }
+
+      const existing = await AlertService.getRule(id);
+
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: 'Alert rule not found or update failed'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(existing.user_id, req.body.unit);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const { fields, error } = AlertController.parseRuleFields(req.body, existing.type, unit);
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error
+        });
+        return;
+      }
+
+      const rule = await AlertService.updateRule(id, fields);
+
+      if (!rule) {
+        res.status(404).json({
+          success: false,
+          error: 'Alert rule not found or update failed'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: convertAlertRule(rule, unit),
+        unit
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async deleteRule(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      if (!id) {
+        res.status(400).json({
+          success: false,
+          error: 'Alert rule ID is required'
+        });
+        return;
+      }
+
+      const success = await AlertService.deleteRule(id);
+
+      if (!success) {
+        res.status(404).json({
+          success: false,
+          error: 'Alert rule not found or delete failed'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Alert rule deleted successfully'
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async getAlertHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id, startDate, endDate, status } = req.query;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id parameter is required'
+        });
+        return;
+      }
+
+      if (status && status !== 'delivered' && status !== 'suppressed') {
+        res.status(400).json({
+          success: false,
+          error: 'status must be either delivered or suppressed'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(user_id as string, req.query['unit']);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const limit = parseInt(req.query['limit'] as string) || 100;
+      const alerts = await AlertService.getAlertHistory(user_id as string, {
+        ...(startDate ? { startDate: startDate as string } : {}),
+        ...(endDate ? { endDate: endDate as string } : {}),
+        ...(status ? { status: status as GlucoseAlert['status'] } : {}),
+        limit
+      });
+
+      res.json({
+        success: true,
+        data: alerts.map(alert => convertAlert(alert, unit)),
+        unit
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  // Called on a schedule rather than by users
+  static async checkNoData(_req: Request, res: Response): Promise<void> {
+    try {
+      const alerts = await AlertService.evaluateNoDataRules();
+
+      res.json({
+        success: true,
+        data: { triggered: alerts.length }
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
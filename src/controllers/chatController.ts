@@ -1,34 +1,122 @@
 import { Request, Response } from 'express';
+import { ChatContext } from '../services/chatContextService';
 import { ChatService } from '../services/chatService';
+import { ChatThreadService, NewChatThread } from '../services/chatThreadService';
+import { GlucoseService } from '../services/glucoseService';
+import { ChatThread, GlucoseUnit } from '../types';
+import { convertGlucoseContextToMgdl, convertPendingLogItem } from '../utils/glucoseUnits';
+
+const STREAM_HEARTBEAT_MS = 25000;
 
 export class ChatController {
+  // The user comes from the token; a user_id sent with the request must be the same user
+  private static requireUser(req: Request, res: Response, requestedUserId: unknown): string | null {
+    const user_id = req.user?.id;
+
+    if (!user_id) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return null;
+    }
+
+    if (requestedUserId !== undefined && requestedUserId !== user_id) {
+      res.status(403).json({
+        success: false,
+        error: 'user_id does not match the authenticated user'
+      });
+      return null;
+    }
+
+    return user_id;
+  }
+
+  // Validate a chat message body shared by the blocking and streaming endpoints; sends the error response itself
+  private static async parseMessageRequest(req: Request, res: Response): Promise<{
+    userId: string;
+    message: string;
+    glucoseContext: ChatContext | undefined;
+    unit: GlucoseUnit;
+    thread: ChatThread | undefined;
+  } | null> {
+    const { message, glucoseContext, unit: unitOverride, thread_id } = req.body;
+    // Context is loaded from the user's own records, so the user comes from the token
+    const user_id = ChatController.requireUser(req, res, req.body.user_id);
+
+    if (!user_id) {
+      return null;
+    }
+
+    if (!message) {
+      res.status(400).json({
+        success: false,
+        error: 'Message is required'
+      });
+      return null;
+    }
+
+    const unit = await GlucoseService.resolveUnit(user_id, unitOverride);
+
+    if (!unit) {
+      res.status(400).json({
+        success: false,
+        error: 'unit must be either mg/dL or mmol/L'
+      });
+      return null;
+    }
+
+    const thread = thread_id ? await ChatThreadService.getThread(thread_id) : null;
+
+    if (thread_id && (!thread || thread.user_id !== user_id)) {
+      res.status(404).json({
+        success: false,
+        error: 'Chat thread not found'
+      });
+      return null;
+    }
+
+    if (thread?.archived_at) {
+      res.status(409).json({
+        success: false,
+        error: 'Chat thread is archived; unarchive it to continue the conversation'
+      });
+      return null;
+    }
+
+    return {
+      userId: user_id,
+      message,
+      glucoseContext: convertGlucoseContextToMgdl(glucoseContext, unit),
+      unit,
+      thread: thread || undefined
+    };
+  }
+
   static async analyzeMessage(req: Request, res: Response): Promise<void> {
     try {
-      const { user_id, message, glucoseContext } = req.body;
-
-      if (!user_id) {
-        res.status(400).json({
-          success: false,
-          error: 'user_id is required in request body'
-        });
-        return;
-      }
+      const parsed = await ChatController.parseMessageRequest(req, res);
 
-      if (!message) {
-        res.status(400).json({
-          success: false,
-          error: 'Message is required'
-        });
+      if (!parsed) {
         return;
       }
 
-      const aiResponse = await ChatService.analyzeMessage(user_id, message, glucoseContext);
+      const { response, threadId, pendingItems } = await ChatService.analyzeMessage(
+        parsed.userId,
+        parsed.message,
+        parsed.glucoseContext,
+        parsed.unit,
+        parsed.thread
+      );
 
       res.json({
         success: true,
         data: {
-          response: aiResponse
-        }
+          response,
+          thread_id: threadId,
+          pending_items: pendingItems.map(item => convertPendingLogItem(item, parsed.unit))
+        },
+        unit: parsed.unit
       });
     } catch (error) {
       res.status(500).json({
@@ -38,6 +126,88 @@ export class ChatController {
     }
   }
 
+  // Server-Sent Events variant of analyzeMessage: ready with the thread, token for each piece of text,
+  // then done with the full response or error; a client that disconnects cancels the Claude request
+  static async streamMessage(req: Request, res: Response): Promise<void> {
+    const abort = new AbortController();
+    let heartbeat: NodeJS.Timeout | undefined;
+
+    try {
+      const parsed = await ChatController.parseMessageRequest(req, res);
+
+      if (!parsed) {
+        return;
+      }
+
+      // no-transform keeps the compression middleware from buffering the stream
+      res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+      res.flushHeaders();
+
+      const send = (event: string, data: unknown) => {
+        if (!res.writableEnded) {
+          res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+      };
+
+      heartbeat = setInterval(() => res.write(': keep-alive\n\n'), STREAM_HEARTBEAT_MS);
+
+      // The request emits close once its body is read, so disconnects are detected on the response
+      res.on('close', () => {
+        clearInterval(heartbeat);
+        if (!res.writableEnded) {
+          abort.abort();
+        }
+      });
+
+      try {
+        const { response, threadId, pendingItems } = await ChatService.streamMessage(
+          parsed.userId,
+          parsed.message,
+          parsed.glucoseContext,
+          parsed.unit,
+          parsed.thread,
+          {
+            onThread: threadId => send('ready', { thread_id: threadId }),
+            onText: text => send('token', { text }),
+            signal: abort.signal
+          }
+        );
+
+        send('done', {
+          response,
+          thread_id: threadId,
+          pending_items: pendingItems.map(item => convertPendingLogItem(item, parsed.unit)),
+          unit: parsed.unit
+        });
+      } catch (error) {
+        // Nobody is left to tell after a disconnect; the partial response is not stored
+        if (!abort.signal.aborted) {
+          console.error('Error streaming chat response:', error);
+          send('error', { error: 'I apologize, but I\'m having trouble processing your request right now. Please try again later.' });
+        }
+      }
+
+      clearInterval(heartbeat);
+      res.end();
+    } catch (error) {
+      clearInterval(heartbeat);
+      console.error('Error opening chat stream:', error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error'
+        });
+      } else {
+        res.end();
+      }
+    }
+  }
+
   static async getConversations(req: Request, res: Response): Promise<void> {
     try {
       const { user_id } = req.query;
@@ -67,13 +237,10 @@ export class ChatController {
 
   static async logConversation(req: Request, res: Response): Promise<void> {
     try {
-      const { user_id, message, ai_response, auto_logged_data, glucose_context } = req.body;
+      const { message, ai_response, auto_logged_data, glucose_context, thread_id } = req.body;
+      const user_id = ChatController.requireUser(req, res, req.body.user_id);
 
       if (!user_id) {
-        res.status(400).json({
-          success: false,
-          error: 'user_id is required in request body'
-        });
         return;
       }
 
@@ -85,12 +252,26 @@ export class ChatController {
         return;
       }
 
+      // Logged turns are replayed to Claude as the thread's history, so only the owner can add them
+      if (thread_id) {
+        const thread = await ChatThreadService.getThread(thread_id);
+
+        if (!thread || thread.user_id !== user_id) {
+          res.status(404).json({
+            success: false,
+            error: 'Chat thread not found'
+          });
+          return;
+        }
+      }
+
       const conversation = await ChatService.logConversation({
         user_id,
         message,
         ai_response,
         auto_logged_data,
-        glucose_context
+        glucose_context,
+        ...(thread_id ? { thread_id } : {})
       });
 
       if (!conversation) {
@@ -112,4 +293,186 @@ export class ChatController {
       });
     }
   }
+
+  static async getThreads(req: Request, res: Response): Promise<void> {
+    try {
+      const user_id = ChatController.requireUser(req, res, req.query['user_id']);
+
+      if (!user_id) {
+        return;
+      }
+
+      const threads = await ChatThreadService.getThreads(
+        user_id,
+        req.query['archived'] === 'true',
+        parseInt(req.query['limit'] as string) || 50
+      );
+
+      res.json({
+        success: true,
+        data: threads
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async createThread(req: Request, res: Response): Promise<void> {
+    try {
+      const { title = 'New conversation' } = req.body;
+      const user_id = ChatController.requireUser(req, res, req.body.user_id);
+
+      if (!user_id) {
+        return;
+      }
+
+      if (typeof title !== 'string' || !title.trim() || title.length > ChatThreadService.MAX_TITLE_LENGTH) {
+        res.status(400).json({
+          success: false,
+          error: `title must be a non-empty string of at most ${ChatThreadService.MAX_TITLE_LENGTH} characters`
+        });
+        return;
+      }
+
+      const thread = await ChatThreadService.createThread(user_id, title.trim());
+
+      if (!thread) {
+        res.status(400).json({
+          success: false,
+          error: 'Failed to create chat thread'
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: thread
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  // Rename with title; archive or unarchive with archived
+  static async updateThread(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { title, archived } = req.body;
+      const user_id = ChatController.requireUser(req, res, undefined);
+
+      if (!user_id) {
+        return;
+      }
+
+      if (!id) {
+        res.status(400).json({
+          success: false,
+          error: 'Chat thread ID is required'
+        });
+        return;
+      }
+
+      if (title !== undefined && (typeof title !== 'string' || !title.trim() || title.length > ChatThreadService.MAX_TITLE_LENGTH)) {
+        res.status(400).json({
+          success: false,
+          error: `title must be a non-empty string of at most ${ChatThreadService.MAX_TITLE_LENGTH} characters`
+        });
+        return;
+      }
+
+      if (archived !== undefined && typeof archived !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          error: 'archived must be a boolean'
+        });
+        return;
+      }
+
+      const existing = await ChatThreadService.getThread(id);
+
+      // Another user's thread is reported as missing, as in parseMessageRequest
+      if (!existing || existing.user_id !== user_id) {
+        res.status(404).json({
+          success: false,
+          error: 'Chat thread not found or update failed'
+        });
+        return;
+      }
+
+      const updates: Partial<NewChatThread> = {};
+      if (title !== undefined) updates.title = title.trim();
+      // Archiving again keeps the original archive time
+      if (archived !== undefined) updates.archived_at = archived ? existing.archived_at || new Date().toISOString() : null;
+
+      const thread = await ChatThreadService.updateThread(id, updates);
+
+      if (!thread) {
+        res.status(404).json({
+          success: false,
+          error: 'Chat thread not found or update failed'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: thread
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async getThreadMessages(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const user_id = ChatController.requireUser(req, res, undefined);
+
+      if (!user_id) {
+        return;
+      }
+
+      if (!id) {
+        res.status(400).json({
+          success: false,
+          error: 'Chat thread ID is required'
+        });
+        return;
+      }
+
+      const thread = await ChatThreadService.getThread(id);
+
+      if (!thread || thread.user_id !== user_id) {
+        res.status(404).json({
+          success: false,
+          error: 'Chat thread not found'
+        });
+        return;
+      }
+
+      const messages = await ChatThreadService.getTurns(id, null, parseInt(req.query['limit'] as string) || 100);
+
+      res.json({
+        success: true,
+        data: {
+          thread,
+          messages
+        }
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
 } 
\ No newline at end of file
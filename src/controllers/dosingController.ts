@@ -0,0 +1,271 @@
+import { Request, Response } from 'express';
+import { DosingService, NewDosingProfile } from '../services/dosingService';
+import { GlucoseForecastService } from '../services/glucoseForecastService';
+import { GlucoseService } from '../services/glucoseService';
+import { InsulinService } from '../services/insulinService';
+import { DosingScheduleEntry, DosingTargetEntry, GlucoseTrend } from '../types';
+import {
+  convertBolusCalculation,
+  convertDosingProfile,
+  convertDosingProfileFromMgdl,
+  toMgdl
+} from '../utils/glucoseUnits';
+
+const INVALID_UNIT_ERROR = 'unit must be either mg/dL or mmol/L';
+// Arrows with a known rate of change
+const TRENDS = Object.keys(GlucoseForecastService.TREND_RATES) as GlucoseTrend[];
+// Limits in grams per unit and mg/dL
+const CARB_RATIO_RANGE: [number, number] = [1, 150];
+const CORRECTION_FACTOR_RANGE: [number, number] = [5, 500];
+const TARGET_RANGE: [number, number] = [70, 250];
+const MAX_CARBS = 500;
+
+const isValidTime = (value: unknown): boolean =>
+  typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+// A schedule needs one entry per distinct start time; returns an error message when invalid
+const validateSchedule = (name: string, schedule: unknown): string | null => {
+  if (!Array.isArray(schedule) || schedule.length === 0) {
+    return `${name} must be a non-empty array`;
+  }
+  if (schedule.some(entry => !entry || !isValidTime(entry.start))) {
+    return `every ${name} entry needs a start time in HH:MM format`;
+  }
+  if (new Set(schedule.map(entry => entry.start)).size !== schedule.length) {
+    return `${name} entries must have distinct start times`;
+  }
+  return null;
+};
+
+const inRange = (value: unknown, [min, max]: [number, number]): boolean =>
+  typeof value === 'number' && value >= min && value <= max;
+
+// Correction factors and targets must already be in mg/dL
+const validateProfileValues = (
+  carbRatios: DosingScheduleEntry[],
+  glucoseSchedules: { correction_factors: DosingScheduleEntry[]; targets: DosingTargetEntry[] },
+  maxBolus: unknown,
+  doseIncrement: unknown
+): string | null => {
+  if (carbRatios.some(entry => !inRange(entry.value, CARB_RATIO_RANGE))) {
+    return `carb_ratios values must be between ${CARB_RATIO_RANGE[0]} and ${CARB_RATIO_RANGE[1]} grams per unit`;
+  }
+  if (glucoseSchedules.correction_factors.some(entry => !inRange(entry.value, CORRECTION_FACTOR_RANGE))) {
+    return `correction_factors values must be between ${CORRECTION_FACTOR_RANGE[0]} and ${CORRECTION_FACTOR_RANGE[1]} mg/dL per unit`;
+  }
+  if (glucoseSchedules.targets.some(entry =>
+    !inRange(entry.low, TARGET_RANGE) || !inRange(entry.high, TARGET_RANGE) || entry.low > entry.high
+  )) {
+    return `targets need low <= high, both between ${TARGET_RANGE[0]} and ${TARGET_RANGE[1]} mg/dL`;
+  }
+  if (!inRange(maxBolus, [0.05, InsulinService.MAX_UNITS])) {
+    return `max_bolus must be a number between 0.05 and ${InsulinService.MAX_UNITS}`;
+  }
+  if (!DosingService.DOSE_INCREMENTS.includes(doseIncrement as number)) {
+    return `dose_increment must be one of ${DosingService.DOSE_INCREMENTS.join(', ')}`;
+  }
+  return null;
+};
+
+export class DosingController {
+  static async getProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.query;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id parameter is required'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(user_id as string, req.query['unit']);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const profile = await DosingService.getProfile(user_id as string);
+
+      if (!profile) {
+        res.status(404).json({
+          success: false,
+          error: 'Dosing profile not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: convertDosingProfileFromMgdl(profile, unit),
+        unit
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  // Replaces the whole profile; correction factors and targets are in the request unit
+  static async saveProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id, carb_ratios, correction_factors, targets, max_bolus } = req.body;
+      const dose_increment = req.body.dose_increment ?? DosingService.DEFAULT_DOSE_INCREMENT;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id is required in request body'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(user_id, req.body.unit);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const scheduleError = validateSchedule('carb_ratios', carb_ratios)
+        || validateSchedule('correction_factors', correction_factors)
+        || validateSchedule('targets', targets);
+
+      if (scheduleError) {
+        res.status(400).json({
+          success: false,
+          error: scheduleError
+        });
+        return;
+      }
+
+      const converted = convertDosingProfile(
+        { correction_factors, targets },
+        value => typeof value === 'number' ? toMgdl(value, unit) : value
+      ) as { correction_factors: DosingScheduleEntry[]; targets: DosingTargetEntry[] };
+
+      const error = validateProfileValues(carb_ratios, converted, max_bolus, dose_increment);
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error
+        });
+        return;
+      }
+
+      const profileData: NewDosingProfile = {
+        user_id,
+        carb_ratios: (carb_ratios as DosingScheduleEntry[]).map(({ start, value }) => ({ start, value })),
+        correction_factors: converted.correction_factors.map(({ start, value }) => ({ start, value })),
+        targets: converted.targets.map(({ start, low, high }) => ({ start, low, high })),
+        max_bolus,
+        dose_increment
+      };
+
+      const profile = await DosingService.saveProfile(profileData);
+
+      if (!profile) {
+        res.status(400).json({
+          success: false,
+          error: 'Failed to save dosing profile'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: convertDosingProfileFromMgdl(profile, unit),
+        unit
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async calculateBolus(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id, carbs = 0, glucose, trend } = req.body;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id is required in request body'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(user_id, req.body.unit);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      if (!inRange(carbs, [0, MAX_CARBS])) {
+        res.status(400).json({
+          success: false,
+          error: `carbs must be a number between 0 and ${MAX_CARBS}`
+        });
+        return;
+      }
+
+      if (glucose !== undefined && (typeof glucose !== 'number' || !(glucose > 0))) {
+        res.status(400).json({
+          success: false,
+          error: 'glucose must be a positive number'
+        });
+        return;
+      }
+
+      if (trend !== undefined && !TRENDS.includes(trend)) {
+        res.status(400).json({
+          success: false,
+          error: `trend must be one of ${TRENDS.join(', ')}`
+        });
+        return;
+      }
+
+      const calculation = await DosingService.calculateBolus(user_id, {
+        carbs,
+        ...(glucose !== undefined ? { glucose: toMgdl(glucose, unit) } : {}),
+        ...(trend !== undefined ? { trend } : {})
+      }, unit);
+
+      if (!calculation) {
+        res.status(404).json({
+          success: false,
+          error: 'Dosing profile not found. Save your carb ratios, correction factors and targets first.'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: convertBolusCalculation(calculation, unit),
+        unit
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
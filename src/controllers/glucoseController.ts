@@ -1,6 +1,62 @@
 import { Request, Response } from 'express';
+import { getBearerToken } from '../middleware/auth';
 import { GlucoseService } from '../services/glucoseService';
 import { AIService } from '../services/aiService';
+import { AgpService } from '../services/agpService';
+import { GlucoseImportService } from '../services/glucoseImportService';
+import { GlucoseStreamService } from '../services/glucoseStreamService';
+import { HttpError } from '../utils/httpError';
+import { GlucoseEpisodeService } from '../services/glucoseEpisodeService';
+import { GlucoseTagService } from '../services/glucoseTagService';
+import { SensorWearService } from '../services/sensorWearService';
+import { GlucoseValidationService } from '../services/glucoseValidationService';
+import { GlucoseEpisodeType, GlucoseReading, GlucoseStatsPeriod } from '../types';
+import {
+  convertAlert,
+  convertEpisode,
+  convertForecast,
+  convertProfile,
+  convertReading,
+  convertStats,
+  convertStatsComparison,
+  convertTagStats,
+  toMgdl
+} from '../utils/glucoseUnits';
+import { resolveDateBound } from '../utils/timezone';
+
+const INVALID_UNIT_ERROR = 'unit must be either mg/dL or mmol/L';
+const INVALID_TIMEZONE_ERROR = 'tz must be a valid IANA timezone, e.g. America/Los_Angeles';
+// Streams end before the 30 second function limit and the client reconnects shortly after
+const STREAM_DURATION_MS = 25000;
+const STREAM_RETRY_MS = 1000;
+const MAX_STATS_RANGE_DAYS = 366;
+
+// Validate and normalize context tags on a reading body; existing values fill in for partial updates
+const applyReadingContext = (
+  body: Record<string, any>,
+  existing?: Pick<GlucoseReading, 'tags' | 'meal_type'>
+): string | null => {
+  if (body['tags'] !== undefined) {
+    const tags = GlucoseTagService.parseTags(body['tags']);
+    if (!tags) {
+      return `tags must be an array containing only ${GlucoseTagService.TAGS.join(', ')}`;
+    }
+    body['tags'] = tags;
+  }
+
+  if (body['meal_type'] !== undefined) {
+    const mealType = GlucoseTagService.parseMealType(body['meal_type']);
+    if (mealType === undefined) {
+      return `meal_type must be one of ${GlucoseTagService.MEAL_TYPES.join(', ')}`;
+    }
+    body['meal_type'] = mealType;
+  }
+
+  return GlucoseTagService.validate(
+    body['tags'] ?? existing?.tags ?? [],
+    body['meal_type'] !== undefined ? body['meal_type'] : existing?.meal_type
+  );
+};
 
 export class GlucoseController {
   static async getReadings(req: Request, res: Response): Promise<void> {
@@ -15,12 +71,23 @@ export class GlucoseController {
         return;
       }
 
+      const unit = await GlucoseService.resolveUnit(user_id as string, req.query['unit']);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
       const limit = parseInt(req.query['limit'] as string) || 100;
       const readings = await GlucoseService.getReadings(user_id as string, limit);
 
       res.json({
         success: true,
-        data: readings
+        data: readings.map(reading => convertReading(reading, unit)),
+        unit
       });
     } catch (error) {
       res.status(500).json({
@@ -32,7 +99,7 @@ export class GlucoseController {
 
   static async addReading(req: Request, res: Response): Promise<void> {
     try {
-      const readingData = req.body;
+      const { unit: unitOverride, ...readingData } = req.body;
 
       if (!readingData.user_id) {
         res.status(400).json({
@@ -42,9 +109,32 @@ export class GlucoseController {
         return;
       }
 
-      const reading = await GlucoseService.addReading(readingData);
+      const unit = await GlucoseService.resolveUnit(readingData.user_id, unitOverride);
 
-      if (!reading) {
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const contextError = applyReadingContext(readingData);
+
+      if (contextError) {
+        res.status(400).json({
+          success: false,
+          error: contextError
+        });
+        return;
+      }
+
+      GlucoseValidationService.validateInput(readingData, unit);
+      readingData.value = toMgdl(readingData.value, unit);
+
+      const result = await GlucoseService.saveReading(readingData);
+
+      if (!result) {
         res.status(400).json({
           success: false,
           error: 'Failed to add glucose reading'
@@ -52,9 +142,153 @@ export class GlucoseController {
         return;
       }
 
+      // A duplicate of a stored reading returns the reading that was kept
+      res.status(result.duplicate ? 200 : 201).json({
+        success: true,
+        data: convertReading(result.reading, unit),
+        duplicate: result.duplicate,
+        unit
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async importReadings(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id, csv } = req.body;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id is required in request body'
+        });
+        return;
+      }
+
+      if (!csv || typeof csv !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'csv must contain the exported file contents'
+        });
+        return;
+      }
+
+      const timeZone = await GlucoseService.resolveTimeZone(user_id, req.body.tz);
+
+      if (!timeZone) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_TIMEZONE_ERROR
+        });
+        return;
+      }
+
+      const summary = await GlucoseImportService.importCsv(user_id, csv, timeZone);
+
       res.status(201).json({
         success: true,
-        data: reading
+        data: summary
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details
+        });
+        return;
+      }
+
+      console.error('Error importing glucose readings:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  // Maintenance: merge duplicate readings in stored history. Defaults to a dry run.
+  static async reconcileReadings(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id, dryRun = true } = req.body;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id is required in request body'
+        });
+        return;
+      }
+
+      if (typeof dryRun !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          error: 'dryRun must be a boolean'
+        });
+        return;
+      }
+
+      const timeZone = await GlucoseService.resolveTimeZone(user_id, req.body.tz);
+
+      if (!timeZone) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_TIMEZONE_ERROR
+        });
+        return;
+      }
+
+      const endDate = resolveDateBound(req.body.endDate || new Date().toISOString(), timeZone, true);
+      const startDate = endDate && resolveDateBound(
+        req.body.startDate || new Date(new Date(endDate).getTime() - 90 * 24 * 60 * 60 * 1000).toISOString(),
+        timeZone,
+        false
+      );
+
+      if (!startDate || !endDate || new Date(startDate).getTime() >= new Date(endDate).getTime()) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid start date or end date'
+        });
+        return;
+      }
+
+      if (new Date(endDate).getTime() - new Date(startDate).getTime() > MAX_STATS_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+        res.status(400).json({
+          success: false,
+          error: `Date range cannot exceed ${MAX_STATS_RANGE_DAYS} days`
+        });
+        return;
+      }
+
+      const report = await GlucoseService.reconcileHistory(user_id, startDate, endDate, dryRun);
+
+      if (!report) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to reconcile glucose readings'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: report
       });
     } catch (error) {
       res.status(500).json({
@@ -84,15 +318,48 @@ export class GlucoseController {
         return;
       }
 
+      const unit = await GlucoseService.resolveUnit(user_id as string, req.query['unit']);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const timeZone = await GlucoseService.resolveTimeZone(user_id as string, req.query['tz']);
+
+      if (!timeZone) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_TIMEZONE_ERROR
+        });
+        return;
+      }
+
+      const rangeStart = resolveDateBound(startDate as string, timeZone, false);
+      const rangeEnd = resolveDateBound(endDate as string, timeZone, true);
+
+      if (!rangeStart || !rangeEnd) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid start date or end date'
+        });
+        return;
+      }
+
       const readings = await GlucoseService.getReadingsByDateRange(
         user_id as string,
-        startDate as string,
-        endDate as string
+        rangeStart,
+        rangeEnd
       );
 
       res.json({
         success: true,
-        data: readings
+        data: readings.map(reading => convertReading(reading, unit)),
+        unit,
+        timeZone
       });
     } catch (error) {
       res.status(500).json({
@@ -113,7 +380,53 @@ export class GlucoseController {
         return;
       }
       
-      const reading = await GlucoseService.updateReading(id, req.body);
+      const existing = await GlucoseService.getReadingById(id);
+
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: 'Glucose reading not found or update failed'
+        });
+        return;
+      }
+
+      const { unit: unitOverride, ...updates } = req.body;
+      const unit = await GlucoseService.resolveUnit(existing.user_id, unitOverride);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const contextError = applyReadingContext(updates, existing);
+
+      if (contextError) {
+        res.status(400).json({
+          success: false,
+          error: contextError
+        });
+        return;
+      }
+
+      GlucoseValidationService.validateInput(updates, unit, { partial: true });
+
+      // Quality is derived from neighbouring readings, never taken from the client
+      delete updates.quality;
+      delete updates.quality_flags;
+
+      if (updates.value !== undefined) {
+        updates.value = toMgdl(updates.value, unit);
+      }
+
+      // A changed value or time may make the reading (im)plausible against its neighbours
+      if (updates.value !== undefined || updates.timestamp !== undefined) {
+        Object.assign(updates, await GlucoseService.assessQuality({ ...existing, ...updates }));
+      }
+
+      const reading = await GlucoseService.updateReading(id, updates);
 
       if (!reading) {
         res.status(404).json({
@@ -125,9 +438,20 @@ export class GlucoseController {
 
       res.json({
         success: true,
-        data: reading
+        data: convertReading(reading, unit),
+        unit
       });
     } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         error: 'Internal server error'
@@ -180,8 +504,92 @@ export class GlucoseController {
         return;
       }
 
-      const period = (req.query['period'] as 'day' | 'week' | 'month') || 'day';
-      const stats = await GlucoseService.getStats(user_id as string, period);
+      const unit = await GlucoseService.resolveUnit(user_id as string, req.query['unit']);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const timeZone = await GlucoseService.resolveTimeZone(user_id as string, req.query['tz']);
+
+      if (!timeZone) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_TIMEZONE_ERROR
+        });
+        return;
+      }
+
+      const { startDate, endDate, compare } = req.query;
+      let period: GlucoseStatsPeriod;
+      let rangeStart: Date;
+      let rangeEnd: Date;
+
+      // Explicit dates take precedence over a named period
+      if (startDate || endDate) {
+        const start = startDate ? resolveDateBound(startDate as string, timeZone, false) : null;
+        const end = resolveDateBound((endDate as string) || new Date().toISOString(), timeZone, true);
+
+        if (!start || !end || new Date(start).getTime() >= new Date(end).getTime()) {
+          res.status(400).json({
+            success: false,
+            error: 'startDate is required and must be before endDate'
+          });
+          return;
+        }
+
+        period = 'custom';
+        rangeStart = new Date(start);
+        rangeEnd = new Date(end);
+      } else {
+        const requested = (req.query['period'] as string) || 'day';
+        const named = GlucoseService.STATS_PERIODS.find(value => value === requested);
+
+        if (!named) {
+          res.status(400).json({
+            success: false,
+            error: `period must be one of ${GlucoseService.STATS_PERIODS.join(', ')}`
+          });
+          return;
+        }
+
+        period = named;
+        ({ startDate: rangeStart, endDate: rangeEnd } = GlucoseService.getPeriodRange(named, timeZone));
+      }
+
+      if (rangeEnd.getTime() - rangeStart.getTime() > MAX_STATS_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+        res.status(400).json({
+          success: false,
+          error: `Date range cannot exceed ${MAX_STATS_RANGE_DAYS} days`
+        });
+        return;
+      }
+
+      if (compare === 'true') {
+        const comparison = await GlucoseService.compareStats(user_id as string, rangeStart, rangeEnd, period);
+
+        if (!comparison) {
+          res.status(404).json({
+            success: false,
+            error: 'No glucose data found for statistics'
+          });
+          return;
+        }
+
+        res.json({
+          success: true,
+          data: convertStatsComparison(comparison, unit),
+          unit,
+          timeZone
+        });
+        return;
+      }
+
+      const stats = await GlucoseService.getStatsForRange(user_id as string, rangeStart, rangeEnd, period);
 
       if (!stats) {
         res.status(404).json({
@@ -193,7 +601,9 @@ export class GlucoseController {
 
       res.json({
         success: true,
-        data: stats
+        data: convertStats(stats, unit),
+        unit,
+        timeZone
       });
     } catch (error) {
       res.status(500).json({
@@ -203,32 +613,507 @@ export class GlucoseController {
     }
   }
 
-  static async getGlucoseAnalysis(req: Request, res: Response): Promise<void> {
+  // Glucose broken down by reading context tag, with pre- and post-meal readings split by meal type
+  static async getTagStats(req: Request, res: Response): Promise<void> {
     try {
-      const { user_id } = req.body;
+      const { user_id } = req.query;
 
       if (!user_id) {
         res.status(400).json({
           success: false,
-          error: 'user_id is required in request body'
+          error: 'user_id parameter is required'
         });
         return;
       }
 
-      // Get recent glucose readings for analysis
-      const readings = await GlucoseService.getReadings(user_id, 50);
-      
-      if (readings.length === 0) {
-        res.json({
-          success: true,
-          data: {
-            analysis: 'No glucose data available for analysis. Please add some readings to get personalized insights.'
-          }
+      const unit = await GlucoseService.resolveUnit(user_id as string, req.query['unit']);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const timeZone = await GlucoseService.resolveTimeZone(user_id as string, req.query['tz']);
+
+      if (!timeZone) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_TIMEZONE_ERROR
+        });
+        return;
+      }
+
+      const endDate = resolveDateBound((req.query['endDate'] as string) || new Date().toISOString(), timeZone, true);
+      const startDate = endDate && resolveDateBound(
+        (req.query['startDate'] as string)
+          || new Date(new Date(endDate).getTime() - 30 * 24 * 60 * 60 * 1000).toISOString(),
+        timeZone,
+        false
+      );
+
+      if (!startDate || !endDate) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid start date or end date'
         });
         return;
       }
 
-      const analysis = await AIService.analyzeGlucosePatterns(readings);
+      const stats = await GlucoseService.getTagStats(user_id as string, startDate, endDate, timeZone);
+
+      if (!stats) {
+        res.status(404).json({
+          success: false,
+          error: 'No glucose data found for statistics'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: convertTagStats(stats, unit),
+        unit
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async getAmbulatoryGlucoseProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.query;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id parameter is required'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(user_id as string, req.query['unit']);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const timeZone = await GlucoseService.resolveTimeZone(user_id as string, req.query['tz']);
+
+      if (!timeZone) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_TIMEZONE_ERROR
+        });
+        return;
+      }
+
+      // Default to the standard 14-day AGP window
+      const endDate = resolveDateBound((req.query['endDate'] as string) || new Date().toISOString(), timeZone, true);
+      const startDate = endDate && resolveDateBound(
+        (req.query['startDate'] as string)
+          || new Date(new Date(endDate).getTime() - 14 * 24 * 60 * 60 * 1000).toISOString(),
+        timeZone,
+        false
+      );
+
+      if (!startDate || !endDate) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid start date or end date'
+        });
+        return;
+      }
+
+      const bucketMinutes = parseInt(req.query['bucketMinutes'] as string) || AgpService.DEFAULT_BUCKET_MINUTES;
+
+      if (!AgpService.ALLOWED_BUCKET_MINUTES.includes(bucketMinutes)) {
+        res.status(400).json({
+          success: false,
+          error: `bucketMinutes must be one of ${AgpService.ALLOWED_BUCKET_MINUTES.join(', ')}`
+        });
+        return;
+      }
+
+      const profile = await GlucoseService.getAmbulatoryGlucoseProfile(
+        user_id as string,
+        startDate,
+        endDate,
+        bucketMinutes,
+        timeZone
+      );
+
+      if (!profile) {
+        res.status(404).json({
+          success: false,
+          error: 'No glucose data found for the ambulatory glucose profile'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: convertProfile(profile, unit),
+        unit
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async getEpisodes(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id, type } = req.query;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id parameter is required'
+        });
+        return;
+      }
+
+      if (type && type !== 'hypoglycemia' && type !== 'hyperglycemia') {
+        res.status(400).json({
+          success: false,
+          error: 'type must be either hypoglycemia or hyperglycemia'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(user_id as string, req.query['unit']);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const timeZone = await GlucoseService.resolveTimeZone(user_id as string, req.query['tz']);
+
+      if (!timeZone) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_TIMEZONE_ERROR
+        });
+        return;
+      }
+
+      const endDate = resolveDateBound((req.query['endDate'] as string) || new Date().toISOString(), timeZone, true);
+      const startDate = endDate && resolveDateBound(
+        (req.query['startDate'] as string)
+          || new Date(new Date(endDate).getTime() - 14 * 24 * 60 * 60 * 1000).toISOString(),
+        timeZone,
+        false
+      );
+
+      if (!startDate || !endDate) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid start date or end date'
+        });
+        return;
+      }
+
+      const episodes = await GlucoseService.getEpisodes(
+        user_id as string,
+        startDate,
+        endDate,
+        type as GlucoseEpisodeType | undefined
+      );
+
+      res.json({
+        success: true,
+        data: {
+          startDate,
+          endDate,
+          counts: GlucoseEpisodeService.count(episodes),
+          episodes: episodes.map(episode => convertEpisode(episode, unit))
+        },
+        unit
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  // CGM wear report: data gaps, sensor sessions and days with too little data
+  static async getSensorWear(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.query;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id parameter is required'
+        });
+        return;
+      }
+
+      const gapMinutes = req.query['gapMinutes'] === undefined
+        ? SensorWearService.DEFAULT_GAP_MINUTES
+        : Number(req.query['gapMinutes']);
+
+      if (
+        !Number.isInteger(gapMinutes) ||
+        gapMinutes < SensorWearService.MIN_GAP_MINUTES ||
+        gapMinutes > SensorWearService.MAX_GAP_MINUTES
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `gapMinutes must be a whole number between ${SensorWearService.MIN_GAP_MINUTES} and ${SensorWearService.MAX_GAP_MINUTES}`
+        });
+        return;
+      }
+
+      const timeZone = await GlucoseService.resolveTimeZone(user_id as string, req.query['tz']);
+
+      if (!timeZone) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_TIMEZONE_ERROR
+        });
+        return;
+      }
+
+      const endDate = resolveDateBound((req.query['endDate'] as string) || new Date().toISOString(), timeZone, true);
+      const startDate = endDate && resolveDateBound(
+        (req.query['startDate'] as string)
+          || new Date(new Date(endDate).getTime() - 14 * 24 * 60 * 60 * 1000).toISOString(),
+        timeZone,
+        false
+      );
+
+      if (!startDate || !endDate || new Date(startDate).getTime() >= new Date(endDate).getTime()) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid start date or end date'
+        });
+        return;
+      }
+
+      if (new Date(endDate).getTime() - new Date(startDate).getTime() > MAX_STATS_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+        res.status(400).json({
+          success: false,
+          error: `Date range cannot exceed ${MAX_STATS_RANGE_DAYS} days`
+        });
+        return;
+      }
+
+      const report = await GlucoseService.getSensorWear(user_id as string, startDate, endDate, gapMinutes, timeZone);
+
+      if (!report) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to analyze sensor wear'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async getForecast(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.query;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id parameter is required'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(user_id as string, req.query['unit']);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const forecast = await GlucoseService.getForecast(user_id as string);
+
+      if (!forecast) {
+        res.status(404).json({
+          success: false,
+          error: 'Not enough recent CGM data to forecast glucose'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: convertForecast(forecast, unit),
+        unit
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  // Server-Sent Events channel that pushes the authenticated user's new readings and alerts as they happen.
+  // The server ends it before the function time limit; the client reconnects with Last-Event-ID to resume
+  static async streamReadings(req: Request, res: Response): Promise<void> {
+    let closeSubscription: (() => Promise<void>) | null = null;
+    let timer: NodeJS.Timeout | null = null;
+
+    const cleanUp = () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      closeSubscription?.().catch(error => console.error('Error closing glucose stream:', error));
+      closeSubscription = null;
+    };
+
+    try {
+      const userId = req.user?.id;
+      const accessToken = getBearerToken(req);
+
+      if (!userId || !accessToken) {
+        res.status(401).json({
+          success: false,
+          error: 'User authentication required'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(userId, req.query['unit']);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      // Event ids are creation times, kept as Postgres wrote them so the last event seen is not replayed
+      const lastEventId = req.headers['last-event-id'];
+      const since = typeof lastEventId === 'string' && !isNaN(new Date(lastEventId).getTime()) ? lastEventId : null;
+
+      // no-transform keeps the compression middleware from buffering the stream
+      res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+      res.flushHeaders();
+      res.write(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+      const send = (event: string, data: unknown, id?: string) => {
+        res.write(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      res.on('close', cleanUp);
+
+      closeSubscription = await GlucoseStreamService.subscribe(userId, accessToken, since, streamEvent => {
+        if (streamEvent.event === 'reading') {
+          send('reading', convertReading(streamEvent.data, unit), streamEvent.data.created_at);
+        } else {
+          send('alert', convertAlert(streamEvent.data, unit), streamEvent.data.created_at);
+        }
+      });
+
+      // The client may have gone while the subscription was being set up
+      if (res.writableEnded || res.destroyed) {
+        cleanUp();
+        return;
+      }
+
+      timer = setTimeout(() => {
+        cleanUp();
+        res.end();
+      }, STREAM_DURATION_MS);
+
+      // Start the client off with the latest known reading
+      const [latest] = await GlucoseService.getReadings(userId, 1);
+      send('ready', {
+        unit,
+        latest: latest ? convertReading(latest, unit) : null
+      });
+    } catch (error) {
+      console.error('Error opening glucose stream:', error);
+      cleanUp();
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error'
+        });
+      } else {
+        res.end();
+      }
+    }
+  }
+
+  static async getGlucoseAnalysis(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.body;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id is required in request body'
+        });
+        return;
+      }
+
+      // Get recent glucose readings for analysis
+      const readings = await GlucoseService.getReadings(user_id, 50);
+      
+      if (readings.length === 0) {
+        res.json({
+          success: true,
+          data: {
+            analysis: 'No glucose data available for analysis. Please add some readings to get personalized insights.'
+          }
+        });
+        return;
+      }
+
+      // Give Claude computed episodes so it does not have to count lows from raw readings
+      const now = new Date();
+      const episodes = await GlucoseService.getEpisodes(
+        user_id,
+        new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000).toISOString(),
+        now.toISOString()
+      );
+
+      const unit = await GlucoseService.getPreferredUnit(user_id);
+      const analysis = await AIService.analyzeGlucosePatterns(readings, unit, episodes);
 
       res.json({
         success: true,
@@ -0,0 +1,378 @@
+import { Request, Response } from 'express';
+import { GlucoseService } from '../services/glucoseService';
+import { InsulinService, NewInsulinDose } from '../services/insulinService';
+import { OnBoardService } from '../services/onBoardService';
+import { parseZonedDate, startOfZonedDay } from '../utils/timezone';
+
+const INVALID_TIMEZONE_ERROR = 'tz must be a valid IANA timezone, e.g. America/Los_Angeles';
+const DEFAULT_TOTALS_DAYS = 14;
+const MAX_TOTALS_DAYS = 366;
+// Allows for clock drift between the device and the server
+const MAX_FUTURE_MINUTES = 5;
+
+export class InsulinController {
+  // Validate dose fields from a request body; partial bodies are allowed for updates
+  private static async parseDoseFields(
+    body: any,
+    userId: string
+  ): Promise<{ fields: Partial<NewInsulinDose>; error?: string }> {
+    const fields: Partial<NewInsulinDose> = {};
+
+    if (body.dose_type !== undefined) {
+      if (!InsulinService.DOSE_TYPES.includes(body.dose_type)) {
+        return { fields, error: `dose_type must be one of ${InsulinService.DOSE_TYPES.join(', ')}` };
+      }
+      fields.dose_type = body.dose_type;
+    }
+
+    if (body.insulin_type !== undefined) {
+      if (!InsulinService.INSULIN_TYPES.includes(body.insulin_type)) {
+        return { fields, error: `insulin_type must be one of ${InsulinService.INSULIN_TYPES.join(', ')}` };
+      }
+      fields.insulin_type = body.insulin_type;
+    }
+
+    if (body.units !== undefined) {
+      if (typeof body.units !== 'number' || !(body.units > 0) || body.units > InsulinService.MAX_UNITS) {
+        return { fields, error: `units must be a number greater than 0 and at most ${InsulinService.MAX_UNITS}` };
+      }
+      fields.units = Math.round(body.units * 100) / 100;
+    }
+
+    if (body.timestamp !== undefined) {
+      const time = typeof body.timestamp === 'string' ? new Date(body.timestamp).getTime() : NaN;
+      if (isNaN(time)) {
+        return { fields, error: 'timestamp must be an ISO 8601 date-time' };
+      }
+      if (time - Date.now() > MAX_FUTURE_MINUTES * 60000) {
+        return { fields, error: 'timestamp cannot be in the future' };
+      }
+      fields.timestamp = new Date(time).toISOString();
+    }
+
+    if (body.food_log_id !== undefined) {
+      if (body.food_log_id !== null && (typeof body.food_log_id !== 'string' || !(await InsulinService.foodLogExists(userId, body.food_log_id)))) {
+        return { fields, error: 'food_log_id must be null or the id of one of your food logs' };
+      }
+      fields.food_log_id = body.food_log_id;
+    }
+
+    if (body.source !== undefined) {
+      if (!InsulinService.SOURCES.includes(body.source)) {
+        return { fields, error: `source must be one of ${InsulinService.SOURCES.join(', ')}` };
+      }
+      fields.source = body.source;
+    }
+
+    if (body.notes !== undefined) {
+      if (typeof body.notes !== 'string') {
+        return { fields, error: 'notes must be a string' };
+      }
+      fields.notes = body.notes;
+    }
+
+    return { fields };
+  }
+
+  static async getDoses(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id, startDate, endDate } = req.query;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id parameter is required'
+        });
+        return;
+      }
+
+      if ((startDate && isNaN(new Date(startDate as string).getTime())) || (endDate && isNaN(new Date(endDate as string).getTime()))) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid start date or end date'
+        });
+        return;
+      }
+
+      const doses = startDate || endDate
+        ? await InsulinService.getDosesByDateRange(
+          user_id as string,
+          (startDate as string) || new Date(0).toISOString(),
+          (endDate as string) || new Date().toISOString()
+        )
+        : await InsulinService.getDoses(user_id as string, parseInt(req.query['limit'] as string) || 100);
+
+      res.json({
+        success: true,
+        data: doses
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async createDose(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.body;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id is required in request body'
+        });
+        return;
+      }
+
+      const { fields, error } = await InsulinController.parseDoseFields(req.body, user_id);
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error
+        });
+        return;
+      }
+
+      if (!fields.dose_type || fields.units === undefined) {
+        res.status(400).json({
+          success: false,
+          error: 'dose_type and units are required'
+        });
+        return;
+      }
+
+      const dose = await InsulinService.createDose({
+        user_id,
+        dose_type: fields.dose_type,
+        // Boluses are rapid-acting and basal injections long-acting unless stated otherwise
+        insulin_type: fields.dose_type === 'bolus' ? 'rapid_acting' : 'long_acting',
+        units: fields.units,
+        timestamp: new Date().toISOString(),
+        food_log_id: null,
+        source: 'manual',
+        ...fields
+      });
+
+      if (!dose) {
+        res.status(400).json({
+          success: false,
+          error: 'Failed to log insulin dose'
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: dose
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async updateDose(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      if (!id) {
+        res.status(400).json({
+          success: false,
+          error: 'Insulin dose ID is required'
+        });
+        return;
+      }
+
+      const existing = await InsulinService.getDoseById(id);
+
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: 'Insulin dose not found or update failed'
+        });
+        return;
+      }
+
+      const { fields, error } = await InsulinController.parseDoseFields(req.body, existing.user_id);
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error
+        });
+        return;
+      }
+
+      const dose = await InsulinService.updateDose(id, fields);
+
+      if (!dose) {
+        res.status(404).json({
+          success: false,
+          error: 'Insulin dose not found or update failed'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: dose
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async deleteDose(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      if (!id) {
+        res.status(400).json({
+          success: false,
+          error: 'Insulin dose ID is required'
+        });
+        return;
+      }
+
+      const success = await InsulinService.deleteDose(id);
+
+      if (!success) {
+        res.status(404).json({
+          success: false,
+          error: 'Insulin dose not found or delete failed'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Insulin dose deleted successfully'
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  // startDate and endDate are local dates (YYYY-MM-DD); both days are included
+  static async getDailyTotals(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.query;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id parameter is required'
+        });
+        return;
+      }
+
+      const timeZone = await GlucoseService.resolveTimeZone(user_id as string, req.query['tz']);
+
+      if (!timeZone) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_TIMEZONE_ERROR
+        });
+        return;
+      }
+
+      const lastDay = req.query['endDate']
+        ? parseZonedDate(req.query['endDate'] as string, timeZone)
+        : startOfZonedDay(new Date(), timeZone);
+      const firstDay = req.query['startDate']
+        ? parseZonedDate(req.query['startDate'] as string, timeZone)
+        : lastDay && startOfZonedDay(lastDay, timeZone, 1 - DEFAULT_TOTALS_DAYS);
+
+      if (!firstDay || !lastDay || firstDay.getTime() > lastDay.getTime()) {
+        res.status(400).json({
+          success: false,
+          error: 'startDate and endDate must be dates (YYYY-MM-DD) with startDate on or before endDate'
+        });
+        return;
+      }
+
+      const endDate = startOfZonedDay(lastDay, timeZone, 1);
+
+      if (endDate.getTime() - firstDay.getTime() > MAX_TOTALS_DAYS * 24 * 60 * 60 * 1000) {
+        res.status(400).json({
+          success: false,
+          error: `Date range cannot exceed ${MAX_TOTALS_DAYS} days`
+        });
+        return;
+      }
+
+      const totals = await InsulinService.getDailyTotals(user_id as string, firstDay, endDate, timeZone);
+
+      if (!totals) {
+        res.status(400).json({
+          success: false,
+          error: 'Failed to calculate insulin totals'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: totals
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async getOnBoard(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.query;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id parameter is required'
+        });
+        return;
+      }
+
+      const hours = req.query['hours'] === undefined ? OnBoardService.DEFAULT_HISTORY_HOURS : Number(req.query['hours']);
+
+      if (!Number.isInteger(hours) || hours < 0 || hours > OnBoardService.MAX_HISTORY_HOURS) {
+        res.status(400).json({
+          success: false,
+          error: `hours must be an integer between 0 and ${OnBoardService.MAX_HISTORY_HOURS}`
+        });
+        return;
+      }
+
+      const onBoard = await OnBoardService.getOnBoard(user_id as string, new Date(), hours);
+
+      if (!onBoard) {
+        res.status(400).json({
+          success: false,
+          error: 'Failed to calculate insulin and carbs on board'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: onBoard
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
@@ -0,0 +1,244 @@
+import { Request, Response } from 'express';
+import { KetoneService, NewKetoneReading } from '../services/ketoneService';
+import { KetoneSampleType } from '../types';
+
+// Allows for clock drift between the device and the server
+const MAX_FUTURE_MINUTES = 5;
+
+export class KetoneController {
+  // Validate ketone fields from a request body; partial bodies are allowed for updates
+  private static parseReadingFields(
+    body: any,
+    existing?: { value: number; sample_type: KetoneSampleType }
+  ): { fields: Partial<NewKetoneReading>; error?: string } {
+    const fields: Partial<NewKetoneReading> = {};
+
+    if (body.sample_type !== undefined) {
+      if (!KetoneService.SAMPLE_TYPES.includes(body.sample_type)) {
+        return { fields, error: `sample_type must be one of ${KetoneService.SAMPLE_TYPES.join(', ')}` };
+      }
+      fields.sample_type = body.sample_type;
+    }
+
+    if (body.value !== undefined) {
+      if (typeof body.value !== 'number' || !(body.value >= 0)) {
+        return { fields, error: 'value must be a number of mmol/L, 0 or more' };
+      }
+      fields.value = Math.round(body.value * 10) / 10;
+    }
+
+    // The range depends on the sample type, which may come from the stored reading
+    const sampleType = fields.sample_type || existing?.sample_type;
+    const value = fields.value ?? existing?.value;
+    if (sampleType && value !== undefined && value > KetoneService.MAX_VALUE[sampleType]) {
+      return { fields, error: `${sampleType} ketones cannot be above ${KetoneService.MAX_VALUE[sampleType]} mmol/L` };
+    }
+
+    if (body.timestamp !== undefined) {
+      const time = typeof body.timestamp === 'string' ? new Date(body.timestamp).getTime() : NaN;
+      if (isNaN(time)) {
+        return { fields, error: 'timestamp must be an ISO 8601 date-time' };
+      }
+      if (time - Date.now() > MAX_FUTURE_MINUTES * 60000) {
+        return { fields, error: 'timestamp cannot be in the future' };
+      }
+      fields.timestamp = new Date(time).toISOString();
+    }
+
+    if (body.notes !== undefined) {
+      if (typeof body.notes !== 'string') {
+        return { fields, error: 'notes must be a string' };
+      }
+      fields.notes = body.notes;
+    }
+
+    return { fields };
+  }
+
+  static async getReadings(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id, startDate, endDate } = req.query;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id parameter is required'
+        });
+        return;
+      }
+
+      if ((startDate && isNaN(new Date(startDate as string).getTime())) || (endDate && isNaN(new Date(endDate as string).getTime()))) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid start date or end date'
+        });
+        return;
+      }
+
+      const readings = startDate || endDate
+        ? await KetoneService.getReadingsByDateRange(
+          user_id as string,
+          (startDate as string) || new Date(0).toISOString(),
+          (endDate as string) || new Date().toISOString()
+        )
+        : await KetoneService.getReadings(user_id as string, parseInt(req.query['limit'] as string) || 100);
+
+      res.json({
+        success: true,
+        data: readings.map(reading => KetoneService.withLevel(reading)),
+        unit: 'mmol/L'
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async createReading(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.body;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id is required in request body'
+        });
+        return;
+      }
+
+      const { fields, error } = KetoneController.parseReadingFields(req.body);
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error
+        });
+        return;
+      }
+
+      if (!fields.sample_type || fields.value === undefined) {
+        res.status(400).json({
+          success: false,
+          error: 'sample_type and value are required'
+        });
+        return;
+      }
+
+      const reading = await KetoneService.createReading({
+        user_id,
+        value: fields.value,
+        sample_type: fields.sample_type,
+        timestamp: new Date().toISOString(),
+        ...fields
+      });
+
+      if (!reading) {
+        res.status(400).json({
+          success: false,
+          error: 'Failed to log ketone reading'
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: KetoneService.withLevel(reading),
+        unit: 'mmol/L'
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async updateReading(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      if (!id) {
+        res.status(400).json({
+          success: false,
+          error: 'Ketone reading ID is required'
+        });
+        return;
+      }
+
+      const existing = await KetoneService.getReadingById(id);
+
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          error: 'Ketone reading not found or update failed'
+        });
+        return;
+      }
+
+      const { fields, error } = KetoneController.parseReadingFields(req.body, existing);
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error
+        });
+        return;
+      }
+
+      const reading = await KetoneService.updateReading(id, fields);
+
+      if (!reading) {
+        res.status(404).json({
+          success: false,
+          error: 'Ketone reading not found or update failed'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: KetoneService.withLevel(reading),
+        unit: 'mmol/L'
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async deleteReading(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      if (!id) {
+        res.status(400).json({
+          success: false,
+          error: 'Ketone reading ID is required'
+        });
+        return;
+      }
+
+      const success = await KetoneService.deleteReading(id);
+
+      if (!success) {
+        res.status(404).json({
+          success: false,
+          error: 'Ketone reading not found or delete failed'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Ketone reading deleted successfully'
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
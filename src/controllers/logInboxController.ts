@@ -0,0 +1,232 @@
+import { Request, Response } from 'express';
+import { GlucoseService } from '../services/glucoseService';
+import { LogInboxService } from '../services/logInboxService';
+import { GlucoseUnit, PendingLogItem, PendingLogItemStatus } from '../types';
+import { convertPendingLogItem } from '../utils/glucoseUnits';
+
+const INVALID_UNIT_ERROR = 'unit must be either mg/dL or mmol/L';
+
+export class LogInboxController {
+  // The authenticated user's pending item with its unit; sends the error response itself
+  private static async loadPendingItem(req: Request, res: Response): Promise<{ item: PendingLogItem; unit: GlucoseUnit } | null> {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'User authentication required'
+      });
+      return null;
+    }
+
+    const { id } = req.params;
+    const item = id ? await LogInboxService.getItemById(id) : null;
+
+    if (!item || item.user_id !== userId) {
+      res.status(404).json({
+        success: false,
+        error: 'Log item not found'
+      });
+      return null;
+    }
+
+    if (item.status !== 'pending') {
+      res.status(409).json({
+        success: false,
+        error: `Log item has already been ${item.status}`
+      });
+      return null;
+    }
+
+    const unit = await GlucoseService.resolveUnit(userId, req.body.unit);
+
+    if (!unit) {
+      res.status(400).json({
+        success: false,
+        error: INVALID_UNIT_ERROR
+      });
+      return null;
+    }
+
+    return { item, unit };
+  }
+
+  // Applies entry fields from the request body; sends the error response itself
+  private static async applyEdits(req: Request, res: Response, item: PendingLogItem, unit: GlucoseUnit): Promise<PendingLogItem | null> {
+    const { unit: _unit, ...fields } = req.body;
+
+    if (Object.keys(fields).length === 0) {
+      return item;
+    }
+
+    const { data, error } = LogInboxService.parseEntry(item.item_type, fields, unit, item.data);
+
+    if (error || !data) {
+      res.status(400).json({
+        success: false,
+        error: error || 'Invalid log item'
+      });
+      return null;
+    }
+
+    const updated = await LogInboxService.updateItem(item.id, { data });
+
+    if (!updated) {
+      res.status(400).json({
+        success: false,
+        error: 'Failed to update log item'
+      });
+      return null;
+    }
+
+    return updated;
+  }
+
+  static async getItems(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'User authentication required'
+        });
+        return;
+      }
+
+      const status = (req.query['status'] as string) || 'pending';
+
+      if (status !== 'all' && !LogInboxService.STATUSES.includes(status as PendingLogItemStatus)) {
+        res.status(400).json({
+          success: false,
+          error: `status must be all or one of ${LogInboxService.STATUSES.join(', ')}`
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(userId, req.query['unit']);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const items = await LogInboxService.getItems(
+        userId,
+        status === 'all' ? null : status as PendingLogItemStatus,
+        parseInt(req.query['limit'] as string) || 50
+      );
+
+      res.json({
+        success: true,
+        data: items.map(item => convertPendingLogItem(item, unit)),
+        unit
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  // Edit the entry of a pending item; fields are those of its item_type
+  static async updateItem(req: Request, res: Response): Promise<void> {
+    try {
+      const loaded = await LogInboxController.loadPendingItem(req, res);
+
+      if (!loaded) {
+        return;
+      }
+
+      const updated = await LogInboxController.applyEdits(req, res, loaded.item, loaded.unit);
+
+      if (!updated) {
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: convertPendingLogItem(updated, loaded.unit),
+        unit: loaded.unit
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  // Write the entry to its table, applying any edits in the body first
+  static async confirmItem(req: Request, res: Response): Promise<void> {
+    try {
+      const loaded = await LogInboxController.loadPendingItem(req, res);
+
+      if (!loaded) {
+        return;
+      }
+
+      const edited = await LogInboxController.applyEdits(req, res, loaded.item, loaded.unit);
+
+      if (!edited) {
+        return;
+      }
+
+      const confirmed = await LogInboxService.confirmItem(edited);
+
+      if (!confirmed) {
+        res.status(400).json({
+          success: false,
+          error: 'Failed to confirm log item'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: convertPendingLogItem(confirmed, loaded.unit),
+        unit: loaded.unit
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async rejectItem(req: Request, res: Response): Promise<void> {
+    try {
+      const loaded = await LogInboxController.loadPendingItem(req, res);
+
+      if (!loaded) {
+        return;
+      }
+
+      const rejected = await LogInboxService.rejectItem(loaded.item);
+
+      if (!rejected) {
+        res.status(400).json({
+          success: false,
+          error: 'Failed to reject log item'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: convertPendingLogItem(rejected, loaded.unit),
+        unit: loaded.unit
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
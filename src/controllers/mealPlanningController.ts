@@ -1,11 +1,17 @@
 import { Request, Response } from 'express';
 import { MealPlanningService } from '../services/mealPlanningService';
 import { AIService } from '../services/aiService';
+import { GlucoseService } from '../services/glucoseService';
+import { GlucoseMetricsService } from '../services/glucoseMetricsService';
+import { OnBoardService } from '../services/onBoardService';
+import { DosingService } from '../services/dosingService';
+import { DailyMeal } from '../types';
+import { convertRange, DEFAULT_GLUCOSE_UNIT, fromMgdl, parseGlucoseUnit } from '../utils/glucoseUnits';
+import { formatZonedDate, parseTimeZone, parseZonedDate } from '../utils/timezone';
 
 export class MealPlanningController {
   static async getMealPlan(req: Request, res: Response): Promise<void> {
     try {
-      const { date } = req.params;
       const { user_id } = req.query;
       
       if (!user_id) {
@@ -16,10 +22,23 @@ export class MealPlanningController {
         return;
       }
 
-      if (!date) {
+      const timeZone = await GlucoseService.resolveTimeZone(user_id as string, req.query['tz']);
+
+      if (!timeZone) {
         res.status(400).json({
           success: false,
-          error: 'Date parameter is required'
+          error: 'tz must be a valid IANA timezone, e.g. America/Los_Angeles'
+        });
+        return;
+      }
+
+      // Defaults to the user's current local date
+      const date = (req.query['date'] as string) || formatZonedDate(new Date(), timeZone);
+
+      if (!parseZonedDate(date, timeZone)) {
+        res.status(400).json({
+          success: false,
+          error: 'date must be in YYYY-MM-DD format'
         });
         return;
       }
@@ -168,6 +187,12 @@ export class MealPlanningController {
         return;
       }
 
+      // Target range is stored in mg/dL and returned in the user's unit
+      const unit = preferences.glucoseUnit || DEFAULT_GLUCOSE_UNIT;
+      if (preferences.targetGlucoseRange) {
+        preferences.targetGlucoseRange = convertRange(preferences.targetGlucoseRange, value => fromMgdl(value, unit));
+      }
+
       res.json({
         success: true,
         data: preferences
@@ -192,7 +217,79 @@ export class MealPlanningController {
         return;
       }
 
-      const preferences = await MealPlanningService.saveUserPreferences(preferencesData);
+      if (preferencesData.glucoseUnit !== undefined) {
+        const glucoseUnit = parseGlucoseUnit(preferencesData.glucoseUnit);
+
+        if (!glucoseUnit) {
+          res.status(400).json({
+            success: false,
+            error: 'glucoseUnit must be either mg/dL or mmol/L'
+          });
+          return;
+        }
+
+        preferencesData.glucoseUnit = glucoseUnit;
+      }
+
+      if (preferencesData.timezone !== undefined) {
+        const timezone = parseTimeZone(preferencesData.timezone);
+
+        if (!timezone) {
+          res.status(400).json({
+            success: false,
+            error: 'timezone must be a valid IANA timezone, e.g. America/Los_Angeles'
+          });
+          return;
+        }
+
+        preferencesData.timezone = timezone;
+      }
+
+      if (preferencesData.chatLogProposals !== undefined && typeof preferencesData.chatLogProposals !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          error: 'chatLogProposals must be a boolean'
+        });
+        return;
+      }
+
+      const onBoardError = OnBoardService.validatePreferences(preferencesData);
+
+      if (onBoardError) {
+        res.status(400).json({
+          success: false,
+          error: onBoardError
+        });
+        return;
+      }
+
+      // The range is sent in the request's unit: an explicit unit, a unit being saved with it, else the stored preference
+      const { unit: unitOverride, ...fields } = preferencesData;
+      const unit = await GlucoseService.resolveUnit(fields.user_id, unitOverride ?? fields.glucoseUnit);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: 'unit must be either mg/dL or mmol/L'
+        });
+        return;
+      }
+
+      if (fields.targetGlucoseRange !== undefined) {
+        const { range, error } = GlucoseMetricsService.parseTargetRange(fields.targetGlucoseRange, unit);
+
+        if (!range) {
+          res.status(400).json({
+            success: false,
+            error
+          });
+          return;
+        }
+
+        fields.targetGlucoseRange = range;
+      }
+
+      const preferences = await MealPlanningService.saveUserPreferences(fields);
 
       if (!preferences) {
         res.status(400).json({
@@ -202,6 +299,10 @@ export class MealPlanningController {
         return;
       }
 
+      if (preferences.targetGlucoseRange) {
+        preferences.targetGlucoseRange = convertRange(preferences.targetGlucoseRange, value => fromMgdl(value, unit));
+      }
+
       res.status(201).json({
         success: true,
         data: preferences
@@ -335,7 +436,6 @@ export class MealPlanningController {
           })),
           totalCarbs: result.recipes[0]?.nutritionInfo.carbs || 30,
           totalCalories: result.recipes[0]?.nutritionInfo.calories || 250,
-          recommendedInsulin: Math.round(((result.recipes[0]?.nutritionInfo.carbs || 30) / 15)),
           preBolusTime: 15,
           confidence: 0.92,
           reasoning: [
@@ -360,7 +460,6 @@ export class MealPlanningController {
           })),
           totalCarbs: result.recipes[1]?.nutritionInfo.carbs || 45,
           totalCalories: result.recipes[1]?.nutritionInfo.calories || 400,
-          recommendedInsulin: Math.round(((result.recipes[1]?.nutritionInfo.carbs || 45) / 15)),
           preBolusTime: 15,
           confidence: 0.9,
           reasoning: [
@@ -385,7 +484,6 @@ export class MealPlanningController {
           })),
           totalCarbs: result.recipes[2]?.nutritionInfo.carbs || 40,
           totalCalories: result.recipes[2]?.nutritionInfo.calories || 450,
-          recommendedInsulin: Math.round(((result.recipes[2]?.nutritionInfo.carbs || 40) / 15)),
           preBolusTime: 15,
           confidence: 0.91,
           reasoning: [
@@ -410,7 +508,6 @@ export class MealPlanningController {
           })),
           totalCarbs: result.recipes[3]?.nutritionInfo.carbs || 15,
           totalCalories: result.recipes[3]?.nutritionInfo.calories || 150,
-          recommendedInsulin: Math.round(((result.recipes[3]?.nutritionInfo.carbs || 15) / 15)),
           preBolusTime: 0,
           confidence: 0.85,
           reasoning: [
@@ -420,15 +517,22 @@ export class MealPlanningController {
         }
       ];
 
-      const totalCarbs = meals.reduce((sum, meal) => sum + meal.totalCarbs, 0);
-      const totalCalories = meals.reduce((sum, meal) => sum + meal.totalCalories, 0);
+      // Doses use the carb ratio in effect at each meal time; without a dosing profile none are suggested
+      const dosingProfile = await DosingService.getProfile(user_id);
+      const plannedMeals: DailyMeal[] = meals.map(meal => dosingProfile
+        ? { ...meal, recommendedInsulin: DosingService.carbDose(dosingProfile, meal.totalCarbs, DosingService.timeToMinute(meal.time)) }
+        : { ...meal, reasoning: [...meal.reasoning, 'Save your dosing profile to see a recommended insulin dose'] }
+      );
+
+      const totalCarbs = plannedMeals.reduce((sum, meal) => sum + meal.totalCarbs, 0);
+      const totalCalories = plannedMeals.reduce((sum, meal) => sum + meal.totalCalories, 0);
 
       // Always return a structured meal plan for the frontend
       const savedMealPlan = {
         id: Date.now().toString(),
         user_id,
         date: targetDate,
-        meals,
+        meals: plannedMeals,
         estimatedTimeInRange: 85,
         totalCarbs,
         totalCalories,
@@ -0,0 +1,345 @@
+import { Request, Response } from 'express';
+import { GlucoseService } from '../services/glucoseService';
+import { SickDayService } from '../services/sickDayService';
+import { GlucoseUnit, SickDaySymptom } from '../types';
+import { convertSickDayStatus } from '../utils/glucoseUnits';
+
+const INVALID_UNIT_ERROR = 'unit must be either mg/dL or mmol/L';
+// Allows for clock drift between the device and the server
+const MAX_FUTURE_MINUTES = 5;
+
+const validateSymptoms = (symptoms: unknown): string | null =>
+  Array.isArray(symptoms) && symptoms.every(symptom => SickDayService.SYMPTOMS.includes(symptom))
+    ? null
+    : `symptoms must be an array of ${SickDayService.SYMPTOMS.join(', ')}`;
+
+export class SickDayController {
+  // Every sick-day endpoint answers with the current status so the checklist stays in sync
+  private static async sendStatus(res: Response, userId: string, unit: GlucoseUnit, statusCode: number = 200): Promise<void> {
+    const status = await SickDayService.getStatus(userId, unit);
+
+    if (!status) {
+      res.status(400).json({
+        success: false,
+        error: 'Failed to load sick-day status'
+      });
+      return;
+    }
+
+    res.status(statusCode).json({
+      success: true,
+      data: convertSickDayStatus(status, unit),
+      unit
+    });
+  }
+
+  static async getStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.query;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id parameter is required'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(user_id as string, req.query['unit']);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      await SickDayController.sendStatus(res, user_id as string, unit);
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.query;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id parameter is required'
+        });
+        return;
+      }
+
+      const sessions = await SickDayService.getSessions(user_id as string, parseInt(req.query['limit'] as string) || 20);
+
+      res.json({
+        success: true,
+        data: sessions
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async startSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id, symptoms = [], notes } = req.body;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id is required in request body'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(user_id, req.body.unit);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const symptomsError = validateSymptoms(symptoms);
+
+      if (symptomsError || (notes !== undefined && typeof notes !== 'string')) {
+        res.status(400).json({
+          success: false,
+          error: symptomsError || 'notes must be a string'
+        });
+        return;
+      }
+
+      if (await SickDayService.isActive(user_id)) {
+        res.status(409).json({
+          success: false,
+          error: 'Sick-day mode is already on'
+        });
+        return;
+      }
+
+      const session = await SickDayService.createSession({
+        user_id,
+        started_at: new Date().toISOString(),
+        ended_at: null,
+        symptoms: [...new Set(symptoms as SickDaySymptom[])],
+        fluid_log: [],
+        ...(notes !== undefined ? { notes } : {})
+      });
+
+      if (!session) {
+        res.status(400).json({
+          success: false,
+          error: 'Failed to start sick-day mode'
+        });
+        return;
+      }
+
+      await SickDayController.sendStatus(res, user_id, unit, 201);
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  // Replaces the symptom list and notes of the active session
+  static async updateSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id, symptoms, notes } = req.body;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id is required in request body'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(user_id, req.body.unit);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const symptomsError = symptoms !== undefined ? validateSymptoms(symptoms) : null;
+
+      if (symptomsError || (notes !== undefined && typeof notes !== 'string')) {
+        res.status(400).json({
+          success: false,
+          error: symptomsError || 'notes must be a string'
+        });
+        return;
+      }
+
+      const session = await SickDayService.getActiveSession(user_id);
+
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Sick-day mode is not on'
+        });
+        return;
+      }
+
+      const updated = await SickDayService.updateSession(session.id, {
+        ...(symptoms !== undefined ? { symptoms: [...new Set(symptoms as SickDaySymptom[])] } : {}),
+        ...(notes !== undefined ? { notes } : {})
+      });
+
+      if (!updated) {
+        res.status(400).json({
+          success: false,
+          error: 'Failed to update sick-day mode'
+        });
+        return;
+      }
+
+      await SickDayController.sendStatus(res, user_id, unit);
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async logFluids(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id, ml, timestamp } = req.body;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id is required in request body'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(user_id, req.body.unit);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      if (typeof ml !== 'number' || !(ml > 0) || ml > SickDayService.MAX_FLUID_ML) {
+        res.status(400).json({
+          success: false,
+          error: `ml must be a number greater than 0 and at most ${SickDayService.MAX_FLUID_ML}`
+        });
+        return;
+      }
+
+      const time = timestamp === undefined ? Date.now() : typeof timestamp === 'string' ? new Date(timestamp).getTime() : NaN;
+
+      if (isNaN(time) || time - Date.now() > MAX_FUTURE_MINUTES * 60000) {
+        res.status(400).json({
+          success: false,
+          error: 'timestamp must be an ISO 8601 date-time that is not in the future'
+        });
+        return;
+      }
+
+      const session = await SickDayService.getActiveSession(user_id);
+
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Sick-day mode is not on'
+        });
+        return;
+      }
+
+      const updated = await SickDayService.updateSession(session.id, {
+        fluid_log: [...(session.fluid_log || []), { timestamp: new Date(time).toISOString(), ml: Math.round(ml) }]
+      });
+
+      if (!updated) {
+        res.status(400).json({
+          success: false,
+          error: 'Failed to log fluids'
+        });
+        return;
+      }
+
+      await SickDayController.sendStatus(res, user_id, unit, 201);
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+
+  static async endSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.body;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id is required in request body'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(user_id, req.body.unit);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const session = await SickDayService.getActiveSession(user_id);
+
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Sick-day mode is not on'
+        });
+        return;
+      }
+
+      const ended = await SickDayService.updateSession(session.id, { ended_at: new Date().toISOString() });
+
+      if (!ended) {
+        res.status(400).json({
+          success: false,
+          error: 'Failed to end sick-day mode'
+        });
+        return;
+      }
+
+      await SickDayController.sendStatus(res, user_id, unit);
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import { GlucoseService } from '../services/glucoseService';
+import { TimelineService } from '../services/timelineService';
+import { TimelineEventType } from '../types';
+import { convertReading } from '../utils/glucoseUnits';
+import { resolveDateBound, startOfZonedDay } from '../utils/timezone';
+
+const INVALID_UNIT_ERROR = 'unit must be either mg/dL or mmol/L';
+const INVALID_TIMEZONE_ERROR = 'tz must be a valid IANA timezone, e.g. America/Los_Angeles';
+
+export class TimelineController {
+  // Defaults to the current local day; pass nextCursor back as cursor for the following page
+  static async getTimeline(req: Request, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.query;
+
+      if (!user_id) {
+        res.status(400).json({
+          success: false,
+          error: 'user_id parameter is required'
+        });
+        return;
+      }
+
+      const unit = await GlucoseService.resolveUnit(user_id as string, req.query['unit']);
+
+      if (!unit) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_UNIT_ERROR
+        });
+        return;
+      }
+
+      const timeZone = await GlucoseService.resolveTimeZone(user_id as string, req.query['tz']);
+
+      if (!timeZone) {
+        res.status(400).json({
+          success: false,
+          error: INVALID_TIMEZONE_ERROR
+        });
+        return;
+      }
+
+      const today = startOfZonedDay(new Date(), timeZone);
+      const startDate = resolveDateBound((req.query['startDate'] as string) || today.toISOString(), timeZone, false);
+      const endDate = resolveDateBound(
+        (req.query['endDate'] as string) || startOfZonedDay(today, timeZone, 1).toISOString(),
+        timeZone,
+        true
+      );
+
+      if (!startDate || !endDate || new Date(startDate).getTime() >= new Date(endDate).getTime()) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid start date or end date'
+        });
+        return;
+      }
+
+      const types = req.query['types']
+        ? String(req.query['types']).split(',').map(type => type.trim()).filter(Boolean)
+        : TimelineService.EVENT_TYPES;
+      const invalidType = types.find(type => !TimelineService.EVENT_TYPES.includes(type as TimelineEventType));
+
+      if (invalidType || types.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: `types must be a comma-separated list of ${TimelineService.EVENT_TYPES.join(', ')}`
+        });
+        return;
+      }
+
+      const limit = req.query['limit'] === undefined ? TimelineService.DEFAULT_LIMIT : Number(req.query['limit']);
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > TimelineService.MAX_LIMIT) {
+        res.status(400).json({
+          success: false,
+          error: `limit must be an integer between 1 and ${TimelineService.MAX_LIMIT}`
+        });
+        return;
+      }
+
+      const cursor = req.query['cursor'] ? TimelineService.decodeCursor(String(req.query['cursor'])) : undefined;
+
+      if (cursor === null) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid cursor'
+        });
+        return;
+      }
+
+      const timeline = await TimelineService.getTimeline(user_id as string, {
+        startDate,
+        endDate,
+        // Requested types in their timeline order, without duplicates
+        types: TimelineService.EVENT_TYPES.filter(type => types.includes(type)),
+        limit,
+        timeZone,
+        ...(cursor ? { cursor } : {})
+      });
+
+      if (!timeline) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to load timeline'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          ...timeline,
+          events: timeline.events.map(event => event.type === 'glucose'
+            ? { ...event, data: convertReading(event.data, unit) }
+            : event
+          )
+        },
+        unit,
+        timeZone
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  }
+}
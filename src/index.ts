@@ -17,6 +17,14 @@ import foodAnalysisRoutes from './routes/foodAnalysis';
 import dexcomRoutes from './routes/dexcom';
 import paymentRoutes from './routes/payment';
 import trialRoutes from './routes/trial';
+import alertRoutes from './routes/alerts';
+import insulinRoutes from './routes/insulin';
+import dosingRoutes from './routes/dosing';
+import activityRoutes from './routes/activities';
+import timelineRoutes from './routes/timeline';
+import ketoneRoutes from './routes/ketones';
+import sickDayRoutes from './routes/sickDay';
+import logInboxRoutes from './routes/logInbox';
 
 // Import middleware
 // Note: authenticateToken is used in route files
@@ -126,6 +134,14 @@ app.use('/api/food-analysis', foodAnalysisRoutes);
 app.use('/api/dexcom', dexcomRoutes);
 app.use('/api/payment', paymentRoutes);
 app.use('/api/trial', trialRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/insulin', insulinRoutes);
+app.use('/api/dosing', dosingRoutes);
+app.use('/api/activities', activityRoutes);
+app.use('/api/timeline', timelineRoutes);
+app.use('/api/ketones', ketoneRoutes);
+app.use('/api/sick-day', sickDayRoutes);
+app.use('/api/log-inbox', logInboxRoutes);
 
 // Global error handling middleware
 app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { timingSafeEqual } from 'crypto';
 
 // Extend the Request interface to include user
 declare global {
@@ -13,10 +14,12 @@ declare global {
   }
 }
 
+// The token from an `Authorization: Bearer <token>` header
+export const getBearerToken = (req: Request): string | undefined => req.headers.authorization?.split(' ')[1];
+
 export const authenticateToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+    const token = getBearerToken(req);
 
     if (!token) {
       console.log('❌ No token provided in Authorization header');
@@ -75,4 +78,28 @@ export const authenticateToken = async (req: Request, res: Response, next: NextF
       error: 'Authentication failed'
     });
   }
-}; 
\ No newline at end of file
+}; 
+
+// Scheduled jobs; Vercel Cron sends `Authorization: Bearer <CRON_SECRET>` when the variable is set
+export const authenticateCron = (req: Request, res: Response, next: NextFunction): void => {
+  const secret = process.env['CRON_SECRET'];
+  const token = getBearerToken(req);
+  // timingSafeEqual throws unless both buffers have the same byte length
+  const tokenBytes = Buffer.from(token || '');
+  const secretBytes = Buffer.from(secret || '');
+
+  if (
+    !secret
+    || !token
+    || tokenBytes.byteLength !== secretBytes.byteLength
+    || !timingSafeEqual(tokenBytes, secretBytes)
+  ) {
+    res.status(401).json({
+      success: false,
+      error: 'Invalid cron secret'
+    });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { ActivityController } from '../controllers/activityController';
+
+const router = Router();
+
+// GET /api/activities - Get activities (latest, or within startDate/endDate)
+router.get('/', ActivityController.getActivities);
+
+// POST /api/activities - Log an activity
+router.post('/', ActivityController.createActivity);
+
+// GET /api/activities/impact - Get glucose change during and after activities, by activity type
+router.get('/impact', ActivityController.getImpact);
+
+// PUT /api/activities/:id - Update an activity
+router.put('/:id', ActivityController.updateActivity);
+
+// DELETE /api/activities/:id - Delete an activity
+router.delete('/:id', ActivityController.deleteActivity);
+
+export default router;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { AlertController } from '../controllers/alertController';
+import { authenticateCron } from '../middleware/auth';
+
+const router = Router();
+
+// GET /api/alerts - Get alert history
+router.get('/', AlertController.getAlertHistory);
+
+// GET /api/alerts/no-data/check - Fire no_data alerts for stalled CGM data (Vercel Cron, every 5 minutes)
+router.get('/no-data/check', authenticateCron, AlertController.checkNoData);
+
+// GET /api/alerts/rules - Get a user's alert rules
+router.get('/rules', AlertController.getRules);
+
+// POST /api/alerts/rules - Create an alert rule
+router.post('/rules', AlertController.createRule);
+
+// PUT /api/alerts/rules/:id - Update an alert rule
+router.put('/rules/:id', AlertController.updateRule);
+
+// DELETE /api/alerts/rules/:id - Delete an alert rule
+router.delete('/rules/:id', AlertController.deleteRule);
+
+export default router;
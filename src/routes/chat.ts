@@ -1,15 +1,31 @@
 import { Router } from 'express';
 import { ChatController } from '../controllers/chatController';
+import { authenticateToken } from '../middleware/auth';
 
 const router = Router();
 
 // POST /api/chat/analyze - Analyze user message with AI
-router.post('/analyze', ChatController.analyzeMessage);
+router.post('/analyze', authenticateToken, ChatController.analyzeMessage);
+
+// POST /api/chat/analyze/stream - Analyze user message with AI, streaming the response as Server-Sent Events
+router.post('/analyze/stream', authenticateToken, ChatController.streamMessage);
 
 // GET /api/chat/conversations - Get chat conversations
 router.get('/conversations', ChatController.getConversations);
 
+// GET /api/chat/threads - Get chat threads (archived=true for archived ones)
+router.get('/threads', authenticateToken, ChatController.getThreads);
+
+// POST /api/chat/threads - Start a chat thread
+router.post('/threads', authenticateToken, ChatController.createThread);
+
+// GET /api/chat/threads/:id/messages - Get the messages in a chat thread
+router.get('/threads/:id/messages', authenticateToken, ChatController.getThreadMessages);
+
+// PUT /api/chat/threads/:id - Rename, archive or unarchive a chat thread
+router.put('/threads/:id', authenticateToken, ChatController.updateThread);
+
 // POST /api/chat/log - Log conversation
-router.post('/log', ChatController.logConversation);
+router.post('/log', authenticateToken, ChatController.logConversation);
 
 export default router; 
\ No newline at end of file
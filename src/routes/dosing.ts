@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { DosingController } from '../controllers/dosingController';
+
+const router = Router();
+
+// GET /api/dosing/profile - Get a user's carb ratios, correction factors, targets and max bolus
+router.get('/profile', DosingController.getProfile);
+
+// PUT /api/dosing/profile - Create or replace a user's dosing profile
+router.put('/profile', DosingController.saveProfile);
+
+// POST /api/dosing/bolus - Calculate a bolus from carbs, glucose, trend and insulin on board
+router.post('/bolus', DosingController.calculateBolus);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { GlucoseController } from '../controllers/glucoseController';
+import { authenticateToken } from '../middleware/auth';
 
 const router = Router();
 
@@ -9,6 +10,15 @@ router.get('/', GlucoseController.getReadings);
 // POST /api/glucose - Add new glucose reading
 router.post('/', GlucoseController.addReading);
 
+// POST /api/glucose/import - Import history from a Dexcom Clarity or LibreView CSV export
+router.post('/import', GlucoseController.importReadings);
+
+// POST /api/glucose/reconcile - Merge duplicate readings in stored history (dry run by default)
+router.post('/reconcile', GlucoseController.reconcileReadings);
+
+// GET /api/glucose/stream - Real-time readings and alerts over Server-Sent Events
+router.get('/stream', authenticateToken, GlucoseController.streamReadings);
+
 // GET /api/glucose/range - Get readings by date range
 router.get('/range', GlucoseController.getReadingsByDateRange);
 
@@ -21,6 +31,21 @@ router.delete('/:id', GlucoseController.deleteReading);
 // GET /api/glucose/stats - Get glucose statistics
 router.get('/stats', GlucoseController.getStats);
 
+// GET /api/glucose/stats/tags - Get glucose statistics by context tag and meal type
+router.get('/stats/tags', GlucoseController.getTagStats);
+
+// GET /api/glucose/agp - Get ambulatory glucose profile (percentile curves over a modal day)
+router.get('/agp', GlucoseController.getAmbulatoryGlucoseProfile);
+
+// GET /api/glucose/episodes - Get detected hypoglycemia and hyperglycemia episodes
+router.get('/episodes', GlucoseController.getEpisodes);
+
+// GET /api/glucose/sensor-wear - Get CGM wear report (data gaps, sensor sessions, insufficient days)
+router.get('/sensor-wear', GlucoseController.getSensorWear);
+
+// GET /api/glucose/forecast - Get short-term glucose forecast from recent CGM readings
+router.get('/forecast', GlucoseController.getForecast);
+
 // POST /api/glucose/analysis - Get AI analysis of glucose data
 router.post('/analysis', GlucoseController.getGlucoseAnalysis);
 
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { InsulinController } from '../controllers/insulinController';
+
+const router = Router();
+
+// GET /api/insulin - Get insulin doses (latest, or within startDate/endDate)
+router.get('/', InsulinController.getDoses);
+
+// POST /api/insulin - Log an insulin dose
+router.post('/', InsulinController.createDose);
+
+// GET /api/insulin/daily-totals - Get bolus, basal and total units per local day
+router.get('/daily-totals', InsulinController.getDailyTotals);
+
+// GET /api/insulin/on-board - Get current insulin and carbs on board with a time series
+router.get('/on-board', InsulinController.getOnBoard);
+
+// PUT /api/insulin/:id - Update an insulin dose
+router.put('/:id', InsulinController.updateDose);
+
+// DELETE /api/insulin/:id - Delete an insulin dose
+router.delete('/:id', InsulinController.deleteDose);
+
+export default router;
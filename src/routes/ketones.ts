@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { KetoneController } from '../controllers/ketoneController';
+
+const router = Router();
+
+// GET /api/ketones - Get ketone readings (latest, or within startDate/endDate)
+router.get('/', KetoneController.getReadings);
+
+// POST /api/ketones - Log a blood or urine ketone reading
+router.post('/', KetoneController.createReading);
+
+// PUT /api/ketones/:id - Update a ketone reading
+router.put('/:id', KetoneController.updateReading);
+
+// DELETE /api/ketones/:id - Delete a ketone reading
+router.delete('/:id', KetoneController.deleteReading);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { LogInboxController } from '../controllers/logInboxController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+// GET /api/log-inbox - Get entries picked out of chat messages (status=pending by default, or confirmed, rejected, all)
+router.get('/', authenticateToken, LogInboxController.getItems);
+
+// PUT /api/log-inbox/:id - Edit a pending entry
+router.put('/:id', authenticateToken, LogInboxController.updateItem);
+
+// POST /api/log-inbox/:id/confirm - Log a pending entry, with optional edits
+router.post('/:id/confirm', authenticateToken, LogInboxController.confirmItem);
+
+// POST /api/log-inbox/:id/reject - Discard a pending entry
+router.post('/:id/reject', authenticateToken, LogInboxController.rejectItem);
+
+export default router;
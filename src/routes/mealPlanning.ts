@@ -3,7 +3,7 @@ import { MealPlanningController } from '../controllers/mealPlanningController';
 
 const router = Router();
 
-// GET /api/meal-planning - Get user's meal plan for a specific date
+// GET /api/meal-planning - Get user's meal plan for a date (defaults to today in the user's timezone)
 router.get('/', MealPlanningController.getMealPlan);
 
 // POST /api/meal-planning - Create a new meal plan
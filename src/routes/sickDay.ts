@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { SickDayController } from '../controllers/sickDayController';
+
+const router = Router();
+
+// GET /api/sick-day - Get sick-day mode status, checklist and escalation criteria
+router.get('/', SickDayController.getStatus);
+
+// PUT /api/sick-day - Update symptoms and notes for the active sick day
+router.put('/', SickDayController.updateSession);
+
+// GET /api/sick-day/sessions - Get past and current sick days
+router.get('/sessions', SickDayController.getSessions);
+
+// POST /api/sick-day/start - Turn sick-day mode on
+router.post('/start', SickDayController.startSession);
+
+// POST /api/sick-day/fluids - Log fluids for the hydration checklist
+router.post('/fluids', SickDayController.logFluids);
+
+// POST /api/sick-day/end - Turn sick-day mode off
+router.post('/end', SickDayController.endSession);
+
+export default router;
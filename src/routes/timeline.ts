@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { TimelineController } from '../controllers/timelineController';
+
+const router = Router();
+
+// GET /api/timeline - Get glucose, insulin, food, planned meals, activities and chats as one time-ordered stream
+router.get('/', TimelineController.getTimeline);
+
+export default router;
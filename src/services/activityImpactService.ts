@@ -0,0 +1,133 @@
+import {
+  ActivityImpact,
+  ActivityImpactReport,
+  ActivityLog,
+  ActivityType,
+  ActivityTypeImpact,
+  GlucoseReading,
+  GlucoseThresholds
+} from '../types';
+
+export class ActivityImpactService {
+  // How long after an activity ends its effect on glucose is followed
+  static readonly FOLLOW_UP_HOURS = 24;
+  // A reading this close to a point in time stands in for the glucose at that time
+  static readonly MATCH_WINDOW_MINUTES = 15;
+
+  static analyze(
+    activities: ActivityLog[],
+    readings: GlucoseReading[],
+    thresholds: GlucoseThresholds,
+    startDate: string,
+    endDate: string
+  ): ActivityImpactReport {
+    const sorted = readings
+      .map(reading => ({ time: new Date(reading.timestamp).getTime(), value: reading.value }))
+      .filter(point => !isNaN(point.time))
+      .sort((a, b) => a.time - b.time);
+
+    const impacts = [...activities]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .map(activity => this.analyzeActivity(activity, sorted, thresholds));
+
+    const types = [...new Set(impacts.map(impact => impact.activityType))];
+
+    return {
+      startDate,
+      endDate,
+      thresholds,
+      byType: types.map(type => this.summarizeType(type, impacts.filter(impact => impact.activityType === type))),
+      activities: impacts
+    };
+  }
+
+  private static analyzeActivity(
+    activity: ActivityLog,
+    readings: { time: number; value: number }[],
+    thresholds: GlucoseThresholds
+  ): ActivityImpact {
+    const start = new Date(activity.timestamp).getTime();
+    const end = start + activity.duration_minutes * 60000;
+    const followUpEnd = end + this.FOLLOW_UP_HOURS * 3600000;
+
+    const startGlucose = this.valueNear(readings, start);
+    const endGlucose = this.valueNear(readings, end);
+
+    const after = readings.filter(reading => reading.time > end && reading.time <= followUpEnd);
+    const nadir = after.reduce<{ time: number; value: number } | null>(
+      (lowest, reading) => !lowest || reading.value < lowest.value ? reading : lowest,
+      null
+    );
+
+    const hourlyChangeAfter = Array.from({ length: this.FOLLOW_UP_HOURS }, (_, index) => {
+      const value = this.valueNear(readings, end + (index + 1) * 3600000);
+      return value !== null && startGlucose !== null ? value - startGlucose : null;
+    });
+
+    return {
+      activityId: activity.id,
+      activityType: activity.activity_type,
+      intensity: activity.intensity,
+      timestamp: activity.timestamp,
+      durationMinutes: activity.duration_minutes,
+      startGlucose,
+      endGlucose,
+      changeDuring: startGlucose !== null && endGlucose !== null ? endGlucose - startGlucose : null,
+      nadirAfter: nadir ? nadir.value : null,
+      nadirMinutesAfter: nadir ? Math.round((nadir.time - end) / 60000) : null,
+      hourlyChangeAfter,
+      lowAfter: after.some(reading => reading.value < thresholds.low)
+    };
+  }
+
+  private static summarizeType(activityType: ActivityType, impacts: ActivityImpact[]): ActivityTypeImpact {
+    const withChange = impacts.filter(impact => impact.changeDuring !== null);
+
+    return {
+      activityType,
+      activities: impacts.length,
+      averageDurationMinutes: Math.round(average(impacts.map(impact => impact.durationMinutes)) ?? 0),
+      averageChangeDuring: roundOrNull(average(withChange.map(impact => impact.changeDuring as number))),
+      averageChangePerHourDuring: roundOrNull(average(
+        withChange
+          .filter(impact => impact.durationMinutes > 0)
+          .map(impact => (impact.changeDuring as number) / (impact.durationMinutes / 60))
+      )),
+      averageNadirAfter: roundOrNull(average(
+        impacts.filter(impact => impact.nadirAfter !== null).map(impact => impact.nadirAfter as number)
+      )),
+      averageHourlyChangeAfter: Array.from({ length: this.FOLLOW_UP_HOURS }, (_, index) => roundOrNull(average(
+        impacts
+          .map(impact => impact.hourlyChangeAfter[index])
+          .filter((change): change is number => change !== null && change !== undefined)
+      ))),
+      percentWithLowAfter: impacts.length > 0
+        ? Math.round((impacts.filter(impact => impact.lowAfter).length / impacts.length) * 1000) / 10
+        : 0
+    };
+  }
+
+  // Value of the reading closest to a time, if one is within the match window
+  private static valueNear(readings: { time: number; value: number }[], time: number): number | null {
+    const windowMs = this.MATCH_WINDOW_MINUTES * 60000;
+    let closest: { time: number; value: number } | null = null;
+
+    for (const reading of readings) {
+      if (reading.time < time - windowMs) continue;
+      if (reading.time > time + windowMs) break;
+      if (!closest || Math.abs(reading.time - time) < Math.abs(closest.time - time)) {
+        closest = reading;
+      }
+    }
+
+    return closest ? closest.value : null;
+  }
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function roundOrNull(value: number | null): number | null {
+  return value === null ? null : Math.round(value);
+}
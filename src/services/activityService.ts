@@ -0,0 +1,218 @@
+import { supabase } from '../config/database';
+import { ActivityIntensity, ActivityLog, ActivitySource, ActivityType } from '../types';
+
+export type NewActivityLog = Omit<ActivityLog, 'id' | 'created_at' | 'updated_at'>;
+
+export type MentionedActivity = Pick<ActivityLog, 'activity_type' | 'duration_minutes' | 'intensity'>;
+
+// Words that name an activity in a chat message
+const ACTIVITY_WORDS: { pattern: RegExp; type: ActivityType }[] = [
+  { pattern: /walk(?:ed|ing)?|hike|hiked|hiking/, type: 'walking' },
+  { pattern: /run|ran|running|jog(?:ged|ging)?/, type: 'running' },
+  { pattern: /bike|biked|biking|cycl(?:e|ed|ing)|(?:bike )?ride|rode|spin(?:ning)?(?: class)?/, type: 'cycling' },
+  { pattern: /swim|swam|swimming/, type: 'swimming' },
+  { pattern: /weights?|lift(?:ed|ing)?|strength(?: training)?|gym(?: session)?|workout/, type: 'strength' },
+  { pattern: /yoga|pilates|stretch(?:ed|ing)?/, type: 'yoga' },
+  { pattern: /soccer|football|basketball|tennis|hockey|volleyball|game/, type: 'sports' }
+];
+
+export class ActivityService {
+  static readonly ACTIVITY_TYPES: ActivityType[] = [
+    'walking',
+    'running',
+    'cycling',
+    'swimming',
+    'strength',
+    'yoga',
+    'sports',
+    'other'
+  ];
+  static readonly INTENSITIES: ActivityIntensity[] = ['low', 'moderate', 'high'];
+  static readonly SOURCES: ActivitySource[] = ['manual', 'chat'];
+  static readonly MAX_DURATION_MINUTES = 24 * 60;
+
+  // Used when neither the request nor the message says how hard the activity was
+  static readonly DEFAULT_INTENSITY: Record<ActivityType, ActivityIntensity> = {
+    walking: 'low',
+    running: 'high',
+    cycling: 'moderate',
+    swimming: 'moderate',
+    strength: 'moderate',
+    yoga: 'low',
+    sports: 'high',
+    other: 'moderate'
+  };
+
+  private static readonly RANGE_PAGE_SIZE = 1000;
+
+  static async getActivities(userId: string, limit: number = 100): Promise<ActivityLog[]> {
+    try {
+      const { data, error } = await supabase
+        .from('activity_logs')
+        .select('*')
+        .eq('user_id', userId)
+        .order('timestamp', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  static async getActivityById(activityId: string): Promise<ActivityLog | null> {
+    try {
+      const { data, error } = await supabase
+        .from('activity_logs')
+        .select('*')
+        .eq('id', activityId)
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Activities that started with startDate <= timestamp < endDate, oldest first
+  static async getActivitiesByDateRange(userId: string, startDate: string, endDate: string): Promise<ActivityLog[]> {
+    try {
+      const activities: ActivityLog[] = [];
+
+      for (let from = 0; ; from += this.RANGE_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('activity_logs')
+          .select('*')
+          .eq('user_id', userId)
+          .gte('timestamp', startDate)
+          .lt('timestamp', endDate)
+          .order('timestamp', { ascending: true })
+          .range(from, from + this.RANGE_PAGE_SIZE - 1);
+
+        if (error) {
+          return [];
+        }
+
+        activities.push(...(data || []));
+
+        if (!data || data.length < this.RANGE_PAGE_SIZE) {
+          return activities;
+        }
+      }
+    } catch (error) {
+      return [];
+    }
+  }
+
+  static async createActivity(activity: NewActivityLog): Promise<ActivityLog | null> {
+    try {
+      const { data, error } = await supabase
+        .from('activity_logs')
+        .insert([activity])
+        .select()
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async updateActivity(activityId: string, updates: Partial<NewActivityLog>): Promise<ActivityLog | null> {
+    try {
+      const { data, error } = await supabase
+        .from('activity_logs')
+        .update(updates)
+        .eq('id', activityId)
+        .select()
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async deleteActivity(activityId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('activity_logs')
+        .delete()
+        .eq('id', activityId);
+
+      return !error;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Completed activities with a stated duration, e.g. "30-minute walk", "ran for 45 min", "an hour of yoga"
+  static extractFromMessage(message: string): MentionedActivity[] {
+    const text = message.toLowerCase();
+    // Plans and questions about upcoming exercise are not logged
+    if (/\b(going to|gonna|will|plan(?:ning)? to|about to|tomorrow|should i)\b|'ll\b/.test(text)) {
+      return [];
+    }
+    const duration = String.raw`(\d+(?:\.\d+)?|an?|half an?)[\s-]*(hours?|hrs?|minutes?|mins?)\b`;
+    const activity = ACTIVITY_WORDS.map(word => word.pattern.source).join('|');
+    const patterns = [
+      // "30-minute walk", "1 hour bike ride", "an hour of yoga"
+      new RegExp(`${duration}(?:\\s+(?:of|long))?\\s+(?:\\w+\\s+)?\\b(${activity})\\b`, 'g'),
+      // "walked for 30 minutes", "swim 40 mins"
+      new RegExp(`\\b(${activity})\\s+(?:for\\s+)?(?:about\\s+|around\\s+)?${duration}`, 'g')
+    ];
+
+    const found: (MentionedActivity & { phrase: string })[] = [];
+    const seen = new Set<ActivityType>();
+
+    for (const [index, pattern] of patterns.entries()) {
+      for (const match of text.matchAll(pattern)) {
+        const [amount, unit, word] = index === 0
+          ? [match[1], match[2], match[3]]
+          : [match[2], match[3], match[1]];
+        const type = ACTIVITY_WORDS.find(entry => new RegExp(`^(?:${entry.pattern.source})$`).test(word || ''))?.type;
+        const minutes = toMinutes(amount || '', unit || '');
+
+        // One activity of each type per message; repeated mentions are the same activity
+        if (!type || !minutes || minutes > this.MAX_DURATION_MINUTES || seen.has(type)) continue;
+        seen.add(type);
+
+        found.push({ activity_type: type, duration_minutes: minutes, intensity: this.DEFAULT_INTENSITY[type], phrase: match[0] });
+      }
+    }
+
+    // Intensity words anywhere in the message only describe the activity when it is the only one
+    return found.map(({ phrase, ...mentioned }) => ({
+      ...mentioned,
+      intensity: intensityFrom(phrase) || (found.length === 1 && intensityFrom(text)) || mentioned.intensity
+    }));
+  }
+}
+
+function toMinutes(amount: string, unit: string): number {
+  const value = amount === 'a' || amount === 'an' ? 1 : amount.startsWith('half') ? 0.5 : Number(amount);
+  return Math.round(unit.startsWith('h') ? value * 60 : value);
+}
+
+function intensityFrom(text: string): ActivityIntensity | null {
+  if (/\b(hard|intense|fast|sprint(?:s|ing)?|hiit|intervals?|tempo|race)\b/.test(text)) return 'high';
+  if (/\b(brisk|moderate|steady)\b/.test(text)) return 'moderate';
+  if (/\b(easy|light|gentle|slow|leisurely|stroll)\b/.test(text)) return 'low';
+  return null;
+}
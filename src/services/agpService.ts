@@ -0,0 +1,86 @@
+import { AgpDailyOverlay, AgpPercentileBucket, AmbulatoryGlucoseProfile, GlucoseReading } from '../types';
+import { DEFAULT_TIMEZONE, formatZonedDate, minuteOfZonedDay } from '../utils/timezone';
+
+export class AgpService {
+  static readonly DEFAULT_BUCKET_MINUTES = 15;
+  static readonly ALLOWED_BUCKET_MINUTES = [5, 10, 15, 20, 30, 60];
+  private static readonly MINUTES_PER_DAY = 24 * 60;
+
+  // Fold readings into a single modal day (local time of day) and compute the AGP percentile curves per bucket
+  static buildProfile(
+    readings: GlucoseReading[],
+    startDate: string,
+    endDate: string,
+    bucketMinutes: number = this.DEFAULT_BUCKET_MINUTES,
+    timeZone: string = DEFAULT_TIMEZONE
+  ): AmbulatoryGlucoseProfile {
+    const bucketCount = this.MINUTES_PER_DAY / bucketMinutes;
+    const buckets: number[][] = Array.from({ length: bucketCount }, () => []);
+    const overlays = new Map<string, AgpDailyOverlay>();
+
+    for (const reading of readings) {
+      const timestamp = new Date(reading.timestamp);
+      if (isNaN(timestamp.getTime())) {
+        continue;
+      }
+
+      const minuteOfDay = minuteOfZonedDay(timestamp, timeZone);
+      buckets[Math.floor(minuteOfDay / bucketMinutes)]?.push(reading.value);
+
+      const date = formatZonedDate(timestamp, timeZone);
+      const overlay = overlays.get(date) || { date, readings: [] };
+      overlay.readings.push({ time: formatTime(minuteOfDay), value: reading.value });
+      overlays.set(date, overlay);
+    }
+
+    const percentiles: AgpPercentileBucket[] = buckets.map((values, index) => {
+      const sorted = [...values].sort((a, b) => a - b);
+      const minuteOfDay = index * bucketMinutes;
+
+      return {
+        time: formatTime(minuteOfDay),
+        minuteOfDay,
+        readings: sorted.length,
+        p5: percentile(sorted, 5),
+        p25: percentile(sorted, 25),
+        p50: percentile(sorted, 50),
+        p75: percentile(sorted, 75),
+        p95: percentile(sorted, 95)
+      };
+    });
+
+    const dailyOverlays = [...overlays.values()].sort((a, b) => a.date.localeCompare(b.date));
+
+    return {
+      startDate,
+      endDate,
+      timeZone,
+      bucketMinutes,
+      days: dailyOverlays.length,
+      readings: readings.length,
+      percentiles,
+      dailyOverlays
+    };
+  }
+}
+
+// Linear interpolation between closest ranks
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const lowerValue = sorted[lower] as number;
+  const upperValue = sorted[upper] as number;
+
+  return Math.round((lowerValue + (upperValue - lowerValue) * (rank - lower)) * 10) / 10;
+}
+
+function formatTime(minuteOfDay: number): string {
+  const hours = Math.floor(minuteOfDay / 60);
+  const minutes = minuteOfDay % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
@@ -1,7 +1,60 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { AIAnalysisRequest } from '../types';
+import { AIAnalysisRequest, ChatTurn, GlucoseEpisode, GlucoseUnit, SickDayStatus } from '../types';
+import { DEFAULT_GLUCOSE_UNIT, formatGlucose, fromMgdl } from '../utils/glucoseUnits';
+import { formatZonedDate } from '../utils/timezone';
+import { ChatToolService } from './chatToolService';
 import { WebScrapingService, ScrapedRecipe } from './webScrapingService';
 
+// Claude gets this many responses per message; the last one has to answer without tools
+const MAX_TOOL_ROUNDS = 5;
+
+const minutesAgo = (timestamp: string): number =>
+  Math.max(0, Math.round((Date.now() - new Date(timestamp).getTime()) / 60000));
+
+const ACTION_TEXT: Record<SickDayStatus['recommendedAction'], string> = {
+  emergency: 'EMERGENCY: tell the user to call emergency services or go to the emergency department now',
+  contact_care_team: 'Tell the user to contact their diabetes care team now',
+  continue_sick_day_rules: 'No escalation criteria are met; keep following sick-day rules'
+};
+
+// Sick-day rules with the user's current checklist and escalation state
+const sickDayGuidance = (status: SickDayStatus, unit: GlucoseUnit): string => {
+  const ketones = status.latestKetones
+    ? `${status.latestKetones.value} mmol/L ${status.latestKetones.sample_type} (${status.latestKetones.level.replace('_', ' ')}, ${minutesAgo(status.latestKetones.timestamp)} min ago)`
+    : 'none logged';
+  const checklist = status.checklist
+    .map(item => `- ${item.label}: ${item.status}${item.status === 'ok' ? '' : ` since ${minutesAgo(item.nextDueAt)} min ago`} (${item.detail})`)
+    .join('\n');
+  const escalations = status.escalations
+    .filter(escalation => escalation.met)
+    .map(escalation => `- ${escalation.description}`)
+    .join('\n');
+
+  return `SICK-DAY MODE IS ON. The user is ill and at risk of diabetic ketoacidosis (DKA).
+
+SICK-DAY RULES:
+- Never stop basal or long-acting insulin, even when not eating
+- Check glucose every 2-4 hours and ketones every 2-4 hours (every 2 hours while ketones are raised or glucose is above ${formatGlucose(250, unit)})
+- Drink about 250 ml of fluid every hour; sugar-free while glucose is above ${formatGlucose(180, unit)}, carb-containing if lower or not eating
+- If not eating, take small amounts of easy carbs (about 15g per hour) to prevent lows and ketones
+- Raised ketones with high glucose usually need extra rapid-acting insulin as agreed in the user's sick-day plan; never give specific doses beyond that plan
+- Do not suggest exercise while ketones are raised
+
+ESCALATE:
+- Contact the care team: blood ketones 1.5-3.0 mmol/L or moderate urine ketones, vomiting, glucose above ${formatGlucose(300, unit)} for 2 hours
+- Emergency care: blood ketones 3.0 mmol/L or above or large urine ketones, raised ketones with vomiting, unable to keep fluids down, abdominal pain, rapid breathing, fruity breath, confusion or drowsiness
+
+CURRENT SICK-DAY STATE:
+- Latest ketones: ${ketones}
+- Symptoms: ${status.session?.symptoms.length ? status.session.symptoms.join(', ').replace(/_/g, ' ') : 'none reported'}
+${checklist}
+${escalations ? `Escalation criteria met:\n${escalations}\n` : ''}- ${ACTION_TEXT[status.recommendedAction]}
+
+Remind the user of any overdue checklist item. Do not suggest meal plans while they are ill.
+
+`;
+};
+
 const anthropic = new Anthropic({
   apiKey: process.env['CLAUDE_API_KEY'] || 'mock-claude-api-key',
 });
@@ -9,56 +62,153 @@ const anthropic = new Anthropic({
 export class AIService {
   static async analyzeMessage(request: AIAnalysisRequest): Promise<string> {
     try {
-      // Process context data if available
-      let contextString = '';
-      
-      if (request.glucoseContext) {
-        const { currentGlucose, recentFoodLogs, currentMealPlan, userProfile } = request.glucoseContext;
-        
-        // Process recent food logs for AI context
-        const MAX_RECENT_FOOD_LOGS_FOR_AI = 10;
-        const limitedFoodLogs = recentFoodLogs?.slice(0, MAX_RECENT_FOOD_LOGS_FOR_AI) || [];
-        
-        const foodContext = limitedFoodLogs.length > 0 
-          ? `\n\nRECENT FOOD INTAKE:\n${limitedFoodLogs.map((food: any) => 
-              `- ${food.description}: ${food.carbs}g carbs (${new Date(food.timestamp).toLocaleDateString()})`
-            ).join('\n')}`
-          : '\n\nNo recent food data available.';
-
-        // Process current meal plan context
-        const mealPlanContext = currentMealPlan 
-          ? `\n\nTODAY'S MEAL PLAN:\n${currentMealPlan.meals.map((meal: any) => 
-              `- ${meal.type.charAt(0).toUpperCase() + meal.type.slice(1)} (${meal.time}): ${meal.foods.map((f: any) => f.name).join(', ')} - ${meal.totalCarbs}g carbs, ${meal.recommendedInsulin} units insulin`
-            ).join('\n')}\nTotal planned carbs: ${currentMealPlan.totalCarbs}g\nEstimated time in range: ${currentMealPlan.estimatedTimeInRange}%`
-          : '\n\nNo meal plan for today yet.';
-
-        contextString = `
-CURRENT CONTEXT:
-- Glucose: ${currentGlucose?.value || 'Unknown'} mg/dL (${currentGlucose?.trend || 'stable'})
-- Profile: ${userProfile ? `Type ${userProfile.diabetesType}, I:C ratio ${userProfile.insulinToCarbRatio}` : 'Not available'}${foodContext}${mealPlanContext}`;
+      return await this.runWithTools(request, params => anthropic.messages.create(params));
+    } catch (error) {
+      console.error('Error in AI analysis:', error);
+      return 'I apologize, but I\'m having trouble processing your request right now. Please try again later.';
+    }
+  }
+
+  // Relays text to onText as Claude writes it and resolves with the full response;
+  // unlike analyzeMessage it rejects on failure or abort so the caller can tell the client
+  static async streamMessage(
+    request: AIAnalysisRequest,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    let streamed = false;
+
+    return this.runWithTools(request, params => {
+      const stream = anthropic.messages.stream(params, signal ? { signal } : {});
+      let roundStarted = false;
+
+      // Text from a later round starts a new paragraph, as it does in the stored response
+      stream.on('text', text => {
+        if (!roundStarted && streamed) {
+          onText('\n\n');
+        }
+        roundStarted = true;
+        streamed = true;
+        onText(text);
+      });
+
+      return stream.finalMessage();
+    });
+  }
+
+  // Sends the chat request and runs the tools Claude calls until it answers; the text of every round is kept
+  private static async runWithTools(
+    request: AIAnalysisRequest,
+    send: (params: Anthropic.MessageCreateParamsNonStreaming) => Promise<Anthropic.Message>
+  ): Promise<string> {
+    const params = this.buildChatRequest(request);
+    const toolContext = request.tools;
+    const tools = toolContext ? ChatToolService.definitions(toolContext) : [];
+    const messages = [...params.messages];
+    const texts: string[] = [];
+
+    for (let round = 1; ; round++) {
+      const message = await send({
+        ...params,
+        messages,
+        ...(tools.length > 0 ? { tools } : {}),
+        ...(tools.length > 0 && round === MAX_TOOL_ROUNDS ? { tool_choice: { type: 'none' as const } } : {})
+      });
+
+      const text = message.content
+        .map(block => (block.type === 'text' ? block.text : ''))
+        .join('')
+        .trim();
+      if (text) {
+        texts.push(text);
       }
 
-      const systemPrompt = `You are Michelle, a diabetes management AI assistant. Your goals:
-- Provide personalized diabetes management guidance
-- Automatically extract and log health data from conversations
-- Offer evidence-based recommendations while prioritizing safety
-- Maintain an empathetic, supportive tone
-- Analyze carbohydrate intake patterns
-- Help with meal planning and nutrition guidance
+      const toolUses = message.content.filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use');
+      if (!toolContext || message.stop_reason !== 'tool_use' || toolUses.length === 0 || round === MAX_TOOL_ROUNDS) {
+        return texts.join('\n\n');
+      }
 
-SAFETY PROTOCOLS:
-- For severe hypoglycemia (<54 mg/dL) or hyperglycemia (>400 mg/dL): advise emergency care
-- Only provide general insulin guidance based on established ratios
-- Always remind users to consult healthcare providers
-- Include disclaimer: "This is guidance only - follow your doctor's instructions"
+      const results = await Promise.all(toolUses.map(async (block): Promise<Anthropic.ToolResultBlockParam> => {
+        const { content, isError } = await ChatToolService.execute(block.name, block.input, toolContext);
+        return { type: 'tool_result', tool_use_id: block.id, content, ...(isError ? { is_error: true } : {}) };
+      }));
+
+      messages.push(
+        { role: 'assistant', content: message.content },
+        { role: 'user', content: results }
+      );
+    }
+  }
 
-AUTO-LOGGING: Extract from user messages:
-- Glucose readings: "my sugar is 150" → Log 150 mg/dL
-- Food intake: "I ate pasta" → Log pasta, estimate carbs
-- Exercise: "30-minute walk" → Log walking activity
-- Insulin: "took 8 units" → Log insulin dose
+  // Chat request shared by the blocking and streaming calls
+  private static buildChatRequest(request: AIAnalysisRequest): Anthropic.MessageCreateParamsNonStreaming {
+    // Context values arrive in mg/dL and are rendered in the user's unit
+    const unit = request.unit || DEFAULT_GLUCOSE_UNIT;
 
-CARB ANALYSIS:
+    // Process context data if available
+    let contextString = '';
+    
+    if (request.glucoseContext) {
+      const { currentGlucose, recentReadings, targetRange, recentFoodLogs, currentMealPlan, userProfile, forecast, onBoard } = request.glucoseContext;
+      
+      // Process recent food logs for AI context
+      const MAX_RECENT_FOOD_LOGS_FOR_AI = 10;
+      const limitedFoodLogs = recentFoodLogs?.slice(0, MAX_RECENT_FOOD_LOGS_FOR_AI) || [];
+      
+      const foodContext = limitedFoodLogs.length > 0 
+        ? `\n\nRECENT FOOD INTAKE:\n${limitedFoodLogs.map((food: any) => 
+            `- ${food.description}: ${food.carbs}g carbs (${new Date(food.timestamp).toLocaleDateString()})`
+          ).join('\n')}`
+        : '\n\nNo recent food data available.';
+
+      // Process current meal plan context
+      const mealPlanContext = currentMealPlan 
+        ? `\n\nTODAY'S MEAL PLAN:\n${currentMealPlan.meals.map((meal: any) => 
+            `- ${meal.type.charAt(0).toUpperCase() + meal.type.slice(1)} (${meal.time}): ${meal.foods.map((f: any) => f.name).join(', ')} - ${meal.totalCarbs}g carbs${meal.recommendedInsulin !== undefined ? `, ${meal.recommendedInsulin} units insulin` : ''}`
+          ).join('\n')}\nTotal planned carbs: ${currentMealPlan.totalCarbs}g\nEstimated time in range: ${currentMealPlan.estimatedTimeInRange}%`
+        : '\n\nNo meal plan for today yet.';
+
+      // Process local glucose forecast
+      const forecastContext = forecast
+        ? `\n- Forecast: ${forecast.points.map(p => `${formatGlucose(p.value, unit)} in ${p.minutesAhead} min`).join(', ')}${
+            forecast.predictedLow ? `\n- PREDICTED LOW: below ${formatGlucose(forecast.predictedLow.threshold, unit)} in about ${forecast.predictedLow.minutesUntil} minutes` : ''
+          }${
+            forecast.predictedHigh ? `\n- Predicted high: above ${formatGlucose(forecast.predictedHigh.threshold, unit)} in about ${forecast.predictedHigh.minutesUntil} minutes` : ''
+          }`
+        : '';
+
+      // Process insulin and carbs on board
+      const onBoardContext = onBoard
+        ? `\n- Insulin on board: ${onBoard.iob} units${onBoard.lastBolusAt ? ` (last bolus ${minutesAgo(onBoard.lastBolusAt)} min ago)` : ''}\n- Carbs on board: ${onBoard.cob}g${onBoard.lastCarbsAt ? ` (last meal ${minutesAgo(onBoard.lastCarbsAt)} min ago)` : ''}`
+        : '';
+
+      // Process recent readings and the target range
+      const readingsContext = `${recentReadings && recentReadings.length > 0
+        ? `\n- Recent readings: ${recentReadings.map(r => `${fromMgdl(r.value, unit)} (${minutesAgo(r.timestamp)} min ago)`).join(', ')} ${unit}`
+        : ''}${targetRange ? `\n- Target range: ${fromMgdl(targetRange[0], unit)}-${formatGlucose(targetRange[1], unit)}` : ''}`;
+
+      // Process user profile; every field is optional
+      const profileContext = userProfile
+        ? [
+            userProfile.diabetesType ? `Type ${String(userProfile.diabetesType).replace(/^type\s*/i, '')}` : null,
+            userProfile.insulinToCarbRatio ? `I:C ratio ${userProfile.insulinToCarbRatio}` : null,
+            userProfile.targetCarbs ? `daily carb target ${userProfile.targetCarbs}g` : null,
+            userProfile.preferences?.length ? `prefers ${userProfile.preferences.join(', ')}` : null,
+            userProfile.restrictions?.length ? `avoids ${userProfile.restrictions.join(', ')}` : null
+          ].filter(Boolean).join(', ') || 'Not available'
+        : 'Not available';
+
+      contextString = `
+CURRENT CONTEXT:
+- Glucose: ${currentGlucose?.value ? formatGlucose(currentGlucose.value, unit) : 'Unknown'} (${currentGlucose?.trend || 'stable'}${currentGlucose?.timestamp ? `, ${minutesAgo(currentGlucose.timestamp)} min ago` : ''})${readingsContext}${forecastContext}${onBoardContext}
+- Profile: ${profileContext}${foodContext}${mealPlanContext}`;
+    }
+
+    // While sick-day mode is on, sick-day rules replace the meal planning guidance
+    const sickDay = request.glucoseContext?.sickDay;
+    const guidance = sickDay?.active
+      ? sickDayGuidance(sickDay, unit)
+      : `CARB ANALYSIS:
 - Analyze daily carb patterns from recent food logs
 - Suggest balanced meal composition (45-60g per meal, 15-30g snacks)
 - Recommend complex carbs over simple sugars
@@ -86,38 +236,148 @@ MEAL PLANNING RESPONSES:
 - For specific food questions: Provide immediate guidance while mentioning the Meals tab for comprehensive planning
 - For meal modifications: Help adjust current plans and suggest using the Meals tab for alternatives
 
-COMMUNICATION:
+`;
+
+    // Tools answer questions about the user's own data that the context above does not cover
+    const toolGuidance = request.tools
+      ? `TOOLS:
+- Today is ${new Intl.DateTimeFormat('en-US', { weekday: 'long', timeZone: request.tools.timeZone }).format(new Date())} ${formatZonedDate(new Date(), request.tools.timeZone)} in the user's time zone (${request.tools.timeZone}); tool dates are local days
+- Use the tools to look up the user's glucose statistics, readings, meal plans and foods rather than guessing or asking them
+- For nights, use the overnight figures from get_glucose_stats
+- Use propose_log_entry for an entry you worked out from the conversation (e.g. carbs for a meal described earlier); entries stated in the user's message are picked up already
+
+`
+      : '';
+
+    const systemPrompt = `You are Michelle, a diabetes management AI assistant. Your goals:
+- Provide personalized diabetes management guidance
+- Automatically extract and log health data from conversations
+- Offer evidence-based recommendations while prioritizing safety
+- Maintain an empathetic, supportive tone
+- Analyze carbohydrate intake patterns
+- Help with meal planning and nutrition guidance
+
+SAFETY PROTOCOLS:
+- For severe hypoglycemia (<${formatGlucose(54, unit)}) or hyperglycemia (>${formatGlucose(400, unit)}): advise emergency care
+- If a low is predicted, address it first and do not suggest insulin or corrections
+- If insulin on board is still active, account for it before any correction; do not suggest more insulin when it would stack on active insulin
+- Only provide general insulin guidance based on established ratios
+- Always remind users to consult healthcare providers
+- Include disclaimer: "This is guidance only - follow your doctor's instructions"
+
+AUTO-LOGGING: Readings, food, insulin and exercise the user mentions go to their log inbox, where they confirm them before anything is saved:
+- Glucose readings: "my sugar is ${fromMgdl(150, unit)}" → ${formatGlucose(150, unit)} reading
+- Food intake: "I ate pasta" → pasta, with estimated carbs
+- Exercise: "30-minute walk" → walking activity
+- Insulin: "took 8 units" → insulin dose
+Never say something has been logged; say it is waiting in the log inbox for them to confirm.
+
+${toolGuidance}${guidance}COMMUNICATION:
+- The user reads glucose in ${unit}; always state glucose values in ${unit}
 - Be conversational and supportive
 - Reference specific data patterns
 - Explain recommendations clearly
 - Celebrate successes and progress
 - When discussing meals, always consider glucose impact and insulin timing
 
-${contextString}
+${contextString}${request.history?.summary ? `
+
+EARLIER IN THIS CONVERSATION (summary):
+${request.history.summary}` : ''}
+
+${sickDay?.active
+  ? 'Respond as Michelle with calm, clear sick-day guidance; put any escalation first.'
+  : 'Respond as Michelle with personalized, contextual guidance while prioritizing safety and directing users to the Meals tab for comprehensive meal planning.'}`;
+
+    return {
+      model: 'claude-3-5-sonnet-20241022',
+      max_tokens: 1000,
+      temperature: 0.7,
+      system: systemPrompt,
+      messages: [
+        // Prior turns in the thread, oldest first
+        ...(request.history?.turns || [])
+          .filter(turn => turn.message && turn.response)
+          .flatMap(turn => [
+            { role: 'user' as const, content: turn.message },
+            { role: 'assistant' as const, content: turn.response }
+          ]),
+        {
+          role: 'user',
+          content: request.message
+        }
+      ]
+    };
+  }
 
-Respond as Michelle with personalized, contextual guidance while prioritizing safety and directing users to the Meals tab for comprehensive meal planning.`;
+  // Fold older chat turns into a running summary; null when Claude is unavailable
+  static async summarizeConversation(previousSummary: string | null, turns: ChatTurn[]): Promise<string | null> {
+    try {
+      const transcript = turns
+        .map(turn => `User: ${turn.message}\nMichelle: ${turn.response}`)
+        .join('\n\n');
 
       const message = await anthropic.messages.create({
         model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1000,
-        temperature: 0.7,
-        system: systemPrompt,
+        max_tokens: 500,
+        temperature: 0,
+        system: `You summarize a conversation between a person with diabetes and Michelle, their diabetes assistant, so it can continue later.
+Keep facts that matter for future guidance: glucose values and trends, foods, insulin doses, activity, symptoms, goals, preferences and anything Michelle advised or promised to follow up on.
+Write at most 200 words of plain prose in the third person. Do not add advice.`,
         messages: [
           {
             role: 'user',
-            content: request.message
+            content: `${previousSummary ? `Summary so far:\n${previousSummary}\n\n` : ''}Conversation to add:\n${transcript}\n\nWrite the updated summary.`
           }
         ]
       });
 
       const firstContent = message.content[0];
-      if (firstContent && firstContent.type === 'text') {
-        return firstContent.text || '';
+      if (firstContent && firstContent.type === 'text' && firstContent.text.trim()) {
+        return firstContent.text.trim();
       }
-      return '';
+      return null;
     } catch (error) {
-      console.error('Error in AI analysis:', error);
-      return 'I apologize, but I\'m having trouble processing your request right now. Please try again later.';
+      console.error('Error summarizing conversation:', error);
+      return null;
+    }
+  }
+
+  // Raw log entries found in a chat message; null when Claude is unavailable or the reply is not JSON.
+  // Entries are unvalidated and times are relative, see LogInboxService.fromExtraction
+  static async extractLogEntries(message: string, unit: GlucoseUnit): Promise<unknown[] | null> {
+    try {
+      const response = await anthropic.messages.create({
+        model: 'claude-3-5-sonnet-20241022',
+        max_tokens: 600,
+        temperature: 0,
+        system: `You extract diabetes log entries from a message written by a person with diabetes. Only extract things the person says already happened or is happening now, never plans, questions or hypotheticals.
+Reply with JSON only, in this shape: {"entries": [...]}. Each entry is one of:
+{"type": "glucose", "value": number in ${unit}, "minutes_ago": number, "text": string}
+{"type": "food", "description": string, "carbs": grams (estimate when not stated), "meal_type": "breakfast" | "lunch" | "dinner" | "snack" | null, "minutes_ago": number, "text": string}
+{"type": "insulin", "units": number, "dose_type": "bolus" | "basal", "minutes_ago": number, "text": string}
+{"type": "activity", "activity_type": "walking" | "running" | "cycling" | "swimming" | "strength" | "yoga" | "sports" | "other", "duration_minutes": number, "intensity": "low" | "moderate" | "high" | null, "minutes_ago": number, "text": string}
+minutes_ago is how long before the message it happened (for an activity, when it ended); use 0 when not stated. text is the exact words the entry came from.
+Reply {"entries": []} when there is nothing to log.`,
+        messages: [
+          {
+            role: 'user',
+            content: message
+          }
+        ]
+      });
+
+      const firstContent = response.content[0];
+      const jsonMatch = firstContent && firstContent.type === 'text' ? firstContent.text.match(/\{[\s\S]*\}/) : null;
+      if (!jsonMatch) {
+        return null;
+      }
+
+      const parsed = JSON.parse(jsonMatch[0]);
+      return Array.isArray(parsed?.entries) ? parsed.entries : null;
+    } catch (error) {
+      console.error('Error extracting log entries:', error);
+      return null;
     }
   }
 
@@ -225,7 +485,11 @@ Format the response as a structured meal plan with clear sections for each meal.
     }
   }
 
-  static async analyzeGlucosePatterns(readings: any[]): Promise<string> {
+  static async analyzeGlucosePatterns(
+    readings: any[],
+    unit: GlucoseUnit = DEFAULT_GLUCOSE_UNIT,
+    episodes: GlucoseEpisode[] = []
+  ): Promise<string> {
     try {
       const systemPrompt = `You are a diabetes management expert analyzing glucose patterns. Review the provided glucose readings and provide insights about:
 
@@ -238,9 +502,15 @@ Format the response as a structured meal plan with clear sections for each meal.
 Be specific, actionable, and supportive in your analysis.`;
 
       const readingsSummary = readings.map(r => 
-        `${r.timestamp}: ${r.value} mg/dL`
+        `${r.timestamp}: ${formatGlucose(r.value, unit)}`
       ).join('\n');
 
+      const episodeSummary = episodes.length > 0
+        ? episodes.map(e =>
+            `- ${e.type} level ${e.level}: ${e.start} for ${e.durationMinutes} min, ${e.type === 'hypoglycemia' ? 'nadir' : 'peak'} ${formatGlucose(e.extremeValue, unit)}`
+          ).join('\n')
+        : 'No hypoglycemia or hyperglycemia episodes detected.';
+
       const message = await anthropic.messages.create({
         model: 'claude-3-5-sonnet-20241022',
         max_tokens: 1000,
@@ -248,7 +518,7 @@ Be specific, actionable, and supportive in your analysis.`;
         messages: [
           {
             role: 'user',
-            content: `Please analyze these glucose readings:\n\n${readingsSummary}`
+            content: `Please analyze these glucose readings:\n\n${readingsSummary}\n\nDetected episodes over the last 14 days (computed with the consensus 15-minute rule; use these counts rather than counting from the readings):\n${episodeSummary}`
           }
         ]
       });
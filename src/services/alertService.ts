@@ -0,0 +1,452 @@
+import { supabase } from '../config/database';
+import {
+  AlertChannel,
+  GlucoseAlert,
+  GlucoseAlertRule,
+  GlucoseAlertType,
+  GlucoseReading,
+  GlucoseUnit,
+  QuietHours
+} from '../types';
+import { alertValueFromMgdl, alertValueToMgdl, formatGlucose } from '../utils/glucoseUnits';
+import { DEFAULT_TIMEZONE, minuteOfZonedDay } from '../utils/timezone';
+import { GlucoseService } from './glucoseService';
+import { SickDayService } from './sickDayService';
+
+export type NewGlucoseAlertRule = Omit<GlucoseAlertRule, 'id' | 'created_at' | 'updated_at'>;
+// A saved rule, or with a null id a sick-day default rule that is never saved
+type EvaluatedAlertRule = NewGlucoseAlertRule & { id: string | null };
+
+export class AlertService {
+  static readonly ALERT_TYPES: GlucoseAlertType[] = ['urgent_low', 'low', 'high', 'rapid_rise', 'rapid_fall', 'no_data'];
+  // Channels a rule can use; push, SMS and email are added once a delivery provider is configured
+  static readonly CHANNELS: AlertChannel[] = ['in_app'];
+
+  static readonly DEFAULT_THRESHOLDS: Record<GlucoseAlertType, number> = {
+    urgent_low: 55,
+    low: 70,
+    high: 250,
+    rapid_rise: 2,
+    rapid_fall: 2,
+    no_data: 20
+  };
+
+  static readonly DEFAULT_SNOOZE_MINUTES: Record<GlucoseAlertType, number> = {
+    urgent_low: 30,
+    low: 15,
+    high: 120,
+    rapid_rise: 30,
+    rapid_fall: 30,
+    no_data: 60
+  };
+
+  // Level thresholds stay within what sensors report, rates below the plausibility limit readings are
+  // flagged at, and no-data waits between one scheduled check and half a day
+  static readonly THRESHOLD_LIMITS: Record<GlucoseAlertType, [number, number]> = {
+    urgent_low: [40, 400],
+    low: [40, 400],
+    high: [40, 400],
+    rapid_rise: [1, 6],
+    rapid_fall: [1, 6],
+    no_data: [10, 720]
+  };
+  static readonly MAX_SNOOZE_MINUTES = 24 * 60;
+
+  // Readings older than this (e.g. backfilled history) are stored without alerting
+  private static readonly MAX_READING_AGE_MINUTES = 15;
+  // Rate of change is measured against a reading 5-20 minutes earlier
+  private static readonly RATE_WINDOW_MIN_MINUTES = 5;
+  private static readonly RATE_WINDOW_MAX_MINUTES = 20;
+
+  static async getRules(userId: string): Promise<GlucoseAlertRule[]> {
+    try {
+      const { data, error } = await supabase
+        .from('glucose_alert_rules')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  static async getRule(ruleId: string): Promise<GlucoseAlertRule | null> {
+    try {
+      const { data, error } = await supabase
+        .from('glucose_alert_rules')
+        .select('*')
+        .eq('id', ruleId)
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async createRule(rule: NewGlucoseAlertRule): Promise<GlucoseAlertRule | null> {
+    try {
+      const { data, error } = await supabase
+        .from('glucose_alert_rules')
+        .insert([rule])
+        .select()
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async updateRule(ruleId: string, updates: Partial<NewGlucoseAlertRule>): Promise<GlucoseAlertRule | null> {
+    try {
+      const { data, error } = await supabase
+        .from('glucose_alert_rules')
+        .update(updates)
+        .eq('id', ruleId)
+        .select()
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async deleteRule(ruleId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('glucose_alert_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      return !error;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  static async getAlertHistory(
+    userId: string,
+    options: { startDate?: string; endDate?: string; status?: GlucoseAlert['status']; limit?: number } = {}
+  ): Promise<GlucoseAlert[]> {
+    try {
+      let query = supabase
+        .from('glucose_alerts')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (options.startDate) query = query.gte('triggered_at', options.startDate);
+      if (options.endDate) query = query.lte('triggered_at', options.endDate);
+      if (options.status) query = query.eq('status', options.status);
+
+      const { data, error } = await query
+        .order('triggered_at', { ascending: false })
+        .limit(options.limit || 100);
+
+      if (error) {
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  // A threshold in the user's unit, converted to mg/dL (per minute) and checked against the type's limits
+  static parseThreshold(type: GlucoseAlertType, value: unknown, unit: GlucoseUnit): { threshold?: number; error?: string } {
+    if (typeof value !== 'number' || !isFinite(value)) {
+      return { error: 'threshold must be a number' };
+    }
+
+    const threshold = alertValueToMgdl(type, value, unit);
+    const [min, max] = this.THRESHOLD_LIMITS[type];
+
+    if (type === 'no_data' && !Number.isInteger(threshold)) {
+      return { error: 'threshold must be a whole number of minutes for no_data rules' };
+    }
+    if (threshold < min || threshold > max) {
+      const range = `${alertValueFromMgdl(type, min, unit)}-${alertValueFromMgdl(type, max, unit)}`;
+      const units = type === 'no_data' ? 'minutes' : type.startsWith('rapid') ? `${unit} per minute` : unit;
+      return { error: `threshold must be within ${range} ${units} for ${type} rules` };
+    }
+
+    return { threshold };
+  }
+
+  // Evaluate a newly saved reading against the user's enabled rules
+  static async evaluateReading(reading: GlucoseReading): Promise<GlucoseAlert[]> {
+    try {
+      const readingTime = new Date(reading.timestamp).getTime();
+      if (isNaN(readingTime) || Date.now() - readingTime > this.MAX_READING_AGE_MINUTES * 60000) {
+        return [];
+      }
+
+      // Flagged readings are implausible jumps (e.g. sensor compression) and never alert, as they are left
+      // out of stats and forecasts; a real low or high shows again in the next plausible reading
+      if (reading.quality === 'flagged') {
+        return [];
+      }
+
+      const enabledRules = (await this.getRules(reading.user_id)).filter(rule => rule.enabled);
+
+      // Sick-day mode tightens thresholds so highs and lows are caught earlier, and alerts even without rules
+      const sickDay = await SickDayService.isActive(reading.user_id);
+      const rules = (sickDay ? this.withSickDayRules(reading.user_id, enabledRules) : enabledRules)
+        .filter(rule => rule.type !== 'no_data');
+
+      if (rules.length === 0) {
+        return [];
+      }
+
+      const needsRate = rules.some(rule => rule.type === 'rapid_rise' || rule.type === 'rapid_fall');
+      const rate = needsRate ? await this.getRateOfChange(reading) : null;
+      const unit = await GlucoseService.getPreferredUnit(reading.user_id);
+      const timeZone = await GlucoseService.getTimeZone(reading.user_id);
+      const alerts: GlucoseAlert[] = [];
+
+      for (const rule of rules) {
+        const message = this.matchRule(rule, reading.value, rate, unit);
+        if (!message) continue;
+
+        const alert = await this.trigger(
+          rule,
+          rule.type.startsWith('rapid') ? rate : reading.value,
+          message,
+          new Date(readingTime),
+          timeZone
+        );
+        if (alert) alerts.push(alert);
+      }
+
+      return alerts;
+    } catch (error) {
+      console.error('Error evaluating glucose alert rules:', error);
+      return [];
+    }
+  }
+
+  // Scheduled check for users whose CGM data has stopped arriving; latest readings and sick-day
+  // sessions are loaded for all rules at once
+  static async evaluateNoDataRules(now: Date = new Date()): Promise<GlucoseAlert[]> {
+    try {
+      const [{ data, error }, sickDayUsers] = await Promise.all([
+        supabase
+          .from('glucose_alert_rules')
+          .select('*')
+          .eq('type', 'no_data')
+          .eq('enabled', true),
+        SickDayService.getActiveUserIds()
+      ]);
+
+      if (error) {
+        return [];
+      }
+
+      const savedRules = (data || []) as GlucoseAlertRule[];
+      const usersWithRules = new Set(savedRules.map(rule => rule.user_id));
+      const rules: EvaluatedAlertRule[] = [
+        ...savedRules.map(rule => sickDayUsers.has(rule.user_id) ? SickDayService.tightenRule(rule) : rule),
+        ...[...sickDayUsers]
+          .filter(userId => !usersWithRules.has(userId))
+          .map(userId => this.sickDayRule(userId, 'no_data'))
+      ];
+
+      if (rules.length === 0) {
+        return [];
+      }
+
+      const latestTimes = await GlucoseService.getLatestReadingTimes([...new Set(rules.map(rule => rule.user_id))]);
+      const alerts: GlucoseAlert[] = [];
+
+      for (const rule of rules) {
+        const latest = latestTimes.get(rule.user_id);
+        if (!latest) continue;
+
+        const minutesSince = Math.floor((now.getTime() - new Date(latest).getTime()) / 60000);
+        if (minutesSince < rule.threshold) continue;
+
+        const timeZone = await GlucoseService.getTimeZone(rule.user_id);
+        const alert = await this.trigger(rule, null, `No glucose data for ${minutesSince} minutes`, now, timeZone);
+        if (alert) alerts.push(alert);
+      }
+
+      return alerts;
+    } catch (error) {
+      console.error('Error evaluating no-data alert rules:', error);
+      return [];
+    }
+  }
+
+  // Quiet hours are wall-clock times in the user's timezone
+  static isWithinQuietHours(quietHours: QuietHours | null, at: Date, timeZone: string = DEFAULT_TIMEZONE): boolean {
+    if (!quietHours) return false;
+
+    const minutes = minuteOfZonedDay(at, timeZone);
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+    if (start === null || end === null || start === end) return false;
+
+    // Windows such as 22:00-07:00 wrap past midnight
+    return start < end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  }
+
+  // Saved rules with sick-day thresholds, plus a default rule for each sick-day alert type the user
+  // has no enabled rule for
+  private static withSickDayRules(userId: string, enabledRules: GlucoseAlertRule[]): EvaluatedAlertRule[] {
+    const defaults = (Object.keys(SickDayService.ALERT_THRESHOLDS) as GlucoseAlertType[])
+      .filter(type => !enabledRules.some(rule => rule.type === type))
+      .map(type => this.sickDayRule(userId, type));
+
+    return [...enabledRules.map(rule => SickDayService.tightenRule(rule)), ...defaults];
+  }
+
+  // In-app rule at the sick-day threshold, without quiet hours
+  private static sickDayRule(userId: string, type: GlucoseAlertType): EvaluatedAlertRule {
+    return {
+      id: null,
+      user_id: userId,
+      type,
+      threshold: SickDayService.ALERT_THRESHOLDS[type] ?? this.DEFAULT_THRESHOLDS[type],
+      snooze_minutes: this.DEFAULT_SNOOZE_MINUTES[type],
+      quiet_hours: null,
+      channels: ['in_app'],
+      enabled: true
+    };
+  }
+
+  private static matchRule(rule: EvaluatedAlertRule, value: number, rate: number | null, unit: GlucoseUnit): string | null {
+    switch (rule.type) {
+      case 'urgent_low':
+        return value <= rule.threshold ? `Urgent low: glucose is ${formatGlucose(value, unit)}` : null;
+      case 'low':
+        return value < rule.threshold ? `Low: glucose is ${formatGlucose(value, unit)}` : null;
+      case 'high':
+        return value > rule.threshold ? `High: glucose is ${formatGlucose(value, unit)}` : null;
+      case 'rapid_rise':
+        return rate !== null && rate >= rule.threshold ? `Rising fast: ${formatGlucose(rate, unit)} per minute` : null;
+      case 'rapid_fall':
+        return rate !== null && rate <= -rule.threshold ? `Falling fast: ${formatGlucose(Math.abs(rate), unit)} per minute` : null;
+      default:
+        return null;
+    }
+  }
+
+  private static async trigger(
+    rule: EvaluatedAlertRule,
+    value: number | null,
+    message: string,
+    at: Date,
+    timeZone: string
+  ): Promise<GlucoseAlert | null> {
+    if (await this.isSnoozed(rule, at)) {
+      return null;
+    }
+
+    // Urgent lows always break through quiet hours
+    const quiet = rule.type !== 'urgent_low' && this.isWithinQuietHours(rule.quiet_hours, at, timeZone);
+
+    const alert = await this.recordAlert({
+      user_id: rule.user_id,
+      rule_id: rule.id,
+      type: rule.type,
+      value,
+      message,
+      status: quiet ? 'suppressed' : 'delivered',
+      suppressed_reason: quiet ? 'quiet_hours' : null,
+      channels: quiet ? [] : rule.channels,
+      triggered_at: at.toISOString()
+    });
+
+    // In-app alerts reach the glucose stream from the glucose_alerts insert
+    return alert;
+  }
+
+  private static async isSnoozed(rule: EvaluatedAlertRule, at: Date): Promise<boolean> {
+    if (rule.snooze_minutes <= 0) {
+      return false;
+    }
+
+    let query = supabase
+      .from('glucose_alerts')
+      .select('triggered_at')
+      .eq('status', 'delivered')
+      .gte('triggered_at', new Date(at.getTime() - rule.snooze_minutes * 60000).toISOString());
+
+    // Sick-day default rules are not saved, so their alerts are matched by user and type
+    query = rule.id
+      ? query.eq('rule_id', rule.id)
+      : query.eq('user_id', rule.user_id).eq('type', rule.type).is('rule_id', null);
+
+    const { data, error } = await query.limit(1);
+
+    return !error && (data || []).length > 0;
+  }
+
+  private static async recordAlert(alert: Omit<GlucoseAlert, 'id' | 'created_at'>): Promise<GlucoseAlert | null> {
+    try {
+      const { data, error } = await supabase
+        .from('glucose_alerts')
+        .insert([alert])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error recording glucose alert:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error recording glucose alert:', error);
+      return null;
+    }
+  }
+
+  private static async getRateOfChange(reading: GlucoseReading): Promise<number | null> {
+    const readingTime = new Date(reading.timestamp).getTime();
+    const previous = await GlucoseService.getReadingsByDateRange(
+      reading.user_id,
+      new Date(readingTime - this.RATE_WINDOW_MAX_MINUTES * 60000).toISOString(),
+      new Date(readingTime - this.RATE_WINDOW_MIN_MINUTES * 60000).toISOString()
+    );
+
+    // Compare against the most recent plausible reading in the window
+    const reference = previous.filter(candidate => candidate.quality !== 'flagged').pop();
+    if (!reference) {
+      return null;
+    }
+
+    const minutes = (readingTime - new Date(reference.timestamp).getTime()) / 60000;
+    return minutes > 0 ? Math.round(((reading.value - reference.value) / minutes) * 10) / 10 : null;
+  }
+}
+
+function toMinutes(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time || '');
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
@@ -0,0 +1,164 @@
+import {
+  AIAnalysisRequest,
+  ChatFoodLog,
+  ChatUserProfile,
+  DosingProfile,
+  FoodAnalysisLog,
+  GlucoseReading,
+  MealPlan,
+  UserPreferences
+} from '../types';
+import { DEFAULT_TIMEZONE, formatZonedDate, minuteOfZonedDay, parseTimeZone } from '../utils/timezone';
+import { ChatThreadService } from './chatThreadService';
+import { DosingService } from './dosingService';
+import { FoodAnalysisService } from './foodAnalysisService';
+import { GlucoseService } from './glucoseService';
+import { MealPlanningService } from './mealPlanningService';
+
+// All glucose values are in mg/dL
+export type ChatContext = NonNullable<AIAnalysisRequest['glucoseContext']>;
+
+export interface ChatContextSources {
+  readings: GlucoseReading[];
+  foodLogs: FoodAnalysisLog[];
+  mealPlan: MealPlan | null;
+  preferences: UserPreferences | null;
+  dosingProfile: DosingProfile | null;
+  timeZone: string;
+}
+
+export class ChatContextService {
+  // Tokens the user's records may use in the prompt; forecast, on-board and sick-day state are added on top
+  static readonly CONTEXT_TOKEN_BUDGET = 1200;
+  // Without a reading in this window current glucose is unknown
+  static readonly RECENT_READINGS_HOURS = 3;
+  // One reading per interval is enough to show the shape of the recent curve
+  static readonly READING_INTERVAL_MINUTES = 15;
+  static readonly RECENT_FOOD_HOURS = 48;
+  static readonly MAX_FOOD_LOGS = 10;
+
+  // Context from the user's own records; any field the client sends replaces the loaded one
+  static async buildContext(userId: string, override?: ChatContext, now: Date = new Date()): Promise<ChatContext> {
+    const [readings, foodLogs, preferences, dosingProfile] = await Promise.all([
+      GlucoseService.getReadingsByDateRange(
+        userId,
+        new Date(now.getTime() - this.RECENT_READINGS_HOURS * 3600000).toISOString(),
+        now.toISOString()
+      ),
+      FoodAnalysisService.getRecentLogs(
+        userId,
+        new Date(now.getTime() - this.RECENT_FOOD_HOURS * 3600000).toISOString(),
+        this.MAX_FOOD_LOGS
+      ),
+      MealPlanningService.getUserPreferences(userId),
+      DosingService.getProfile(userId)
+    ]);
+
+    // Today's plan is the one for the user's local date
+    const timeZone = parseTimeZone(preferences?.timezone) || DEFAULT_TIMEZONE;
+    const mealPlan = await MealPlanningService.getMealPlan(userId, formatZonedDate(now, timeZone));
+
+    const context = this.assemble({ readings, foodLogs, mealPlan, preferences, dosingProfile, timeZone }, now);
+    const overrides = Object.entries(override || {}).filter(([, value]) => value !== undefined && value !== null);
+
+    return this.fitToBudget({ ...context, ...Object.fromEntries(overrides) });
+  }
+
+  static assemble(sources: ChatContextSources, now: Date): ChatContext {
+    const readings = sources.readings
+      .filter(reading => reading.quality !== 'flagged')
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const latest = readings[readings.length - 1];
+
+    const recentFoodLogs: ChatFoodLog[] = sources.foodLogs.map(log => ({
+      description: (log.analysis_result?.foods || []).map((food: { name: string }) => food.name).join(', ') || 'Logged meal',
+      carbs: Number(log.analysis_result?.totalCarbs) || 0,
+      timestamp: log.created_at
+    }));
+
+    const profile = this.buildProfile(sources.preferences, sources.dosingProfile, minuteOfZonedDay(now, sources.timeZone));
+    const targetRange = sources.preferences?.targetGlucoseRange;
+
+    return {
+      ...(latest ? { currentGlucose: { value: latest.value, trend: latest.trend || 'flat', timestamp: latest.timestamp } } : {}),
+      ...(readings.length > 1
+        ? { recentReadings: this.sampleReadings(readings).map(reading => ({ value: reading.value, timestamp: reading.timestamp })) }
+        : {}),
+      ...(targetRange ? { targetRange } : {}),
+      ...(recentFoodLogs.length > 0 ? { recentFoodLogs } : {}),
+      ...(sources.mealPlan ? { currentMealPlan: this.compactMealPlan(sources.mealPlan) } : {}),
+      ...(Object.keys(profile).length > 0 ? { userProfile: profile } : {})
+    };
+  }
+
+  // Oldest food logs go first, then the oldest readings, then the meal plan; current glucose and the profile stay
+  static fitToBudget(context: ChatContext, budget: number = this.CONTEXT_TOKEN_BUDGET): ChatContext {
+    const fitted: ChatContext = { ...context };
+    const overBudget = () => ChatThreadService.estimateTokens(JSON.stringify(fitted)) > budget;
+
+    // Food logs are newest first and readings oldest first
+    while (overBudget() && fitted.recentFoodLogs && fitted.recentFoodLogs.length > 0) {
+      fitted.recentFoodLogs = fitted.recentFoodLogs.slice(0, -1);
+    }
+    while (overBudget() && fitted.recentReadings && fitted.recentReadings.length > 0) {
+      fitted.recentReadings = fitted.recentReadings.slice(1);
+    }
+    if (overBudget()) {
+      delete fitted.currentMealPlan;
+    }
+
+    return fitted;
+  }
+
+  // Readings at least the interval apart, oldest first, always ending on the latest one
+  static sampleReadings<T extends Pick<GlucoseReading, 'value' | 'timestamp'>>(
+    readings: T[],
+    intervalMinutes: number = this.READING_INTERVAL_MINUTES
+  ): T[] {
+    const sampled: T[] = [];
+    let lastKept = -Infinity;
+
+    readings.forEach((reading, index) => {
+      const time = new Date(reading.timestamp).getTime();
+      if (time - lastKept >= intervalMinutes * 60000 || index === readings.length - 1) {
+        sampled.push(reading);
+        lastKept = time;
+      }
+    });
+
+    return sampled;
+  }
+
+  // Only the parts of the plan the prompt uses
+  static compactMealPlan(mealPlan: MealPlan) {
+    return {
+      date: mealPlan.date,
+      meals: mealPlan.meals.map(meal => ({
+        type: meal.type,
+        time: meal.time,
+        foods: meal.foods.map(food => ({ name: food.name })),
+        totalCarbs: meal.totalCarbs,
+        ...(meal.recommendedInsulin !== undefined ? { recommendedInsulin: meal.recommendedInsulin } : {})
+      })),
+      totalCarbs: mealPlan.totalCarbs,
+      estimatedTimeInRange: mealPlan.estimatedTimeInRange
+    };
+  }
+
+  // The dosing profile's carb ratio for the current time wins over the ratio saved with meal preferences
+  private static buildProfile(
+    preferences: UserPreferences | null,
+    dosingProfile: DosingProfile | null,
+    minute: number
+  ): ChatUserProfile {
+    const carbRatio = dosingProfile ? DosingService.scheduleAt(dosingProfile.carb_ratios, minute)?.value : undefined;
+    const insulinToCarbRatio = carbRatio ? `1:${carbRatio}` : preferences?.insulinToCarbRatio;
+
+    return {
+      ...(insulinToCarbRatio ? { insulinToCarbRatio } : {}),
+      ...(preferences?.targetCarbs ? { targetCarbs: preferences.targetCarbs } : {}),
+      ...(preferences?.preferences?.length ? { preferences: preferences.preferences } : {}),
+      ...(preferences?.restrictions?.length ? { restrictions: preferences.restrictions } : {})
+    };
+  }
+}
@@ -1,6 +1,28 @@
 import { supabase } from '../config/database';
-import { ChatConversation } from '../types';
+import {
+  AIAnalysisRequest,
+  ChatAutoLoggedData,
+  ChatConversation,
+  ChatThread,
+  ChatToolContext,
+  GlucoseUnit,
+  PendingLogItem
+} from '../types';
 import { AIService } from './aiService';
+import { ChatContext, ChatContextService } from './chatContextService';
+import { ChatThreadService } from './chatThreadService';
+import { ChatToolService } from './chatToolService';
+import { GlucoseService } from './glucoseService';
+import { ExtractedLogItem, LogInboxService } from './logInboxService';
+import { OnBoardService } from './onBoardService';
+import { SickDayService } from './sickDayService';
+
+export interface ChatResult {
+  response: string;
+  threadId: string | null;
+  // Entries from the message waiting in the log inbox
+  pendingItems: PendingLogItem[];
+}
 
 export class ChatService {
   static async logConversation(conversation: Omit<ChatConversation, 'id' | 'created_at'>): Promise<ChatConversation | null> {
@@ -21,6 +43,19 @@ export class ChatService {
     }
   }
 
+  static async updateAutoLoggedData(conversationId: string, autoLoggedData: ChatAutoLoggedData): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('chat_conversations')
+        .update({ auto_logged_data: autoLoggedData })
+        .eq('id', conversationId);
+
+      return !error;
+    } catch (error) {
+      return false;
+    }
+  }
+
   static async getConversations(userId: string, limit: number = 50): Promise<ChatConversation[]> {
     try {
       const { data, error } = await supabase
@@ -40,30 +75,165 @@ export class ChatService {
     }
   }
 
+  // Without a thread a new one is started from this message; glucoseContext only overrides the user's stored data
   static async analyzeMessage(
     userId: string,
     message: string,
-    glucoseContext?: any
-  ): Promise<string> {
+    glucoseContext?: ChatContext,
+    unit?: GlucoseUnit,
+    thread?: ChatThread
+  ): Promise<ChatResult> {
+    let threadId = thread?.id ?? null;
+
     try {
+      const prepared = await this.prepareRequest(userId, message, glucoseContext, unit, thread);
+      threadId = prepared.threadId;
+
+      // Log entries in the message are picked out while Michelle answers
+      const extraction = LogInboxService.extractFromMessage(message, prepared.unit);
+
       // Get AI response
-      const aiResponse = await AIService.analyzeMessage({
-        message,
-        glucoseContext
-      });
+      const aiResponse = await AIService.analyzeMessage(prepared.request);
 
-      // Log the conversation
-      await this.logConversation({
-        user_id: userId,
+      const pendingItems = await this.recordTurn(
+        userId,
+        threadId,
         message,
-        ai_response: aiResponse,
-        glucose_context: glucoseContext
-      });
+        aiResponse,
+        prepared.context,
+        [...await extraction, ...prepared.proposals]
+      );
 
-      return aiResponse;
+      return { response: aiResponse, threadId, pendingItems };
     } catch (error) {
-      return 'I apologize, but I\'m having trouble processing your request right now. Please try again later.';
+      return {
+        response: 'I apologize, but I\'m having trouble processing your request right now. Please try again later.',
+        threadId,
+        pendingItems: []
+      };
+    }
+  }
+
+  // Same as analyzeMessage, but the response reaches onText as Claude writes it. The turn is stored
+  // only once the response is complete; failures and aborts reject so the caller can end the stream
+  static async streamMessage(
+    userId: string,
+    message: string,
+    glucoseContext: ChatContext | undefined,
+    unit: GlucoseUnit | undefined,
+    thread: ChatThread | undefined,
+    handlers: {
+      onThread: (threadId: string | null) => void;
+      onText: (text: string) => void;
+      signal?: AbortSignal;
     }
+  ): Promise<ChatResult> {
+    const prepared = await this.prepareRequest(userId, message, glucoseContext, unit, thread);
+    const { threadId } = prepared;
+    handlers.onThread(threadId);
+
+    const extraction = LogInboxService.extractFromMessage(message, prepared.unit);
+    const aiResponse = await AIService.streamMessage(prepared.request, handlers.onText, handlers.signal);
+
+    const pendingItems = await this.recordTurn(
+      userId,
+      threadId,
+      message,
+      aiResponse,
+      prepared.context,
+      [...await extraction, ...prepared.proposals]
+    );
+
+    return { response: aiResponse, threadId, pendingItems };
+  }
+
+  private static async prepareRequest(
+    userId: string,
+    message: string,
+    glucoseContext: ChatContext | undefined,
+    unit: GlucoseUnit | undefined,
+    thread: ChatThread | undefined
+  ): Promise<{
+    request: AIAnalysisRequest;
+    threadId: string | null;
+    context: ChatContext;
+    unit: GlucoseUnit;
+    proposals: ExtractedLogItem[];
+  }> {
+    const resolvedUnit = unit || await GlucoseService.getPreferredUnit(userId);
+    const activeThread = thread || await ChatThreadService.createThread(userId, ChatThreadService.titleFromMessage(message));
+
+    // The user's own records, with anything the client sent taking precedence
+    const context = await ChatContextService.buildContext(userId, glucoseContext);
+
+    // Attach the local forecast so guidance accounts for where glucose is heading,
+    // insulin on board so corrections are not stacked on active insulin,
+    // sick-day status so the prompt switches to sick-day rules,
+    // and earlier turns so Michelle remembers the conversation
+    const [forecast, onBoard, sickDay, history, timeZone, scopes] = await Promise.all([
+      GlucoseService.getForecast(userId),
+      OnBoardService.getOnBoard(userId, new Date(), 0),
+      SickDayService.getStatus(userId, resolvedUnit),
+      activeThread ? ChatThreadService.getHistory(activeThread) : Promise.resolve(null),
+      GlucoseService.getTimeZone(userId),
+      ChatToolService.getScopes(userId)
+    ]);
+
+    // Tools act only for this user; entries Michelle proposes are collected here during the response
+    const tools: ChatToolContext = {
+      userId,
+      unit: resolvedUnit,
+      timeZone,
+      scopes,
+      proposals: []
+    };
+
+    return {
+      request: {
+        message,
+        glucoseContext: {
+          ...context,
+          ...(forecast ? { forecast } : {}),
+          ...(onBoard ? { onBoard } : {}),
+          ...(sickDay?.active ? { sickDay } : {})
+        },
+        unit: resolvedUnit,
+        ...(history ? { history } : {}),
+        tools
+      },
+      threadId: activeThread?.id ?? null,
+      context,
+      unit: resolvedUnit,
+      proposals: tools.proposals
+    };
+  }
+
+  // Store the turn, put the entries found in it into the log inbox and move its thread to the top
+  private static async recordTurn(
+    userId: string,
+    threadId: string | null,
+    message: string,
+    aiResponse: string,
+    context: ChatContext,
+    extracted: ExtractedLogItem[]
+  ): Promise<PendingLogItem[]> {
+    // Log the conversation
+    const conversation = await this.logConversation({
+      user_id: userId,
+      thread_id: threadId,
+      message,
+      ai_response: aiResponse,
+      glucose_context: context
+    });
+
+    // The same entry can be both picked out of the message and proposed by Michelle
+    const pendingItems = await LogInboxService.addItems(userId, conversation?.id ?? null, LogInboxService.dedupe(extracted));
+
+    if (threadId && conversation) {
+      await ChatThreadService.updateThread(threadId, { last_message_at: conversation.created_at });
+    }
+
+    return pendingItems;
   }
 
   static async analyzeGlucosePatterns(_userId: string, readings: any[]): Promise<string> {
@@ -0,0 +1,179 @@
+import { supabase } from '../config/database';
+import { ChatConversation, ChatHistory, ChatThread, ChatTurn } from '../types';
+import { AIService } from './aiService';
+
+export type NewChatThread = Omit<ChatThread, 'id' | 'created_at' | 'updated_at'>;
+
+export class ChatThreadService {
+  static readonly MAX_TITLE_LENGTH = 100;
+  // Prior turns replayed into each request; once over budget, older turns are folded into the summary
+  // and only the recent budget is kept so summarizing is not needed on every message
+  static readonly HISTORY_TOKEN_BUDGET = 4000;
+  static readonly RECENT_TOKEN_BUDGET = 2000;
+  private static readonly MAX_REPLAYED_TURNS = 200;
+
+  // Rough count for budgeting; Claude averages about four characters per token in English
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  // Title for a thread started from its first message
+  static titleFromMessage(message: string): string {
+    const title = message.replace(/\s+/g, ' ').trim();
+    return title.length > 60 ? `${title.slice(0, 57)}...` : title || 'New conversation';
+  }
+
+  static async getThreads(userId: string, archived: boolean = false, limit: number = 50): Promise<ChatThread[]> {
+    try {
+      const query = supabase
+        .from('chat_threads')
+        .select('*')
+        .eq('user_id', userId);
+
+      const { data, error } = await (archived ? query.not('archived_at', 'is', null) : query.is('archived_at', null))
+        .order('last_message_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  static async getThread(threadId: string): Promise<ChatThread | null> {
+    try {
+      const { data, error } = await supabase
+        .from('chat_threads')
+        .select('*')
+        .eq('id', threadId)
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async createThread(userId: string, title: string): Promise<ChatThread | null> {
+    try {
+      const thread: NewChatThread = {
+        user_id: userId,
+        title,
+        summary: null,
+        summarized_through: null,
+        last_message_at: new Date().toISOString(),
+        archived_at: null
+      };
+
+      const { data, error } = await supabase
+        .from('chat_threads')
+        .insert([thread])
+        .select()
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async updateThread(threadId: string, updates: Partial<NewChatThread>): Promise<ChatThread | null> {
+    try {
+      const { data, error } = await supabase
+        .from('chat_threads')
+        .update(updates)
+        .eq('id', threadId)
+        .select()
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Turns in a thread, oldest first; only those after `after` when given
+  static async getTurns(threadId: string, after: string | null = null, limit: number = this.MAX_REPLAYED_TURNS): Promise<ChatConversation[]> {
+    try {
+      let query = supabase
+        .from('chat_conversations')
+        .select('id, user_id, thread_id, message, ai_response, auto_logged_data, created_at')
+        .eq('thread_id', threadId);
+
+      if (after) {
+        query = query.gt('created_at', after);
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        return [];
+      }
+
+      return (data || []).reverse();
+    } catch (error) {
+      return [];
+    }
+  }
+
+  // Summary plus the most recent turns that fit the token budget
+  static async getHistory(thread: ChatThread): Promise<ChatHistory> {
+    const turns = await this.getTurns(thread.id, thread.summarized_through);
+    const window = this.fitToBudget(turns, this.HISTORY_TOKEN_BUDGET);
+
+    if (window.length === turns.length) {
+      return { summary: thread.summary, turns: window.map(toTurn) };
+    }
+
+    const recent = this.fitToBudget(turns, this.RECENT_TOKEN_BUDGET);
+    const older = turns.slice(0, turns.length - recent.length);
+    const lastFolded = older[older.length - 1];
+    const summary = await AIService.summarizeConversation(thread.summary, older.map(toTurn));
+
+    // Without a new summary the budgeted window still goes out; older turns are left for the next attempt
+    if (!summary || !lastFolded) {
+      return { summary: thread.summary, turns: window.map(toTurn) };
+    }
+
+    await this.updateThread(thread.id, { summary, summarized_through: lastFolded.created_at });
+    return { summary, turns: recent.map(toTurn) };
+  }
+
+  // Newest turns whose combined size fits the budget, oldest first
+  private static fitToBudget(turns: ChatConversation[], budget: number): ChatConversation[] {
+    let used = 0;
+    let start = turns.length;
+
+    while (start > 0) {
+      const turn = turns[start - 1] as ChatConversation;
+      const tokens = this.estimateTokens(turn.message) + this.estimateTokens(turn.ai_response || '');
+      if (used + tokens > budget) break;
+      used += tokens;
+      start--;
+    }
+
+    return turns.slice(start);
+  }
+}
+
+function toTurn(conversation: ChatConversation): ChatTurn {
+  return { message: conversation.message, response: conversation.ai_response || '' };
+}
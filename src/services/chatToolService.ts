@@ -0,0 +1,281 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { ChatToolContext, ChatToolScope } from '../types';
+import { convertReading, convertStats, convertTagStats } from '../utils/glucoseUnits';
+import { formatZonedDate, getZonedParts, parseZonedDate, resolveDateBound } from '../utils/timezone';
+import { ChatContextService } from './chatContextService';
+import { GlucoseService } from './glucoseService';
+import { LogInboxService } from './logInboxService';
+import { MealPlanningService } from './mealPlanningService';
+
+type ToolOutcome = { result?: unknown; error?: string };
+
+interface ChatTool {
+  definition: Anthropic.Tool;
+  scope: ChatToolScope;
+  run: (input: Record<string, unknown>, context: ChatToolContext, now: Date) => Promise<ToolOutcome>;
+}
+
+// Local date-time without seconds, e.g. 2024-03-02 07:45
+const formatLocalTime = (timestamp: string, timeZone: string): string => {
+  const { hour, minute } = getZonedParts(new Date(timestamp), timeZone);
+  return `${formatZonedDate(new Date(timestamp), timeZone)} ${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+};
+
+export class ChatToolService {
+  static readonly READ_SCOPES: ChatToolScope[] = ['glucose:read', 'meals:read'];
+  static readonly MAX_STATS_DAYS = 90;
+  static readonly MAX_READING_HOURS = 24;
+  static readonly MAX_PROPOSALS_PER_TURN = 5;
+  private static readonly MAX_FOOD_RESULTS = 10;
+  private static readonly MAX_QUERY_LENGTH = 100;
+  // Longer windows are sampled so a day of CGM data stays a readable size
+  private static readonly SAMPLE_AFTER_HOURS = 6;
+
+  // Every tool only ever reads or proposes for context.userId; no tool takes a user from Claude
+  private static readonly TOOLS: ChatTool[] = [
+    {
+      scope: 'glucose:read',
+      definition: {
+        name: 'get_glucose_stats',
+        description: 'Glucose statistics for whole local days: average, time in range bands, variability and episode counts, plus a breakdown by context tag such as overnight (00:00-06:00), fasting, pre-meal and post-meal. Use it for questions about a past day, week or month.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            start_date: { type: 'string', description: 'First local day, YYYY-MM-DD' },
+            end_date: { type: 'string', description: 'Last local day, YYYY-MM-DD, included' }
+          },
+          required: ['start_date', 'end_date']
+        }
+      },
+      run: (input, context, now) => ChatToolService.getGlucoseStats(input, context, now)
+    },
+    {
+      scope: 'glucose:read',
+      definition: {
+        name: 'get_recent_readings',
+        description: 'The user\'s glucose readings from the last few hours, oldest first, with local times and trends.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            hours: { type: 'number', description: 'How many hours back, 1 to 24; defaults to 3' }
+          }
+        }
+      },
+      run: (input, context, now) => ChatToolService.getRecentReadings(input, context, now)
+    },
+    {
+      scope: 'meals:read',
+      definition: {
+        name: 'get_meal_plan',
+        description: 'The user\'s saved meal plan for a local day: meals with times, foods, carbs and recommended insulin.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            date: { type: 'string', description: 'Local day, YYYY-MM-DD; defaults to today' }
+          }
+        }
+      },
+      run: (input, context, now) => ChatToolService.getMealPlan(input, context, now)
+    },
+    {
+      scope: 'meals:read',
+      definition: {
+        name: 'search_foods',
+        description: 'Search the food database by name or category for carbs per 100g, portion size and glycemic index.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'Food name or category, e.g. "oats" or "fruit"' }
+          },
+          required: ['query']
+        }
+      },
+      run: input => ChatToolService.searchFoods(input)
+    },
+    {
+      scope: 'logs:propose',
+      definition: {
+        name: 'propose_log_entry',
+        description: 'Put a glucose reading, food, insulin dose or activity into the user\'s log inbox. Nothing is saved until the user confirms it there. Use it only for things the user says already happened.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: ['glucose', 'food', 'insulin', 'activity'] },
+            value: { type: 'number', description: 'Glucose, in the user\'s unit' },
+            description: { type: 'string', description: 'Food eaten' },
+            carbs: { type: 'number', description: 'Food carbs in grams; estimate when not stated' },
+            meal_type: { type: 'string', enum: ['breakfast', 'lunch', 'dinner', 'snack'] },
+            units: { type: 'number', description: 'Insulin units' },
+            dose_type: { type: 'string', enum: ['bolus', 'basal'] },
+            activity_type: { type: 'string', enum: ['walking', 'running', 'cycling', 'swimming', 'strength', 'yoga', 'sports', 'other'] },
+            duration_minutes: { type: 'number' },
+            intensity: { type: 'string', enum: ['low', 'moderate', 'high'] },
+            minutes_ago: { type: 'number', description: 'How long ago it happened (for an activity, when it ended); 0 for now' },
+            text: { type: 'string', description: 'The user\'s words the entry comes from' }
+          },
+          required: ['type']
+        }
+      },
+      run: async (input, context, now) => ChatToolService.proposeLogEntry(input, context, now)
+    }
+  ];
+
+  // Every chat can read; proposing log entries needs the user's chatLogProposals preference
+  static async getScopes(userId: string): Promise<ChatToolScope[]> {
+    const preferences = await MealPlanningService.getUserPreferences(userId);
+    return preferences?.chatLogProposals ? [...this.READ_SCOPES, 'logs:propose'] : this.READ_SCOPES;
+  }
+
+  // Definitions of the tools the context is allowed to use
+  static definitions(context: ChatToolContext): Anthropic.Tool[] {
+    return this.TOOLS
+      .filter(tool => context.scopes.includes(tool.scope))
+      .map(tool => tool.definition);
+  }
+
+  // Run a tool call from Claude; never rejects, so an error goes back to Claude as the tool result
+  static async execute(
+    name: string,
+    input: unknown,
+    context: ChatToolContext,
+    now: Date = new Date()
+  ): Promise<{ content: string; isError: boolean }> {
+    const tool = this.TOOLS.find(candidate => candidate.definition.name === name);
+
+    // Claude only sees allowed tools, but the call is checked again before it runs
+    if (!tool || !context.scopes.includes(tool.scope)) {
+      return { content: `Tool ${name} is not available`, isError: true };
+    }
+
+    try {
+      const args = input && typeof input === 'object' ? input as Record<string, unknown> : {};
+      const { result, error } = await tool.run(args, context, now);
+
+      return error
+        ? { content: error, isError: true }
+        : { content: JSON.stringify(result), isError: false };
+    } catch (error) {
+      console.error(`Error running chat tool ${name}:`, error);
+      return { content: 'The data could not be loaded right now', isError: true };
+    }
+  }
+
+  private static async getGlucoseStats(input: Record<string, unknown>, context: ChatToolContext, now: Date): Promise<ToolOutcome> {
+    const startDay = typeof input['start_date'] === 'string' ? parseZonedDate(input['start_date'], context.timeZone) : null;
+    const endDay = typeof input['end_date'] === 'string' ? parseZonedDate(input['end_date'], context.timeZone) : null;
+
+    if (!startDay || !endDay) {
+      return { error: 'start_date and end_date must be dates in YYYY-MM-DD format' };
+    }
+    if (startDay > endDay) {
+      return { error: 'start_date must not be after end_date' };
+    }
+    if (startDay > now) {
+      return { error: 'start_date cannot be in the future' };
+    }
+
+    const startDate = startDay.toISOString();
+    const dayEnd = resolveDateBound(input['end_date'] as string, context.timeZone, true) as string;
+    // Today's stats run up to now
+    const endDate = new Date(Math.min(new Date(dayEnd).getTime(), now.getTime())).toISOString();
+
+    if (new Date(endDate).getTime() - new Date(startDate).getTime() > this.MAX_STATS_DAYS * 86400000) {
+      return { error: `The range cannot be longer than ${this.MAX_STATS_DAYS} days` };
+    }
+
+    const [stats, tagStats] = await Promise.all([
+      GlucoseService.getStatsForRange(context.userId, new Date(startDate), new Date(endDate)),
+      GlucoseService.getTagStats(context.userId, startDate, endDate, context.timeZone)
+    ]);
+
+    if (!stats) {
+      return { result: { start_date: input['start_date'], end_date: input['end_date'], readings: 0 } };
+    }
+
+    return {
+      result: {
+        start_date: input['start_date'],
+        end_date: input['end_date'],
+        unit: context.unit,
+        stats: convertStats(stats, context.unit),
+        ...(tagStats ? { by_tag: convertTagStats(tagStats, context.unit).byTag } : {})
+      }
+    };
+  }
+
+  private static async getRecentReadings(input: Record<string, unknown>, context: ChatToolContext, now: Date): Promise<ToolOutcome> {
+    const hours = input['hours'] === undefined ? ChatContextService.RECENT_READINGS_HOURS : input['hours'];
+
+    if (typeof hours !== 'number' || !(hours >= 1) || hours > this.MAX_READING_HOURS) {
+      return { error: `hours must be a number from 1 to ${this.MAX_READING_HOURS}` };
+    }
+
+    const readings = (await GlucoseService.getReadingsByDateRange(
+      context.userId,
+      new Date(now.getTime() - hours * 3600000).toISOString(),
+      now.toISOString()
+    )).filter(reading => reading.quality !== 'flagged');
+
+    const shown = hours > this.SAMPLE_AFTER_HOURS ? ChatContextService.sampleReadings(readings) : readings;
+
+    return {
+      result: {
+        unit: context.unit,
+        readings: shown.map(reading => ({
+          value: convertReading(reading, context.unit).value,
+          time: formatLocalTime(reading.timestamp, context.timeZone),
+          ...(reading.trend ? { trend: reading.trend } : {})
+        }))
+      }
+    };
+  }
+
+  private static async getMealPlan(input: Record<string, unknown>, context: ChatToolContext, now: Date): Promise<ToolOutcome> {
+    const date = input['date'] === undefined ? formatZonedDate(now, context.timeZone) : input['date'];
+
+    if (typeof date !== 'string' || !parseZonedDate(date, context.timeZone)) {
+      return { error: 'date must be a date in YYYY-MM-DD format' };
+    }
+
+    const mealPlan = await MealPlanningService.getMealPlan(context.userId, date);
+
+    return { result: mealPlan ? ChatContextService.compactMealPlan(mealPlan) : { date, meals: [] } };
+  }
+
+  private static async searchFoods(input: Record<string, unknown>): Promise<ToolOutcome> {
+    const query = input['query'];
+
+    if (typeof query !== 'string' || !query.trim() || query.length > this.MAX_QUERY_LENGTH) {
+      return { error: `query must be a non-empty string of at most ${this.MAX_QUERY_LENGTH} characters` };
+    }
+
+    const foods = await MealPlanningService.searchFoods(query.trim());
+
+    return {
+      result: foods.slice(0, this.MAX_FOOD_RESULTS).map(food => ({
+        name: food.name,
+        carbsPer100g: food.carbsPer100g,
+        portionSize: food.portionSize,
+        ...(food.glycemicIndex !== undefined ? { glycemicIndex: food.glycemicIndex } : {}),
+        categories: food.categories
+      }))
+    };
+  }
+
+  // Collected on the context; the chat turn puts proposals into the log inbox once it is stored
+  private static proposeLogEntry(input: Record<string, unknown>, context: ChatToolContext, now: Date): ToolOutcome {
+    if (context.proposals.length >= this.MAX_PROPOSALS_PER_TURN) {
+      return { error: `No more than ${this.MAX_PROPOSALS_PER_TURN} entries can be proposed per message` };
+    }
+
+    const { item, error } = LogInboxService.fromExtraction(input, context.unit, now);
+
+    if (!item) {
+      return { error: error || 'Invalid entry' };
+    }
+
+    context.proposals.push(item);
+
+    return { result: { status: 'pending_confirmation', item_type: item.item_type } };
+  }
+}
@@ -0,0 +1,134 @@
+import { DosingProfile, GlucoseTrend } from '../types';
+import { DosingService } from './dosingService';
+
+// Only the pure calculations are tested; the food log client is not needed
+jest.mock('./foodAnalysisService', () => ({ FoodAnalysisService: {} }));
+
+const PROFILE: DosingProfile = {
+  id: 'profile-1',
+  user_id: 'user-1',
+  carb_ratios: [{ start: '11:00', value: 8 }, { start: '00:00', value: 10 }],
+  correction_factors: [{ start: '00:00', value: 50 }],
+  targets: [{ start: '00:00', low: 100, high: 120 }],
+  max_bolus: 10,
+  dose_increment: 0.5,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z'
+};
+
+const NOON = new Date('2024-01-01T12:00:00Z');
+
+const bolus = (input: { carbs?: number; glucose?: number | null; trend?: GlucoseTrend | null; insulinOnBoard?: number; at?: Date; timeZone?: string }) =>
+  DosingService.calculate(PROFILE, {
+    carbs: input.carbs ?? 0,
+    glucose: input.glucose === undefined ? 110 : input.glucose,
+    trend: input.trend ?? null,
+    insulinOnBoard: input.insulinOnBoard ?? 0,
+    at: input.at ?? NOON,
+    ...(input.timeZone ? { timeZone: input.timeZone } : {})
+  }, 'mg/dL');
+
+const terms = (calculation: ReturnType<typeof bolus>) =>
+  Object.fromEntries(calculation.breakdown.map(term => [term.type, term.units]));
+
+describe('DosingService.scheduleAt', () => {
+  const schedule = [{ start: '18:00', value: 2 }, { start: '06:00', value: 1 }];
+
+  it('picks the entry in effect at the minute', () => {
+    expect(DosingService.scheduleAt(schedule, 6 * 60)?.value).toBe(1);
+    expect(DosingService.scheduleAt(schedule, 17 * 60 + 59)?.value).toBe(1);
+    expect(DosingService.scheduleAt(schedule, 20 * 60)?.value).toBe(2);
+  });
+
+  it('carries the last entry past midnight', () => {
+    expect(DosingService.scheduleAt(schedule, 3 * 60)?.value).toBe(2);
+  });
+});
+
+describe('DosingService.carbDose', () => {
+  it('rounds down to the increment and caps at the max bolus', () => {
+    expect(DosingService.carbDose(PROFILE, 45, 12 * 60)).toBe(5.5);
+    expect(DosingService.carbDose(PROFILE, 200, 12 * 60)).toBe(10);
+    expect(DosingService.carbDose(PROFILE, 0, 12 * 60)).toBe(0);
+  });
+});
+
+describe('DosingService.calculate', () => {
+  it('uses the carb ratio in effect at the local time', () => {
+    expect(bolus({ carbs: 60 }).recommendedUnits).toBe(7.5);
+    expect(bolus({ carbs: 60, at: new Date('2024-01-01T08:00:00Z') }).recommendedUnits).toBe(6);
+    // 12:00 UTC is 04:00 in Los Angeles, before the 11:00 ratio starts
+    expect(bolus({ carbs: 60, timeZone: 'America/Los_Angeles' }).carbRatio).toBe(10);
+  });
+
+  it('corrects towards the middle of the target range', () => {
+    const calculation = bolus({ glucose: 210 });
+
+    expect(terms(calculation)).toEqual({ carbs: 0, correction: 2 });
+    expect(calculation.recommendedUnits).toBe(2);
+    expect(bolus({ glucose: 119 }).recommendedUnits).toBe(0);
+  });
+
+  it('offsets corrections with insulin on board but never the carb dose', () => {
+    const correction = bolus({ carbs: 60, glucose: 210, insulinOnBoard: 3 });
+    const inRange = bolus({ carbs: 60, glucose: 110, insulinOnBoard: 3 });
+
+    expect(terms(correction)).toEqual({ carbs: 7.5, correction: 2, insulin_on_board: -2 });
+    expect(correction.recommendedUnits).toBe(7.5);
+    expect(terms(inRange)).toEqual({ carbs: 7.5, correction: 0, insulin_on_board: 0 });
+    expect(inRange.recommendedUnits).toBe(7.5);
+  });
+
+  it('adds insulin for the glucose the trend arrow points to', () => {
+    const calculation = bolus({ carbs: 60, trend: 'singleUp' });
+
+    // 2.5 mg/dL per minute for 30 minutes, at 50 mg/dL per unit
+    expect(calculation.projectedGlucose).toBe(185);
+    expect(terms(calculation)).toEqual({ carbs: 7.5, correction: 0, trend: 1.5 });
+    expect(calculation.recommendedUnits).toBe(9);
+  });
+
+  it('recommends nothing when glucose is low or heading low', () => {
+    const low = bolus({ carbs: 60, glucose: 65 });
+    const falling = bolus({ carbs: 60, glucose: 100, trend: 'doubleDown' });
+
+    expect(low.recommendedUnits).toBe(0);
+    expect(terms(low)['low_glucose']).toBe(-low.calculatedUnits);
+    expect(low.warnings[0]).toMatch(/treat the low before taking insulin/);
+    expect(falling.projectedGlucose).toBe(-5);
+    expect(falling.recommendedUnits).toBe(0);
+  });
+
+  it('rounds down to the dose increment', () => {
+    const calculation = bolus({ carbs: 45 });
+
+    expect(calculation.calculatedUnits).toBe(5.63);
+    expect(calculation.recommendedUnits).toBe(5.5);
+    expect(terms(calculation)['rounding']).toBe(-0.13);
+  });
+
+  it('caps the dose at the max bolus', () => {
+    const calculation = bolus({ carbs: 120 });
+
+    expect(calculation.recommendedUnits).toBe(10);
+    expect(calculation.capped).toBe(true);
+    expect(terms(calculation)['max_bolus']).toBe(-5);
+    expect(calculation.warnings).toEqual(['The calculated dose is above your max bolus of 10 units']);
+  });
+
+  it('covers carbs only without a recent reading', () => {
+    const calculation = bolus({ carbs: 60, glucose: null, insulinOnBoard: 2 });
+
+    expect(terms(calculation)).toEqual({ carbs: 7.5 });
+    expect(calculation.recommendedUnits).toBe(7.5);
+    expect(calculation.warnings).toEqual(['No glucose reading from the last 15 minutes; the dose covers carbs only']);
+  });
+
+  it('explains each term in the requested unit', () => {
+    const calculation = DosingService.calculate(PROFILE, {
+      carbs: 0, glucose: 210, trend: null, insulinOnBoard: 0, at: NOON
+    }, 'mmol/L');
+
+    expect(calculation.breakdown[1]?.explanation).toBe('(11.7 mmol/L − target 6.1 mmol/L) ÷ correction factor 2.8 mmol/L per unit = 2 units');
+  });
+});
@@ -0,0 +1,278 @@
+import { supabase } from '../config/database';
+import {
+  BolusCalculation,
+  BolusTerm,
+  DosingProfile,
+  DosingScheduleEntry,
+  DosingTargetEntry,
+  GlucoseTrend,
+  GlucoseUnit
+} from '../types';
+import { formatGlucose, fromMgdl } from '../utils/glucoseUnits';
+import { DEFAULT_TIMEZONE, minuteOfZonedDay } from '../utils/timezone';
+import { GlucoseForecastService } from './glucoseForecastService';
+import { GlucoseService } from './glucoseService';
+import { OnBoardService } from './onBoardService';
+
+export type NewDosingProfile = Omit<DosingProfile, 'id' | 'created_at' | 'updated_at'>;
+
+export interface BolusInput {
+  carbs: number;
+  // mg/dL; when omitted the latest reading from the last 15 minutes is used
+  glucose?: number;
+  trend?: GlucoseTrend;
+  at?: Date;
+}
+
+export class DosingService {
+  static readonly DOSE_INCREMENTS = [0.05, 0.1, 0.5, 1];
+  static readonly DEFAULT_DOSE_INCREMENT = 0.5;
+  // Below this no bolus is recommended; the low has to be treated first
+  static readonly LOW_GLUCOSE = 70;
+  // The trend arrow is projected this far ahead
+  static readonly TREND_MINUTES = 30;
+  private static readonly MAX_READING_AGE_MINUTES = 15;
+
+  static async getProfile(userId: string): Promise<DosingProfile | null> {
+    try {
+      const { data, error } = await supabase
+        .from('dosing_profiles')
+        .select('*')
+        .eq('user_id', userId)
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async saveProfile(profile: NewDosingProfile): Promise<DosingProfile | null> {
+    try {
+      const { data, error } = await supabase
+        .from('dosing_profiles')
+        .upsert([profile], { onConflict: 'user_id' })
+        .select()
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Minute of the day for an HH:MM time
+  static timeToMinute(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return (hours || 0) * 60 + (minutes || 0);
+  }
+
+  // The entry in effect at a minute of the local day; before the first start the last entry still applies
+  static scheduleAt<T extends { start: string }>(schedule: T[], minute: number): T | undefined {
+    const sorted = [...schedule].sort((a, b) => this.timeToMinute(a.start) - this.timeToMinute(b.start));
+    return [...sorted].reverse().find(entry => this.timeToMinute(entry.start) <= minute) || sorted[sorted.length - 1];
+  }
+
+  // Carb-only dose for a meal at a local minute of the day, rounded to the profile's increment
+  static carbDose(profile: DosingProfile, carbs: number, minute: number): number {
+    const ratio = this.scheduleAt(profile.carb_ratios, minute)?.value;
+    if (!ratio || carbs <= 0) {
+      return 0;
+    }
+    return Math.min(roundDown(carbs / ratio, profile.dose_increment), profile.max_bolus);
+  }
+
+  // null when the user has no dosing profile
+  static async estimateCarbDose(userId: string, carbs: number, at: Date = new Date()): Promise<number | null> {
+    const profile = await this.getProfile(userId);
+    if (!profile) {
+      return null;
+    }
+    const timeZone = await GlucoseService.getTimeZone(userId);
+    return this.carbDose(profile, carbs, minuteOfZonedDay(at, timeZone));
+  }
+
+  static async calculateBolus(userId: string, input: BolusInput, unit: GlucoseUnit): Promise<BolusCalculation | null> {
+    const profile = await this.getProfile(userId);
+    if (!profile) {
+      return null;
+    }
+
+    const at = input.at || new Date();
+    const [timeZone, onBoard] = await Promise.all([
+      GlucoseService.getTimeZone(userId),
+      OnBoardService.getOnBoard(userId, at, 0)
+    ]);
+
+    let glucose = input.glucose ?? null;
+    let trend = input.trend ?? null;
+    if (glucose === null) {
+      const latest = (await GlucoseService.getReadings(userId, 5)).find(reading => reading.quality !== 'flagged');
+      const age = latest ? (at.getTime() - new Date(latest.timestamp).getTime()) / 60000 : Infinity;
+      if (latest && age >= 0 && age <= this.MAX_READING_AGE_MINUTES) {
+        glucose = latest.value;
+        trend = trend ?? latest.trend ?? null;
+      }
+    }
+
+    return this.calculate(profile, {
+      carbs: input.carbs,
+      glucose,
+      trend,
+      insulinOnBoard: onBoard?.iob ?? 0,
+      at,
+      timeZone
+    }, unit);
+  }
+
+  // Follows the common pump rule: IOB offsets correction and trend insulin but is never taken off the carb dose
+  static calculate(
+    profile: DosingProfile,
+    input: {
+      carbs: number;
+      glucose: number | null;
+      trend: GlucoseTrend | null;
+      insulinOnBoard: number;
+      at: Date;
+      timeZone?: string;
+    },
+    unit: GlucoseUnit
+  ): BolusCalculation {
+    const timeZone = input.timeZone || DEFAULT_TIMEZONE;
+    const minute = minuteOfZonedDay(input.at, timeZone);
+    const carbRatio = (this.scheduleAt(profile.carb_ratios, minute) as DosingScheduleEntry).value;
+    const correctionFactor = (this.scheduleAt(profile.correction_factors, minute) as DosingScheduleEntry).value;
+    const targetEntry = this.scheduleAt(profile.targets, minute) as DosingTargetEntry;
+    const target = { low: targetEntry.low, high: targetEntry.high };
+    const targetMid = (target.low + target.high) / 2;
+    const isf = `${fromMgdl(correctionFactor, unit)} ${unit} per unit`;
+
+    const breakdown: BolusTerm[] = [];
+    const warnings: string[] = [];
+    let lowRisk = false;
+
+    const carbUnits = round2(input.carbs / carbRatio);
+    breakdown.push({
+      type: 'carbs',
+      units: carbUnits,
+      explanation: input.carbs > 0
+        ? `${input.carbs}g carbs ÷ carb ratio 1:${carbRatio} = ${carbUnits} units`
+        : 'No carbs entered'
+    });
+
+    const trendRate = input.trend ? GlucoseForecastService.TREND_RATES[input.trend] : undefined;
+    const trendChange = input.glucose !== null && trendRate ? Math.round(trendRate * this.TREND_MINUTES) : 0;
+    const projectedGlucose = input.glucose !== null ? input.glucose + trendChange : null;
+
+    if (input.glucose === null || projectedGlucose === null) {
+      warnings.push('No glucose reading from the last 15 minutes; the dose covers carbs only');
+    } else {
+      const inRange = input.glucose >= target.low && input.glucose <= target.high;
+      const correctionUnits = inRange ? 0 : round2((input.glucose - targetMid) / correctionFactor);
+      breakdown.push({
+        type: 'correction',
+        units: correctionUnits,
+        explanation: inRange
+          ? `Glucose ${formatGlucose(input.glucose, unit)} is within target ${rangeText(target, unit)}; no correction`
+          : `(${formatGlucose(input.glucose, unit)} − target ${formatGlucose(Math.round(targetMid), unit)}) ÷ correction factor ${isf} = ${correctionUnits} units`
+      });
+
+      if (trendChange !== 0) {
+        const trendUnits = round2(trendChange / correctionFactor);
+        breakdown.push({
+          type: 'trend',
+          units: trendUnits,
+          explanation: `Trend ${input.trend} suggests ${trendChange > 0 ? '+' : '−'}${formatGlucose(Math.abs(trendChange), unit)} over ${this.TREND_MINUTES} minutes ÷ ${isf} = ${trendUnits} units`
+        });
+      }
+
+      const correctiveUnits = correctionUnits + (trendChange !== 0 ? round2(trendChange / correctionFactor) : 0);
+      if (input.insulinOnBoard > 0 && correctiveUnits > 0) {
+        const offset = round2(Math.min(input.insulinOnBoard, correctiveUnits));
+        breakdown.push({
+          type: 'insulin_on_board',
+          units: -offset,
+          explanation: `${input.insulinOnBoard} units of insulin on board offset the correction by ${offset} units`
+        });
+      } else if (input.insulinOnBoard > 0) {
+        breakdown.push({
+          type: 'insulin_on_board',
+          units: 0,
+          explanation: `${input.insulinOnBoard} units of insulin on board; not subtracted from the carb dose`
+        });
+      }
+
+      lowRisk = input.glucose < this.LOW_GLUCOSE || projectedGlucose < this.LOW_GLUCOSE;
+      if (lowRisk) {
+        warnings.push(`Glucose is or is heading below ${formatGlucose(this.LOW_GLUCOSE, unit)}; treat the low before taking insulin`);
+      }
+    }
+
+    const calculatedUnits = round2(Math.max(0, breakdown.reduce((sum, term) => sum + term.units, 0)));
+    let recommendedUnits = lowRisk ? 0 : roundDown(calculatedUnits, profile.dose_increment);
+
+    if (lowRisk && calculatedUnits > 0) {
+      breakdown.push({
+        type: 'low_glucose',
+        units: -calculatedUnits,
+        explanation: `No insulin while glucose is below ${formatGlucose(this.LOW_GLUCOSE, unit)} or falling there`
+      });
+    } else if (recommendedUnits !== calculatedUnits) {
+      breakdown.push({
+        type: 'rounding',
+        units: round2(recommendedUnits - calculatedUnits),
+        explanation: `Rounded down to the ${profile.dose_increment}-unit dose increment`
+      });
+    }
+
+    const capped = recommendedUnits > profile.max_bolus;
+    if (capped) {
+      breakdown.push({
+        type: 'max_bolus',
+        units: round2(profile.max_bolus - recommendedUnits),
+        explanation: `Capped at the max bolus of ${profile.max_bolus} units`
+      });
+      warnings.push(`The calculated dose is above your max bolus of ${profile.max_bolus} units`);
+      recommendedUnits = profile.max_bolus;
+    }
+
+    return {
+      at: input.at.toISOString(),
+      timeZone,
+      carbs: input.carbs,
+      glucose: input.glucose,
+      trend: input.trend,
+      projectedGlucose,
+      insulinOnBoard: input.insulinOnBoard,
+      carbRatio,
+      correctionFactor,
+      target,
+      calculatedUnits,
+      recommendedUnits,
+      capped,
+      breakdown,
+      warnings
+    };
+  }
+}
+
+function rangeText(range: { low: number; high: number }, unit: GlucoseUnit): string {
+  return `${fromMgdl(range.low, unit)}-${fromMgdl(range.high, unit)} ${unit}`;
+}
+
+// Doses are rounded down so rounding never adds insulin
+function roundDown(value: number, increment: number): number {
+  return round2(Math.floor(round2(value / increment) + 1e-9) * increment);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -1,5 +1,7 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { createClient } from '@supabase/supabase-js';
+import { CarbEntry, FoodAnalysisLog } from '../types';
+import { DosingService } from './dosingService';
 
 const anthropic = new Anthropic({
   apiKey: process.env['CLAUDE_API_KEY'] || 'mock-claude-api-key',
@@ -28,6 +30,7 @@ export interface FoodAnalysisResult {
   totalCalories?: number;
   overallConfidence: number;
   suggestions: string[];
+  // Carb dose from the user's dosing profile; omitted without one
   estimatedInsulin?: number;
   mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
 }
@@ -87,7 +90,6 @@ Return a JSON object with this exact structure:
     "diabetes management suggestion 1",
     "diabetes management suggestion 2"
   ],
-  "estimatedInsulin": number (optional, based on typical 1:15 ratio),
   "mealType": "breakfast|lunch|dinner|snack"
 }
 
@@ -168,6 +170,16 @@ Analyze the provided food image and return the JSON response.`;
             
             // Validate and clean up the result
             const validatedResult = this.validateAndCleanResult(analysisResult);
+
+            // Insulin is only estimated from the user's own carb ratio
+            const estimatedInsulin = userId && validatedResult.totalCarbs > 0
+              ? await DosingService.estimateCarbDose(userId, validatedResult.totalCarbs)
+              : null;
+            if (estimatedInsulin !== null) {
+              validatedResult.estimatedInsulin = estimatedInsulin;
+            } else if (validatedResult.totalCarbs > 0) {
+              validatedResult.suggestions.push('Set up your dosing profile to get an insulin estimate based on your carb ratio');
+            }
             
             // Log the analysis for debugging
             console.log('Food analysis completed:', {
@@ -257,11 +269,6 @@ Analyze the provided food image and return the JSON response.`;
       ];
     }
 
-    // Estimate insulin if not provided (using 1:15 ratio as default)
-    if (!validated.estimatedInsulin && validated.totalCarbs > 0) {
-      validated.estimatedInsulin = Math.round((validated.totalCarbs / 15) * 10) / 10;
-    }
-
     return validated;
   }
 
@@ -306,4 +313,81 @@ Analyze the provided food image and return the JSON response.`;
       return [];
     }
   }
-} 
\ No newline at end of file
+
+  // Logs since a time, newest first, without the stored image
+  static async getRecentLogs(userId: string, since: string, limit: number = 10): Promise<FoodAnalysisLog[]> {
+    try {
+      const { data, error } = await supabase
+        .from('food_analysis_logs')
+        .select('id, user_id, analysis_result, created_at')
+        .eq('user_id', userId)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching recent food logs:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching recent food logs:', error);
+      return [];
+    }
+  }
+
+  // Food logged without a photo, e.g. confirmed from chat
+  static async createLog(userId: string, analysisResult: any, createdAt: string): Promise<FoodAnalysisLog | null> {
+    try {
+      const { data, error } = await supabase
+        .from('food_analysis_logs')
+        .insert({
+          user_id: userId,
+          analysis_result: analysisResult,
+          created_at: createdAt
+        })
+        .select('id, user_id, analysis_result, created_at')
+        .single();
+
+      if (error) {
+        console.error('Error storing food log:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error storing food log:', error);
+      return null;
+    }
+  }
+
+  // Logged meals with carbs in a time range, oldest first; the log time is used as the meal time
+  static async getCarbEntries(userId: string, startDate: string, endDate: string): Promise<CarbEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('food_analysis_logs')
+        .select('id, analysis_result, created_at')
+        .eq('user_id', userId)
+        .gte('created_at', startDate)
+        .lte('created_at', endDate)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching carb entries:', error);
+        return [];
+      }
+
+      return (data || [])
+        .map(log => ({
+          timestamp: log.created_at,
+          carbs: Number(log.analysis_result?.totalCarbs) || 0,
+          food_log_id: log.id
+        }))
+        .filter(entry => entry.carbs > 0);
+    } catch (error) {
+      console.error('Error fetching carb entries:', error);
+      return [];
+    }
+  }
+}
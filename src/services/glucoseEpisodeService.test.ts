@@ -0,0 +1,96 @@
+import { GlucoseReading } from '../types';
+import { GlucoseEpisodeService } from './glucoseEpisodeService';
+import { GlucoseMetricsService } from './glucoseMetricsService';
+
+const START = new Date('2024-01-01T00:00:00Z');
+const THRESHOLDS = GlucoseMetricsService.resolveThresholds();
+
+const at = (minute: number): string => new Date(START.getTime() + minute * 60000).toISOString();
+
+// One 5-minute CGM reading per value, unless minutes are given
+const series = (values: number[], minutes?: number[]): GlucoseReading[] =>
+  values.map((value, i) => ({
+    id: `r${i}`,
+    user_id: 'user-1',
+    value,
+    timestamp: at(minutes ? minutes[i] as number : i * 5),
+    source: 'dexcom',
+    created_at: START.toISOString()
+  }));
+
+describe('GlucoseEpisodeService.detect', () => {
+  it('records 15 minutes below range, ending where the 15-minute recovery began', () => {
+    const episodes = GlucoseEpisodeService.detect(series([65, 62, 60, 64, 90, 95, 100, 105]), THRESHOLDS);
+
+    expect(episodes).toEqual([{
+      type: 'hypoglycemia',
+      level: 1,
+      start: at(0),
+      end: at(20),
+      durationMinutes: 20,
+      extremeValue: 60,
+      extremeTimestamp: at(10),
+      readings: 4,
+      ongoing: false
+    }]);
+  });
+
+  it('ignores dips shorter than 15 minutes', () => {
+    expect(GlucoseEpisodeService.detect(series([65, 62, 90, 95, 100, 105]), THRESHOLDS)).toEqual([]);
+  });
+
+  it('keeps one episode through a return to range shorter than 15 minutes', () => {
+    const episodes = GlucoseEpisodeService.detect(
+      series([65, 62, 60, 64, 90, 95, 66, 63, 61, 65, 90, 95, 100, 105]),
+      THRESHOLDS
+    );
+
+    expect(episodes).toHaveLength(1);
+    expect(episodes[0]).toMatchObject({ start: at(0), end: at(50), readings: 8 });
+  });
+
+  it('is level 2 only after 15 minutes below the very low threshold', () => {
+    const level2 = GlucoseEpisodeService.detect(series([60, 52, 50, 48, 51, 60, 90, 95, 100, 105]), THRESHOLDS);
+    const level1 = GlucoseEpisodeService.detect(series([60, 52, 50, 60, 62, 65, 90, 95, 100, 105]), THRESHOLDS);
+
+    expect(level2[0]).toMatchObject({ level: 2, extremeValue: 48 });
+    expect(level1[0]).toMatchObject({ level: 1, extremeValue: 50 });
+  });
+
+  it('ends an episode at the last low reading before a data gap', () => {
+    const episodes = GlucoseEpisodeService.detect(series([65, 62, 60, 64, 110], [0, 5, 10, 15, 60]), THRESHOLDS);
+
+    expect(episodes).toHaveLength(1);
+    expect(episodes[0]).toMatchObject({ end: at(15), durationMinutes: 15, ongoing: false });
+  });
+
+  it('marks an episode still out of range at the end of the data as ongoing', () => {
+    const episodes = GlucoseEpisodeService.detect(series([120, 190, 200, 210, 220]), THRESHOLDS);
+
+    expect(episodes).toEqual([expect.objectContaining({ type: 'hyperglycemia', start: at(5), end: at(20), ongoing: true })]);
+  });
+
+  it('filters by type and sorts by start', () => {
+    const readings = series([200, 210, 220, 230, 150, 140, 130, 120, 65, 60, 62, 64, 100, 105, 110, 115]);
+
+    expect(GlucoseEpisodeService.detect(readings, THRESHOLDS).map(episode => episode.type)).toEqual(['hyperglycemia', 'hypoglycemia']);
+    expect(GlucoseEpisodeService.detect(readings, THRESHOLDS, 'hypoglycemia')).toHaveLength(1);
+  });
+
+  it('sorts readings by time before detecting', () => {
+    const readings = series([65, 62, 60, 64, 90, 95, 100, 105]).reverse();
+
+    expect(GlucoseEpisodeService.detect(readings, THRESHOLDS)).toHaveLength(1);
+  });
+});
+
+describe('GlucoseEpisodeService.count', () => {
+  it('counts episodes by type and level', () => {
+    const readings = series([60, 52, 50, 48, 51, 60, 90, 95, 100, 105, 260, 270, 280, 275, 150, 140, 130, 120]);
+
+    expect(GlucoseEpisodeService.count(GlucoseEpisodeService.detect(readings, THRESHOLDS))).toEqual({
+      hypoglycemia: { level1: 0, level2: 1 },
+      hyperglycemia: { level1: 0, level2: 1 }
+    });
+  });
+});
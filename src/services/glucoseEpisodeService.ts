@@ -0,0 +1,148 @@
+import { GlucoseEpisode, GlucoseEpisodeCounts, GlucoseEpisodeType, GlucoseReading, GlucoseThresholds } from '../types';
+
+interface EpisodeRule {
+  type: GlucoseEpisodeType;
+  isOut: (value: number) => boolean;
+  isSevere: (value: number) => boolean;
+  isMoreExtreme: (value: number, current: number) => boolean;
+}
+
+export class GlucoseEpisodeService {
+  // Consensus rule: an episode needs 15 consecutive minutes out of range and ends after 15 minutes back in range
+  static readonly MIN_EPISODE_MINUTES = 15;
+  // Readings further apart than this break an episode because we cannot tell what happened in between
+  static readonly MAX_GAP_MINUTES = 30;
+
+  static detect(readings: GlucoseReading[], thresholds: GlucoseThresholds, type?: GlucoseEpisodeType): GlucoseEpisode[] {
+    const sorted = readings
+      .filter(reading => !isNaN(new Date(reading.timestamp).getTime()))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    const rules: EpisodeRule[] = [
+      {
+        type: 'hypoglycemia',
+        isOut: value => value < thresholds.low,
+        isSevere: value => value < thresholds.veryLow,
+        isMoreExtreme: (value, current) => value < current
+      },
+      {
+        type: 'hyperglycemia',
+        isOut: value => value > thresholds.high,
+        isSevere: value => value > thresholds.veryHigh,
+        isMoreExtreme: (value, current) => value > current
+      }
+    ];
+
+    return rules
+      .filter(rule => !type || rule.type === type)
+      .flatMap(rule => this.detectForRule(sorted, rule))
+      .sort((a, b) => a.start.localeCompare(b.start));
+  }
+
+  static count(episodes: GlucoseEpisode[]): GlucoseEpisodeCounts {
+    const counts: GlucoseEpisodeCounts = {
+      hypoglycemia: { level1: 0, level2: 0 },
+      hyperglycemia: { level1: 0, level2: 0 }
+    };
+
+    for (const episode of episodes) {
+      counts[episode.type][episode.level === 2 ? 'level2' : 'level1']++;
+    }
+
+    return counts;
+  }
+
+  private static detectForRule(sorted: GlucoseReading[], rule: EpisodeRule): GlucoseEpisode[] {
+    const episodes: GlucoseEpisode[] = [];
+    const minEpisodeMs = this.MIN_EPISODE_MINUTES * 60000;
+    const maxGapMs = this.MAX_GAP_MINUTES * 60000;
+
+    let start: GlucoseReading | null = null;
+    let lastOut: GlucoseReading | null = null;
+    let extreme: GlucoseReading | null = null;
+    let recoveryStart: GlucoseReading | null = null;
+    let severeStart: GlucoseReading | null = null;
+    let longestSevereMs = 0;
+    let count = 0;
+    let previous: GlucoseReading | null = null;
+
+    const close = (endTime: number, ongoing: boolean) => {
+      if (start && extreme) {
+        const startTime = time(start);
+        if (severeStart) {
+          longestSevereMs = Math.max(longestSevereMs, endTime - time(severeStart));
+        }
+        if (endTime - startTime >= minEpisodeMs) {
+          episodes.push({
+            type: rule.type,
+            level: longestSevereMs >= minEpisodeMs ? 2 : 1,
+            start: start.timestamp,
+            end: new Date(endTime).toISOString(),
+            durationMinutes: Math.round((endTime - startTime) / 60000),
+            extremeValue: extreme.value,
+            extremeTimestamp: extreme.timestamp,
+            readings: count,
+            ongoing
+          });
+        }
+      }
+      start = lastOut = extreme = recoveryStart = severeStart = null;
+      longestSevereMs = 0;
+      count = 0;
+    };
+
+    for (const reading of sorted) {
+      // A data gap ends the episode at the last reading we saw out of range
+      if (start && previous && time(reading) - time(previous) > maxGapMs) {
+        close(time(recoveryStart || lastOut || previous), false);
+      }
+      previous = reading;
+
+      if (rule.isOut(reading.value)) {
+        if (!start) {
+          start = reading;
+          extreme = reading;
+        }
+        if (extreme && rule.isMoreExtreme(reading.value, extreme.value)) {
+          extreme = reading;
+        }
+        lastOut = reading;
+        recoveryStart = null;
+        count++;
+
+        if (rule.isSevere(reading.value)) {
+          severeStart = severeStart || reading;
+        } else if (severeStart) {
+          longestSevereMs = Math.max(longestSevereMs, time(reading) - time(severeStart));
+          severeStart = null;
+        }
+        continue;
+      }
+
+      if (!start) {
+        continue;
+      }
+
+      if (severeStart) {
+        longestSevereMs = Math.max(longestSevereMs, time(reading) - time(severeStart));
+        severeStart = null;
+      }
+
+      recoveryStart = recoveryStart || reading;
+      if (time(reading) - time(recoveryStart) >= minEpisodeMs) {
+        close(time(recoveryStart), false);
+      }
+    }
+
+    if (start) {
+      // Still out of range (or not yet recovered for 15 minutes) at the end of the data
+      close(time(recoveryStart || lastOut || start), !recoveryStart);
+    }
+
+    return episodes;
+  }
+}
+
+function time(reading: GlucoseReading): number {
+  return new Date(reading.timestamp).getTime();
+}
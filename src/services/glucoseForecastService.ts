@@ -0,0 +1,169 @@
+import {
+  GlucoseForecast,
+  GlucoseForecastPoint,
+  GlucoseReading,
+  GlucoseThresholdCrossing,
+  GlucoseThresholds,
+  GlucoseTrend
+} from '../types';
+import { SensorWearService } from './sensorWearService';
+
+export class GlucoseForecastService {
+  static readonly LOOKBACK_MINUTES = 60;
+  static readonly HORIZONS_MINUTES = [15, 30, 60];
+  private static readonly MAX_READING_AGE_MINUTES = 15;
+  private static readonly MIN_SPAN_MINUTES = 10;
+  // Recent readings weigh more; weight halves every 15 minutes back in time
+  private static readonly WEIGHT_HALF_LIFE_MINUTES = 15;
+  // Momentum decays with horizon so a current slope is not extrapolated linearly for an hour
+  private static readonly MOMENTUM_DECAY_MINUTES = 45;
+  // Extra uncertainty per minute of horizon on top of the fit error
+  private static readonly HORIZON_ERROR_PER_MINUTE = 0.3;
+  private static readonly MIN_VALUE = 40;
+  private static readonly MAX_VALUE = 400;
+
+  // Midpoints of the Dexcom arrow ranges, in mg/dL per minute
+  static readonly TREND_RATES: Partial<Record<GlucoseTrend, number>> = {
+    doubleUp: 3.5,
+    singleUp: 2.5,
+    fortyFiveUp: 1.5,
+    flat: 0,
+    fortyFiveDown: -1.5,
+    singleDown: -2.5,
+    doubleDown: -3.5
+  };
+
+  // Project glucose from the last hour of CGM readings with a damped, weighted linear trend. Horizons
+  // are measured from now, so the trend is carried across the age of the latest reading first
+  static forecast(readings: GlucoseReading[], thresholds: GlucoseThresholds, now: Date = new Date()): GlucoseForecast | null {
+    const nowMs = now.getTime();
+    // Fingersticks come from a different meter and would bend the sensor trend
+    const recent = readings
+      .filter(reading => SensorWearService.isCgmReading(reading))
+      .map(reading => ({ reading, time: new Date(reading.timestamp).getTime() }))
+      .filter(({ time }) => !isNaN(time) && time <= nowMs && nowMs - time <= this.LOOKBACK_MINUTES * 60000)
+      .sort((a, b) => a.time - b.time);
+
+    const latest = recent[recent.length - 1];
+    const earliest = recent[0];
+    if (!latest || !earliest || nowMs - latest.time > this.MAX_READING_AGE_MINUTES * 60000) {
+      return null;
+    }
+
+    const trendRate = latest.reading.source === 'dexcom' && latest.reading.trend
+      ? this.TREND_RATES[latest.reading.trend]
+      : undefined;
+
+    const hasSpan = recent.length >= 3 && latest.time - earliest.time >= this.MIN_SPAN_MINUTES * 60000;
+    const fit = hasSpan
+      ? weightedLinearFit(
+          recent.map(({ reading, time }) => ({ x: (time - latest.time) / 60000, y: reading.value })),
+          this.WEIGHT_HALF_LIFE_MINUTES
+        )
+      : null;
+
+    if (!fit && trendRate === undefined) {
+      return null;
+    }
+
+    // Blend the fitted slope with the sensor's own trend arrow when both are available
+    const ratePerMinute = fit && trendRate !== undefined
+      ? (fit.slope + trendRate) / 2
+      : fit
+        ? fit.slope
+        : trendRate as number;
+    const fitError = fit ? fit.residualStdDev : 10;
+    const slopeError = fit ? fit.slopeStdError : 1;
+
+    const readingAgeMinutes = (nowMs - latest.time) / 60000;
+
+    const project = (minutesAhead: number) => {
+      const sinceReading = readingAgeMinutes + minutesAhead;
+      const effectiveMinutes = this.MOMENTUM_DECAY_MINUTES * (1 - Math.exp(-sinceReading / this.MOMENTUM_DECAY_MINUTES));
+      return clamp(latest.reading.value + ratePerMinute * effectiveMinutes, this.MIN_VALUE, this.MAX_VALUE);
+    };
+
+    const points: GlucoseForecastPoint[] = this.HORIZONS_MINUTES.map(minutesAhead => {
+      const value = project(minutesAhead);
+      const sinceReading = readingAgeMinutes + minutesAhead;
+      const halfWidth = 1.96 * Math.sqrt(fitError ** 2 + (slopeError * sinceReading) ** 2)
+        + this.HORIZON_ERROR_PER_MINUTE * sinceReading;
+
+      return {
+        minutesAhead,
+        timestamp: new Date(nowMs + minutesAhead * 60000).toISOString(),
+        value: Math.round(value),
+        lower: Math.round(clamp(value - halfWidth, this.MIN_VALUE, this.MAX_VALUE)),
+        upper: Math.round(clamp(value + halfWidth, this.MIN_VALUE, this.MAX_VALUE))
+      };
+    });
+
+    const maxHorizon = Math.max(...this.HORIZONS_MINUTES);
+    const findCrossing = (threshold: number, crossed: (value: number) => boolean): GlucoseThresholdCrossing | null => {
+      if (crossed(latest.reading.value)) {
+        return null;
+      }
+      // 0 when the trend has already crossed since the latest reading
+      for (let minute = 0; minute <= maxHorizon; minute++) {
+        if (crossed(project(minute))) {
+          return {
+            threshold,
+            minutesUntil: minute,
+            timestamp: new Date(nowMs + minute * 60000).toISOString()
+          };
+        }
+      }
+      return null;
+    };
+
+    return {
+      generatedAt: now.toISOString(),
+      latestValue: latest.reading.value,
+      latestTimestamp: latest.reading.timestamp,
+      ratePerMinute: Math.round(ratePerMinute * 100) / 100,
+      ...(latest.reading.trend ? { trend: latest.reading.trend } : {}),
+      readingsUsed: recent.length,
+      points,
+      predictedLow: findCrossing(thresholds.low, value => value < thresholds.low),
+      predictedHigh: findCrossing(thresholds.high, value => value > thresholds.high)
+    };
+  }
+}
+
+function weightedLinearFit(
+  points: { x: number; y: number }[],
+  halfLifeMinutes: number
+): { slope: number; residualStdDev: number; slopeStdError: number } | null {
+  const weights = points.map(point => Math.pow(0.5, -point.x / halfLifeMinutes));
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  const meanX = points.reduce((sum, p, i) => sum + (weights[i] as number) * p.x, 0) / weightSum;
+  const meanY = points.reduce((sum, p, i) => sum + (weights[i] as number) * p.y, 0) / weightSum;
+
+  let sxx = 0;
+  let sxy = 0;
+  points.forEach((p, i) => {
+    const w = weights[i] as number;
+    sxx += w * (p.x - meanX) ** 2;
+    sxy += w * (p.x - meanX) * (p.y - meanY);
+  });
+
+  if (sxx === 0) {
+    return null;
+  }
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const residualSum = points.reduce((sum, p, i) => sum + (weights[i] as number) * (p.y - (intercept + slope * p.x)) ** 2, 0);
+  const degreesOfFreedom = Math.max(1, points.length - 2);
+  const residualVariance = (residualSum / weightSum) * (points.length / degreesOfFreedom);
+
+  return {
+    slope,
+    residualStdDev: Math.sqrt(residualVariance),
+    slopeStdError: Math.sqrt(residualVariance / (sxx / weightSum) / points.length)
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,297 @@
+import { GlucoseImportFormat, GlucoseImportRowIssue, GlucoseImportSummary, GlucoseUnit } from '../types';
+import { HttpError } from '../utils/httpError';
+import { toMgdl } from '../utils/glucoseUnits';
+import { DEFAULT_TIMEZONE, getZonedParts, zonedTimeToUtc } from '../utils/timezone';
+import { GlucoseService } from './glucoseService';
+import { GlucoseValidationService } from './glucoseValidationService';
+import { NewGlucoseReading } from './readingReconciliationService';
+
+interface ParsedRow {
+  row: number;
+  reading?: NewGlucoseReading;
+  skipReason?: string;
+  rejectReason?: string;
+}
+
+export class GlucoseImportService {
+  private static readonly INSERT_BATCH_SIZE = 500;
+  // Clarity reports out-of-range sensor values as text
+  private static readonly CLARITY_LOW_VALUE = 40;
+  private static readonly CLARITY_HIGH_VALUE = 400;
+
+  // Export timestamps are wall-clock times in the timezone the device was set to
+  static async importCsv(userId: string, csv: string, timeZone: string = DEFAULT_TIMEZONE): Promise<GlucoseImportSummary> {
+    const rows = parseCsv(csv);
+    const format = this.detectFormat(rows);
+
+    if (!format) {
+      throw new HttpError(
+        400,
+        'Unrecognized CSV format. Upload a Dexcom Clarity or LibreView glucose export.',
+        'UNSUPPORTED_IMPORT_FORMAT'
+      );
+    }
+
+    const parsed = format.format === 'dexcom_clarity'
+      ? this.parseClarity(userId, rows, format.headerIndex, timeZone)
+      : this.parseLibreView(userId, rows, format.headerIndex, timeZone);
+
+    const skippedRows: GlucoseImportRowIssue[] = [];
+    const rejectedRows: GlucoseImportRowIssue[] = [];
+    const candidates: ParsedRow[] = [];
+
+    for (const row of parsed) {
+      const invalidReason = row.reading ? this.validateReading(row.reading) : null;
+
+      if (row.rejectReason || invalidReason) {
+        rejectedRows.push({ row: row.row, reason: (row.rejectReason || invalidReason) as string });
+      } else if (row.skipReason) {
+        skippedRows.push({ row: row.row, reason: row.skipReason });
+      } else if (row.reading) {
+        candidates.push(row);
+      }
+    }
+
+    // Duplicates of stored readings, or of each other, are reconciled on save and reported as skipped
+    let imported = 0;
+    for (let i = 0; i < candidates.length; i += this.INSERT_BATCH_SIZE) {
+      const batch = candidates.slice(i, i + this.INSERT_BATCH_SIZE);
+      const result = await GlucoseService.saveReadings(batch.map(row => row.reading as NewGlucoseReading));
+      const handled = result.inserted.length + result.suppressed.length;
+
+      if (handled === batch.length) {
+        imported += result.inserted.length;
+        result.suppressed.forEach(({ index }) =>
+          skippedRows.push({ row: (batch[index] as ParsedRow).row, reason: 'Duplicate of an existing reading' })
+        );
+      } else {
+        batch.forEach(row => rejectedRows.push({ row: row.row, reason: 'Failed to save reading' }));
+      }
+    }
+
+    return {
+      format: format.format,
+      totalRows: parsed.length,
+      imported,
+      skipped: skippedRows.length,
+      rejected: rejectedRows.length,
+      skippedRows: skippedRows.sort((a, b) => a.row - b.row),
+      rejectedRows: rejectedRows.sort((a, b) => a.row - b.row)
+    };
+  }
+
+  // Same physiological limits as manual entry; values are already in mg/dL
+  private static validateReading(reading: NewGlucoseReading): string | null {
+    const issue = GlucoseValidationService.checkValue(reading.value, 'mg/dL')[0];
+    if (issue) {
+      return issue.message;
+    }
+
+    const minutesAhead = (new Date(reading.timestamp).getTime() - Date.now()) / 60000;
+    return minutesAhead > GlucoseValidationService.MAX_FUTURE_MINUTES ? 'Timestamp is in the future' : null;
+  }
+
+  static detectFormat(rows: string[][]): { format: GlucoseImportFormat; headerIndex: number } | null {
+    // Only the first few lines can hold the header; LibreView puts a metadata line above it
+    for (let i = 0; i < Math.min(rows.length, 5); i++) {
+      const header = (rows[i] || []).map(cell => cell.trim());
+
+      if (header.includes('Event Type') && header.some(cell => cell.startsWith('Glucose Value ('))) {
+        return { format: 'dexcom_clarity', headerIndex: i };
+      }
+
+      if (header.includes('Record Type') && header.some(cell => cell.startsWith('Historic Glucose'))) {
+        return { format: 'libreview', headerIndex: i };
+      }
+    }
+
+    return null;
+  }
+
+  private static parseClarity(userId: string, rows: string[][], headerIndex: number, timeZone: string): ParsedRow[] {
+    const header = (rows[headerIndex] || []).map(cell => cell.trim());
+    const timestampCol = header.findIndex(cell => cell.startsWith('Timestamp'));
+    const eventTypeCol = header.indexOf('Event Type');
+    const valueCol = header.findIndex(cell => cell.startsWith('Glucose Value ('));
+    const unit = unitFromHeader(header[valueCol]);
+
+    return rows.slice(headerIndex + 1).map((cells, index): ParsedRow => {
+      const row = headerIndex + index + 2;
+      const eventType = cells[eventTypeCol]?.trim() || '';
+
+      if (eventType !== 'EGV') {
+        return { row, skipReason: `Not a sensor glucose reading (event type "${eventType || 'empty'}")` };
+      }
+
+      const timestamp = parseLocalTimestamp(cells[timestampCol]?.trim() || '', 'ymd', timeZone);
+      if (!timestamp) {
+        return { row, rejectReason: 'Invalid or missing timestamp' };
+      }
+
+      const rawValue = cells[valueCol]?.trim() || '';
+      let value: number;
+      let notes: string | undefined;
+
+      if (/^low$/i.test(rawValue)) {
+        value = this.CLARITY_LOW_VALUE;
+        notes = 'Imported from Clarity as Low';
+      } else if (/^high$/i.test(rawValue)) {
+        value = this.CLARITY_HIGH_VALUE;
+        notes = 'Imported from Clarity as High';
+      } else {
+        const parsedValue = parseValue(rawValue, unit);
+        if (parsedValue === null) {
+          return { row, rejectReason: `Invalid glucose value "${rawValue}"` };
+        }
+        value = parsedValue;
+      }
+
+      return {
+        row,
+        reading: {
+          user_id: userId,
+          value,
+          timestamp,
+          source: 'dexcom',
+          ...(notes ? { notes } : {})
+        }
+      };
+    });
+  }
+
+  private static parseLibreView(userId: string, rows: string[][], headerIndex: number, timeZone: string): ParsedRow[] {
+    const header = (rows[headerIndex] || []).map(cell => cell.trim());
+    const timestampCol = header.indexOf('Device Timestamp');
+    const recordTypeCol = header.indexOf('Record Type');
+    const historicCol = header.findIndex(cell => cell.startsWith('Historic Glucose'));
+    const scanCol = header.findIndex(cell => cell.startsWith('Scan Glucose'));
+    const unit = unitFromHeader(header[historicCol]);
+    const dataRows = rows.slice(headerIndex + 1);
+    const dateOrder = detectDateOrder(dataRows.map(cells => cells[timestampCol]?.trim() || ''));
+
+    return dataRows.map((cells, index): ParsedRow => {
+      const row = headerIndex + index + 2;
+      const recordType = cells[recordTypeCol]?.trim() || '';
+
+      // 0 = historic (15-minute) glucose, 1 = scan glucose; other record types are notes, insulin, food, etc.
+      const valueCol = recordType === '0' ? historicCol : recordType === '1' ? scanCol : -1;
+      if (valueCol === -1) {
+        return { row, skipReason: `Not a glucose reading (record type "${recordType || 'empty'}")` };
+      }
+
+      const timestamp = parseLocalTimestamp(cells[timestampCol]?.trim() || '', dateOrder, timeZone);
+      if (!timestamp) {
+        return { row, rejectReason: 'Invalid or missing timestamp' };
+      }
+
+      const rawValue = cells[valueCol]?.trim() || '';
+      const value = parseValue(rawValue, unit);
+      if (value === null) {
+        return { row, rejectReason: `Invalid glucose value "${rawValue}"` };
+      }
+
+      return {
+        row,
+        reading: {
+          user_id: userId,
+          value,
+          timestamp,
+          source: 'other'
+        }
+      };
+    });
+  }
+}
+
+function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const text = csv.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+function unitFromHeader(header: string | undefined): GlucoseUnit {
+  return header && /mmol/i.test(header) ? 'mmol/L' : 'mg/dL';
+}
+
+function parseValue(raw: string, unit: GlucoseUnit): number | null {
+  if (raw === '') return null;
+  const value = Number(raw.replace(',', '.'));
+  if (!isFinite(value) || value <= 0) return null;
+  return toMgdl(value, unit);
+}
+
+// LibreView writes either MM-DD-YYYY or DD-MM-YYYY depending on the account locale
+function detectDateOrder(values: string[]): 'ymd' | 'mdy' | 'dmy' {
+  for (const value of values) {
+    const match = value.match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{2,4})/);
+    if (!match) continue;
+    if ((match[1] as string).length === 4) return 'ymd';
+    if (Number(match[1]) > 12) return 'dmy';
+    if (Number(match[2]) > 12) return 'mdy';
+  }
+  return 'mdy';
+}
+
+// Export timestamps carry no timezone, so they are read as local time in the user's timezone
+function parseLocalTimestamp(value: string, order: 'ymd' | 'mdy' | 'dmy', timeZone: string): string | null {
+  const match = value.match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})[T ](\d{1,2}):(\d{2})(?::(\d{2}))?/);
+  if (!match) return null;
+
+  const parts = match.slice(1).map(part => Number(part || 0));
+  const [a, b, c, hours, minutes, seconds] = parts as [number, number, number, number, number, number];
+  const [year, month, day] = order === 'ymd' || String(match[1]).length === 4
+    ? [a, b, c]
+    : order === 'dmy'
+      ? [c, b, a]
+      : [c, a, b];
+
+  const date = zonedTimeToUtc(timeZone, year, month, day, hours, minutes, seconds);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+
+  // Reject rolled-over dates such as 31/04
+  const local = getZonedParts(date, timeZone);
+  if (local.month !== month || local.day !== day) {
+    return null;
+  }
+
+  return date.toISOString();
+}
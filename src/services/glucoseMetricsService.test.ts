@@ -0,0 +1,124 @@
+import { GlucoseReading } from '../types';
+import { GlucoseMetricsService } from './glucoseMetricsService';
+
+const WINDOW_START = new Date('2024-01-01T00:00:00Z');
+const WINDOW_END = new Date('2024-01-02T00:00:00Z');
+const THRESHOLDS = GlucoseMetricsService.resolveThresholds();
+
+const reading = (minute: number, value: number, source: GlucoseReading['source'] = 'dexcom'): GlucoseReading => ({
+  id: `r${minute}`,
+  user_id: 'user-1',
+  value,
+  timestamp: new Date(WINDOW_START.getTime() + minute * 60000).toISOString(),
+  source,
+  created_at: WINDOW_START.toISOString()
+});
+
+// A full day of CGM readings at the given interval
+const day = (intervalMinutes: number, value: (index: number) => number): GlucoseReading[] =>
+  Array.from({ length: 1440 / intervalMinutes }, (_, i) => reading(i * intervalMinutes, value(i)));
+
+describe('GlucoseMetricsService.resolveThresholds', () => {
+  it('uses the consensus range by default', () => {
+    expect(THRESHOLDS).toEqual({ veryLow: 54, low: 70, high: 180, veryHigh: 250 });
+  });
+
+  it('keeps level 2 cut-offs outside a personal range', () => {
+    expect(GlucoseMetricsService.resolveThresholds([50, 260])).toEqual({ veryLow: 50, low: 50, high: 260, veryHigh: 260 });
+    expect(GlucoseMetricsService.resolveThresholds([180, 70])).toEqual(THRESHOLDS);
+  });
+});
+
+describe('GlucoseMetricsService.parseTargetRange', () => {
+  it('converts the range to mg/dL', () => {
+    expect(GlucoseMetricsService.parseTargetRange([3.9, 10], 'mmol/L')).toEqual({ range: [70, 180] });
+  });
+
+  it('rejects reversed, implausible and malformed ranges', () => {
+    expect(GlucoseMetricsService.parseTargetRange([180, 70], 'mg/dL').error).toBe('targetGlucoseRange low must be below high');
+    expect(GlucoseMetricsService.parseTargetRange([40, 180], 'mg/dL').error).toBe('targetGlucoseRange must be within 54-300 mg/dL');
+    expect(GlucoseMetricsService.parseTargetRange([70], 'mg/dL').error).toBeDefined();
+    expect(GlucoseMetricsService.parseTargetRange(['70', 180], 'mg/dL').error).toBeDefined();
+  });
+});
+
+describe('GlucoseMetricsService.calculate', () => {
+  it('returns null without readings', () => {
+    expect(GlucoseMetricsService.calculate([], THRESHOLDS, WINDOW_START, WINDOW_END)).toBeNull();
+  });
+
+  it('splits readings into the consensus bands with inclusive range bounds', () => {
+    const values = [50, 54, 69, 70, 180, 181, 250, 251, 120, 120];
+    const readings = values.map((value, i) => reading(i * 5, value));
+    const metrics = GlucoseMetricsService.calculate(readings, THRESHOLDS, WINDOW_START, WINDOW_END);
+
+    expect(metrics).toMatchObject({
+      timeBelowRangeLevel2: 10,
+      timeBelowRangeLevel1: 20,
+      timeInRange: 40,
+      timeAboveRangeLevel1: 20,
+      timeAboveRangeLevel2: 10,
+      readings: 10
+    });
+  });
+
+  it('computes average, variability and GMI', () => {
+    const readings = day(5, i => (i % 2 === 0 ? 100 : 200));
+    const metrics = GlucoseMetricsService.calculate(readings, THRESHOLDS, WINDOW_START, WINDOW_END);
+
+    expect(metrics).toMatchObject({
+      average: 150,
+      min: 100,
+      max: 200,
+      standardDeviation: 50,
+      coefficientOfVariation: 33.3,
+      // 3.31 + 0.02392 x 150
+      glucoseManagementIndicator: 6.9
+    });
+  });
+
+  it('treats a full day of 5-minute CGM data as sufficient', () => {
+    const metrics = GlucoseMetricsService.calculate(day(5, () => 120), THRESHOLDS, WINDOW_START, WINDOW_END);
+
+    expect(metrics?.dataSufficiency).toEqual({
+      expectedReadings: 288,
+      cgmReadings: 288,
+      percentActive: 100,
+      longestGapMinutes: 0,
+      sufficient: true,
+      warnings: []
+    });
+  });
+
+  it('expects 15-minute LibreView history at its own interval', () => {
+    const metrics = GlucoseMetricsService.calculate(day(15, () => 120), THRESHOLDS, WINDOW_START, WINDOW_END);
+
+    expect(metrics?.dataSufficiency).toMatchObject({ expectedReadings: 96, percentActive: 100, longestGapMinutes: 0, sufficient: true });
+  });
+
+  it('flags windows with too little CGM data', () => {
+    // Eight hours of data in a 24-hour window
+    const readings = day(5, () => 120).slice(0, 96);
+    const metrics = GlucoseMetricsService.calculate(readings, THRESHOLDS, WINDOW_START, WINDOW_END);
+
+    expect(metrics?.dataSufficiency).toMatchObject({ percentActive: 33.3, sufficient: false, longestGapMinutes: 965 });
+    expect(metrics?.dataSufficiency.warnings[0]).toMatch(/^CGM was active 33.3% of the time/);
+  });
+
+  it('warns when only manual readings are available', () => {
+    const readings = [reading(60, 110, 'manual'), reading(600, 140, 'manual')];
+    const metrics = GlucoseMetricsService.calculate(readings, THRESHOLDS, WINDOW_START, WINDOW_END);
+
+    expect(metrics?.dataSufficiency.cgmReadings).toBe(0);
+    expect(metrics?.dataSufficiency.warnings).toEqual(['Based on 2 manual readings only; time in range needs CGM data']);
+  });
+});
+
+describe('GlucoseMetricsService.compare', () => {
+  it('subtracts the previous period', () => {
+    const current = { average: 150, standardDeviation: 40, coefficientOfVariation: 26.7, glucoseManagementIndicator: 6.9, timeBelowRangeLevel2: 0, timeBelowRangeLevel1: 2, timeInRange: 75, timeAboveRangeLevel1: 18, timeAboveRangeLevel2: 5 };
+    const previous = { ...current, average: 160.4, timeInRange: 70.1 };
+
+    expect(GlucoseMetricsService.compare(current, previous)).toMatchObject({ average: -10.4, timeInRange: 4.9, standardDeviation: 0 });
+  });
+});
@@ -0,0 +1,133 @@
+import { GlucoseReading, GlucoseStats, GlucoseStatsDeltas, GlucoseThresholds, GlucoseUnit } from '../types';
+import { fromMgdl, toMgdl } from '../utils/glucoseUnits';
+import { SensorWearService } from './sensorWearService';
+
+export type GlucoseMetrics = Omit<GlucoseStats, 'period' | 'episodes' | 'startDate' | 'endDate'>;
+
+export class GlucoseMetricsService {
+  // International consensus on Time in Range (Battelino et al., 2019)
+  static readonly VERY_LOW_THRESHOLD = 54;
+  static readonly VERY_HIGH_THRESHOLD = 250;
+  static readonly DEFAULT_TARGET_RANGE: [number, number] = [70, 180];
+  static readonly MIN_ACTIVE_PERCENT = 70;
+  // Bounds for a user's target range; anything outside is almost certainly a unit mistake
+  static readonly TARGET_RANGE_LIMITS: [number, number] = [54, 300];
+
+  // Build thresholds from the user's target range, keeping the level 2 cut-offs outside of it
+  static resolveThresholds(targetRange?: [number, number]): GlucoseThresholds {
+    const [low, high] = targetRange && targetRange[0] < targetRange[1]
+      ? targetRange
+      : this.DEFAULT_TARGET_RANGE;
+
+    return {
+      veryLow: Math.min(this.VERY_LOW_THRESHOLD, low),
+      low,
+      high,
+      veryHigh: Math.max(this.VERY_HIGH_THRESHOLD, high)
+    };
+  }
+
+  // A [low, high] target range in the user's unit, converted to mg/dL
+  static parseTargetRange(value: unknown, unit: GlucoseUnit): { range?: [number, number]; error?: string } {
+    if (!Array.isArray(value) || value.length !== 2 || !value.every(bound => typeof bound === 'number' && isFinite(bound))) {
+      return { error: 'targetGlucoseRange must be a [low, high] pair of numbers' };
+    }
+
+    const [low, high] = value.map(bound => toMgdl(bound, unit)) as [number, number];
+    const [min, max] = this.TARGET_RANGE_LIMITS;
+
+    if (low >= high) {
+      return { error: 'targetGlucoseRange low must be below high' };
+    }
+    if (low < min || high > max) {
+      return { error: `targetGlucoseRange must be within ${fromMgdl(min, unit)}-${fromMgdl(max, unit)} ${unit}` };
+    }
+
+    return { range: [low, high] };
+  }
+
+  static calculate(
+    readings: GlucoseReading[],
+    thresholds: GlucoseThresholds,
+    windowStart: Date,
+    windowEnd: Date
+  ): GlucoseMetrics | null {
+    if (readings.length === 0) {
+      return null;
+    }
+
+    const values = readings.map(r => r.value);
+    const count = values.length;
+    const average = values.reduce((sum, val) => sum + val, 0) / count;
+    const variance = values.reduce((sum, val) => sum + (val - average) ** 2, 0) / count;
+    const standardDeviation = Math.sqrt(variance);
+
+    const percentOf = (predicate: (val: number) => boolean) =>
+      round1((values.filter(predicate).length / count) * 100);
+
+    const windowMinutes = Math.max(0, (windowEnd.getTime() - windowStart.getTime()) / 60000);
+    const intervalMinutes = SensorWearService.cgmIntervalMinutes(readings);
+    const expectedReadings = Math.max(1, Math.floor(windowMinutes / intervalMinutes));
+    const cgmReadings = readings.filter(reading => SensorWearService.isCgmReading(reading)).length;
+    const percentActive = round1(Math.min(100, (cgmReadings / expectedReadings) * 100));
+    const longestGapMinutes = SensorWearService
+      .findGaps(readings, windowStart, windowEnd, intervalMinutes)
+      .reduce((longest, gap) => Math.max(longest, gap.durationMinutes), 0);
+    const sufficient = percentActive >= this.MIN_ACTIVE_PERCENT;
+
+    const warnings: string[] = [];
+    if (cgmReadings === 0) {
+      warnings.push(`Based on ${count} manual reading${count === 1 ? '' : 's'} only; time in range needs CGM data`);
+    } else if (!sufficient) {
+      warnings.push(
+        `CGM was active ${percentActive}% of the time (${cgmReadings} of ${expectedReadings} expected readings); ` +
+        `at least ${this.MIN_ACTIVE_PERCENT}% is needed for reliable statistics`
+      );
+    }
+
+    return {
+      average: round1(average),
+      min: Math.min(...values),
+      max: Math.max(...values),
+      standardDeviation: round1(standardDeviation),
+      coefficientOfVariation: average > 0 ? round1((standardDeviation / average) * 100) : 0,
+      // GMI (%) = 3.31 + 0.02392 x mean glucose in mg/dL
+      glucoseManagementIndicator: round1(3.31 + 0.02392 * average),
+      timeBelowRangeLevel2: percentOf(val => val < thresholds.veryLow),
+      timeBelowRangeLevel1: percentOf(val => val >= thresholds.veryLow && val < thresholds.low),
+      timeInRange: percentOf(val => val >= thresholds.low && val <= thresholds.high),
+      timeAboveRangeLevel1: percentOf(val => val > thresholds.high && val <= thresholds.veryHigh),
+      timeAboveRangeLevel2: percentOf(val => val > thresholds.veryHigh),
+      thresholds,
+      dataSufficiency: {
+        expectedReadings,
+        cgmReadings,
+        percentActive,
+        longestGapMinutes,
+        sufficient,
+        warnings
+      },
+      readings: count
+    };
+  }
+
+  static compare(current: GlucoseStatsDeltas, previous: GlucoseStatsDeltas): GlucoseStatsDeltas {
+    const delta = (key: keyof GlucoseStatsDeltas) => round1(current[key] - previous[key]);
+
+    return {
+      average: delta('average'),
+      standardDeviation: delta('standardDeviation'),
+      coefficientOfVariation: delta('coefficientOfVariation'),
+      glucoseManagementIndicator: delta('glucoseManagementIndicator'),
+      timeBelowRangeLevel2: delta('timeBelowRangeLevel2'),
+      timeBelowRangeLevel1: delta('timeBelowRangeLevel1'),
+      timeInRange: delta('timeInRange'),
+      timeAboveRangeLevel1: delta('timeAboveRangeLevel1'),
+      timeAboveRangeLevel2: delta('timeAboveRangeLevel2')
+    };
+  }
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
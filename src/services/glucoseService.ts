@@ -1,25 +1,242 @@
 import { supabase } from '../config/database';
-import { GlucoseReading, GlucoseStats } from '../types';
+import {
+  ActivityImpactReport,
+  AmbulatoryGlucoseProfile,
+  GlucoseEpisode,
+  GlucoseEpisodeType,
+  GlucoseForecast,
+  GlucoseReading,
+  GlucoseReconciliationReport,
+  GlucoseStats,
+  GlucoseStatsComparison,
+  GlucoseStatsPeriod,
+  GlucoseTagStats,
+  GlucoseThresholds,
+  GlucoseUnit,
+  SensorWearReport
+} from '../types';
+import { DEFAULT_GLUCOSE_UNIT, parseGlucoseUnit } from '../utils/glucoseUnits';
+import { DEFAULT_TIMEZONE, parseTimeZone, startOfZonedDay, startOfZonedMonth } from '../utils/timezone';
+import { ActivityImpactService } from './activityImpactService';
+import { ActivityService } from './activityService';
+import { AgpService } from './agpService';
+import { AlertService } from './alertService';
+import { GlucoseEpisodeService } from './glucoseEpisodeService';
+import { GlucoseForecastService } from './glucoseForecastService';
+import { GlucoseTagService } from './glucoseTagService';
+import { GlucoseValidationService } from './glucoseValidationService';
+import { GlucoseMetricsService } from './glucoseMetricsService';
+import { MealPlanningService } from './mealPlanningService';
+import { NewGlucoseReading, ReadingReconciliationService, ReconciliationPlan } from './readingReconciliationService';
+import { SensorWearService } from './sensorWearService';
 
 export class GlucoseService {
-  static async addReading(reading: Omit<GlucoseReading, 'id' | 'created_at'>): Promise<GlucoseReading | null> {
+  private static readonly RANGE_PAGE_SIZE = 1000;
+  private static readonly DELETE_BATCH_SIZE = 200;
+
+  // Saves a reading unless it duplicates one already stored; duplicate is true when an existing reading was kept
+  static async saveReading(
+    reading: NewGlucoseReading
+  ): Promise<{ reading: GlucoseReading; duplicate: boolean } | null> {
+    const result = await this.saveReadings([reading]);
+    const [inserted] = result.inserted;
+
+    if (inserted) {
+      return { reading: inserted, duplicate: false };
+    }
+
+    const keptId = result.suppressed[0]?.keptId;
+    const kept = keptId ? await this.getReadingById(keptId) : null;
+    return kept ? { reading: kept, duplicate: true } : null;
+  }
+
+  static async addReading(reading: NewGlucoseReading): Promise<GlucoseReading | null> {
+    const result = await this.saveReading(reading);
+    return result ? result.reading : null;
+  }
+
+  static async addReadings(readings: NewGlucoseReading[]): Promise<GlucoseReading[]> {
+    return (await this.saveReadings(readings)).inserted;
+  }
+
+  // Reconciles new readings against stored history before inserting; see ReadingReconciliationService
+  static async saveReadings(readings: NewGlucoseReading[]): Promise<{
+    inserted: GlucoseReading[];
+    suppressed: ReconciliationPlan['suppressed'];
+    removed: number;
+  }> {
+    const result = { inserted: [] as GlucoseReading[], suppressed: [] as ReconciliationPlan['suppressed'], removed: 0 };
+
     try {
-      const { data, error } = await supabase
-        .from('glucose_readings')
-        .insert([reading])
-        .select()
-        .single();
+      if (readings.length === 0) {
+        return result;
+      }
 
-      if (error) {
-        return null;
+      // Neighbours cover the rate-of-change window; only those within the duplicate tolerance are reconciled
+      const neighbours = await this.getNeighbouringReadings(readings, GlucoseValidationService.RATE_WINDOW_MINUTES);
+      const plan = ReadingReconciliationService.plan(
+        this.withinTolerance(neighbours, readings),
+        readings
+      );
+      result.suppressed = plan.suppressed;
+
+      this.assignQuality(
+        plan.insert.map(({ reading }) => reading),
+        neighbours.filter(reading => !plan.remove.includes(reading.id))
+      );
+
+      if (plan.insert.length > 0) {
+        const { data, error } = await supabase
+          .from('glucose_readings')
+          .insert(plan.insert.map(({ reading }) => reading))
+          .select();
+
+        if (error) {
+          return result;
+        }
+
+        result.inserted = data || [];
       }
 
-      return data;
+      // Lower-precedence duplicates are only removed once their replacement is saved
+      result.removed = await this.applyReconciliation(plan);
+
+      // Only the newest reading of a batch can still be current enough to alert on
+      const newest = result.inserted.reduce<GlucoseReading | null>(
+        (latest, reading) => (!latest || reading.timestamp > latest.timestamp ? reading : latest),
+        null
+      );
+      if (newest) {
+        await AlertService.evaluateReading(newest);
+      }
+
+      return result;
+    } catch (error) {
+      return result;
+    }
+  }
+
+  // Dedupes stored history; with dryRun nothing is changed and the report lists what would be removed
+  static async reconcileHistory(
+    userId: string,
+    startDate: string,
+    endDate: string,
+    dryRun: boolean
+  ): Promise<GlucoseReconciliationReport | null> {
+    try {
+      const readings = await this.getReadingsByDateRange(userId, startDate, endDate);
+      const plan = ReadingReconciliationService.plan(readings);
+      const readingsRemoved = dryRun ? 0 : await this.applyReconciliation(plan);
+
+      return {
+        startDate,
+        endDate,
+        dryRun,
+        precedence: ReadingReconciliationService.PRECEDENCE,
+        toleranceMinutes: ReadingReconciliationService.TOLERANCE_MINUTES,
+        scanned: readings.length,
+        duplicateGroups: plan.groups.length,
+        readingsToRemove: plan.remove.length,
+        readingsRemoved,
+        groups: plan.groups
+      };
     } catch (error) {
       return null;
     }
   }
 
+  // Stored readings within marginMinutes of the new ones
+  private static async getNeighbouringReadings(
+    readings: NewGlucoseReading[],
+    marginMinutes: number
+  ): Promise<GlucoseReading[]> {
+    const toleranceMs = marginMinutes * 60000;
+    const byUser = new Map<string, number[]>();
+
+    for (const reading of readings) {
+      const time = new Date(reading.timestamp).getTime();
+      if (isNaN(time)) continue;
+      byUser.set(reading.user_id, [...(byUser.get(reading.user_id) || []), time]);
+    }
+
+    const neighbours: GlucoseReading[] = [];
+    for (const [userId, times] of byUser) {
+      const stored = await this.getReadingsByDateRange(
+        userId,
+        new Date(Math.min(...times) - toleranceMs).toISOString(),
+        new Date(Math.max(...times) + toleranceMs).toISOString()
+      );
+      neighbours.push(...stored);
+    }
+
+    return neighbours;
+  }
+
+  private static withinTolerance(stored: GlucoseReading[], readings: NewGlucoseReading[]): GlucoseReading[] {
+    const toleranceMs = ReadingReconciliationService.TOLERANCE_MINUTES * 60000;
+    const times = readings.map(reading => new Date(reading.timestamp).getTime()).filter(time => !isNaN(time));
+
+    return stored.filter(reading => {
+      const time = new Date(reading.timestamp).getTime();
+      return times.some(other => Math.abs(other - time) <= toleranceMs);
+    });
+  }
+
+  // Flag new readings whose rate of change against their neighbours is implausible, oldest first
+  private static assignQuality(readings: NewGlucoseReading[], stored: GlucoseReading[]): void {
+    const ordered = [...readings].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const context: Pick<GlucoseReading, 'value' | 'timestamp' | 'quality'>[] = [...stored, ...ordered];
+
+    for (const reading of ordered) {
+      const flags = GlucoseValidationService.assessQuality(reading, context);
+      reading.quality = flags.length > 0 ? 'flagged' : 'ok';
+      reading.quality_flags = flags;
+    }
+  }
+
+  // Re-check a reading whose value or time changed against its current neighbours
+  static async assessQuality(
+    reading: Pick<GlucoseReading, 'id' | 'user_id' | 'value' | 'timestamp'>
+  ): Promise<Pick<GlucoseReading, 'quality' | 'quality_flags'>> {
+    const margin = GlucoseValidationService.RATE_WINDOW_MINUTES * 60000;
+    const time = new Date(reading.timestamp).getTime();
+    const neighbours = await this.getReadingsByDateRange(
+      reading.user_id,
+      new Date(time - margin).toISOString(),
+      new Date(time + margin).toISOString()
+    );
+    const flags = GlucoseValidationService.assessQuality(reading, neighbours);
+
+    return { quality: flags.length > 0 ? 'flagged' : 'ok', quality_flags: flags };
+  }
+
+  // Readings used for statistics and profiles; flagged readings are left out
+  private static async getAnalyticsReadings(userId: string, startDate: string, endDate: string): Promise<GlucoseReading[]> {
+    const readings = await this.getReadingsByDateRange(userId, startDate, endDate);
+    return readings.filter(reading => reading.quality !== 'flagged');
+  }
+
+  private static async applyReconciliation(plan: ReconciliationPlan): Promise<number> {
+    for (const { id, updates } of plan.update) {
+      await this.updateReading(id, updates);
+    }
+
+    let removed = 0;
+    for (let i = 0; i < plan.remove.length; i += this.DELETE_BATCH_SIZE) {
+      const ids = plan.remove.slice(i, i + this.DELETE_BATCH_SIZE);
+      const { error } = await supabase
+        .from('glucose_readings')
+        .delete()
+        .in('id', ids);
+
+      if (!error) {
+        removed += ids.length;
+      }
+    }
+
+    return removed;
+  }
+
   static async getReadings(userId: string, limit: number = 100): Promise<GlucoseReading[]> {
     try {
       const { data, error } = await supabase
@@ -39,82 +256,331 @@ export class GlucoseService {
     }
   }
 
-  static async getReadingsByDateRange(
-    userId: string, 
-    startDate: string, 
-    endDate: string
-  ): Promise<GlucoseReading[]> {
+  // Time of each user's most recent reading, in one query; users without readings are left out
+  static async getLatestReadingTimes(userIds: string[]): Promise<Map<string, string>> {
+    try {
+      if (userIds.length === 0) {
+        return new Map();
+      }
+
+      const { data, error } = await supabase
+        .rpc('get_latest_glucose_reading_times', { user_ids: userIds });
+
+      if (error) {
+        return new Map();
+      }
+
+      return new Map(((data || []) as { user_id: string; latest_timestamp: string }[])
+        .map(row => [row.user_id, row.latest_timestamp]));
+    } catch (error) {
+      return new Map();
+    }
+  }
+
+  static async getReadingById(readingId: string): Promise<GlucoseReading | null> {
     try {
       const { data, error } = await supabase
         .from('glucose_readings')
         .select('*')
-        .eq('user_id', userId)
-        .gte('timestamp', startDate)
-        .lte('timestamp', endDate)
-        .order('timestamp', { ascending: true });
+        .eq('id', readingId)
+        .single();
 
       if (error) {
-        return [];
+        return null;
       }
 
-      return data || [];
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async getReadingsByDateRange(
+    userId: string, 
+    startDate: string, 
+    endDate: string
+  ): Promise<GlucoseReading[]> {
+    try {
+      // Page through the range; a CGM month is far more rows than a single Supabase response returns
+      const readings: GlucoseReading[] = [];
+
+      for (let from = 0; ; from += this.RANGE_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('glucose_readings')
+          .select('*')
+          .eq('user_id', userId)
+          .gte('timestamp', startDate)
+          .lte('timestamp', endDate)
+          .order('timestamp', { ascending: true })
+          .range(from, from + this.RANGE_PAGE_SIZE - 1);
+
+        if (error) {
+          return [];
+        }
+
+        readings.push(...(data || []));
+
+        if (!data || data.length < this.RANGE_PAGE_SIZE) {
+          return readings;
+        }
+      }
     } catch (error) {
       return [];
     }
   }
 
-  static async getStats(userId: string, period: 'day' | 'week' | 'month'): Promise<GlucoseStats | null> {
+  static async getThresholds(userId: string): Promise<GlucoseThresholds> {
+    const preferences = await MealPlanningService.getUserPreferences(userId);
+    return GlucoseMetricsService.resolveThresholds(preferences?.targetGlucoseRange);
+  }
+
+  static async getPreferredUnit(userId: string): Promise<GlucoseUnit> {
+    const preferences = await MealPlanningService.getUserPreferences(userId);
+    return preferences?.glucoseUnit || DEFAULT_GLUCOSE_UNIT;
+  }
+
+  // A per-request unit override wins over the user's saved preference; undefined means the override is invalid
+  static async resolveUnit(userId: string, override: unknown): Promise<GlucoseUnit | undefined> {
+    if (override === undefined || override === '') {
+      return this.getPreferredUnit(userId);
+    }
+    return parseGlucoseUnit(override);
+  }
+
+  static async getTimeZone(userId: string): Promise<string> {
+    const preferences = await MealPlanningService.getUserPreferences(userId);
+    return parseTimeZone(preferences?.timezone) || DEFAULT_TIMEZONE;
+  }
+
+  // Same contract as resolveUnit: a tz override must be a valid IANA zone name
+  static async resolveTimeZone(userId: string, override: unknown): Promise<string | undefined> {
+    if (override === undefined || override === '') {
+      return this.getTimeZone(userId);
+    }
+    return parseTimeZone(override);
+  }
+
+  static readonly STATS_PERIODS: Exclude<GlucoseStatsPeriod, 'custom'>[] = ['day', 'week', 'month', '14d', '30d', '90d'];
+  private static readonly PERIOD_DAYS: Partial<Record<GlucoseStatsPeriod, number>> = {
+    week: 7,
+    '14d': 14,
+    '30d': 30,
+    '90d': 90
+  };
+
+  // Day and month start at local midnight in the user's timezone; the fixed windows are rolling
+  static getPeriodRange(
+    period: Exclude<GlucoseStatsPeriod, 'custom'>,
+    timeZone: string = DEFAULT_TIMEZONE,
+    now: Date = new Date()
+  ): { startDate: Date; endDate: Date } {
+    switch (period) {
+      case 'day':
+        return { startDate: startOfZonedDay(now, timeZone), endDate: now };
+      case 'month':
+        return { startDate: startOfZonedMonth(now, timeZone), endDate: now };
+      default:
+        return {
+          startDate: new Date(now.getTime() - (this.PERIOD_DAYS[period] || 1) * 24 * 60 * 60 * 1000),
+          endDate: now
+        };
+    }
+  }
+
+  static async getStats(
+    userId: string,
+    period: Exclude<GlucoseStatsPeriod, 'custom'>,
+    timeZone: string = DEFAULT_TIMEZONE
+  ): Promise<GlucoseStats | null> {
+    const { startDate, endDate } = this.getPeriodRange(period, timeZone);
+    return this.getStatsForRange(userId, startDate, endDate, period);
+  }
+
+  static async getStatsForRange(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    period: GlucoseStatsPeriod = 'custom'
+  ): Promise<GlucoseStats | null> {
     try {
-      const now = new Date();
-      let startDate: Date;
-
-      switch (period) {
-        case 'day':
-          startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-          break;
-        case 'week':
-          startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-          break;
-        case 'month':
-          startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-          break;
-        default:
-          startDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      }
-
-      const readings = await this.getReadingsByDateRange(
+      const readings = await this.getAnalyticsReadings(
         userId,
         startDate.toISOString(),
-        now.toISOString()
+        endDate.toISOString()
       );
 
       if (readings.length === 0) {
         return null;
       }
 
-      const values = readings.map(r => r.value);
-      const average = values.reduce((sum, val) => sum + val, 0) / values.length;
-      const min = Math.min(...values);
-      const max = Math.max(...values);
+      const thresholds = await this.getThresholds(userId);
+      const metrics = GlucoseMetricsService.calculate(readings, thresholds, startDate, endDate);
 
-      // Calculate time in range (assuming target range 70-180 mg/dL)
-      const targetRange = [70, 180] as const;
-      const inRange = values.filter(val => val >= targetRange[0] && val <= targetRange[1]);
-      const timeInRange = (inRange.length / values.length) * 100;
+      if (!metrics) {
+        return null;
+      }
 
       return {
-        average: Math.round(average * 10) / 10,
-        min,
-        max,
-        timeInRange: Math.round(timeInRange * 10) / 10,
-        readings: values.length,
-        period
+        ...metrics,
+        episodes: GlucoseEpisodeService.count(GlucoseEpisodeService.detect(readings, thresholds)),
+        period,
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString()
       };
     } catch (error) {
       return null;
     }
   }
 
+  // Compare a window against the window of the same length that ends where it starts
+  static async compareStats(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    period: GlucoseStatsPeriod = 'custom'
+  ): Promise<GlucoseStatsComparison | null> {
+    const current = await this.getStatsForRange(userId, startDate, endDate, period);
+
+    if (!current) {
+      return null;
+    }
+
+    const previousStart = new Date(startDate.getTime() - (endDate.getTime() - startDate.getTime()));
+    const previous = await this.getStatsForRange(userId, previousStart, startDate, period);
+
+    return {
+      current,
+      previous,
+      deltas: previous ? GlucoseMetricsService.compare(current, previous) : null
+    };
+  }
+
+  static async getAmbulatoryGlucoseProfile(
+    userId: string,
+    startDate: string,
+    endDate: string,
+    bucketMinutes: number,
+    timeZone: string = DEFAULT_TIMEZONE
+  ): Promise<AmbulatoryGlucoseProfile | null> {
+    try {
+      const readings = await this.getAnalyticsReadings(userId, startDate, endDate);
+
+      if (readings.length === 0) {
+        return null;
+      }
+
+      return AgpService.buildProfile(readings, startDate, endDate, bucketMinutes, timeZone);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async getEpisodes(
+    userId: string,
+    startDate: string,
+    endDate: string,
+    type?: GlucoseEpisodeType
+  ): Promise<GlucoseEpisode[]> {
+    try {
+      const readings = await this.getAnalyticsReadings(userId, startDate, endDate);
+
+      if (readings.length === 0) {
+        return [];
+      }
+
+      const thresholds = await this.getThresholds(userId);
+      return GlucoseEpisodeService.detect(readings, thresholds, type);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  static async getTagStats(
+    userId: string,
+    startDate: string,
+    endDate: string,
+    timeZone: string = DEFAULT_TIMEZONE
+  ): Promise<GlucoseTagStats | null> {
+    try {
+      const readings = await this.getAnalyticsReadings(userId, startDate, endDate);
+
+      if (readings.length === 0) {
+        return null;
+      }
+
+      const thresholds = await this.getThresholds(userId);
+      return GlucoseTagService.summarizeByTag(readings, thresholds, startDate, endDate, timeZone);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Activities that started in the range, with glucose followed until 24 hours after each one ended
+  static async getActivityImpact(
+    userId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<ActivityImpactReport | null> {
+    try {
+      const activities = await ActivityService.getActivitiesByDateRange(userId, startDate, endDate);
+      const latestEnd = activities.reduce(
+        (latest, activity) => Math.max(latest, new Date(activity.timestamp).getTime() + activity.duration_minutes * 60000),
+        new Date(startDate).getTime()
+      );
+      const marginMs = ActivityImpactService.MATCH_WINDOW_MINUTES * 60000;
+
+      const [readings, thresholds] = await Promise.all([
+        activities.length > 0
+          ? this.getAnalyticsReadings(
+            userId,
+            new Date(new Date(startDate).getTime() - marginMs).toISOString(),
+            new Date(latestEnd + ActivityImpactService.FOLLOW_UP_HOURS * 3600000 + marginMs).toISOString()
+          )
+          : Promise.resolve([]),
+        this.getThresholds(userId)
+      ]);
+
+      return ActivityImpactService.analyze(activities, readings, thresholds, startDate, endDate);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async getSensorWear(
+    userId: string,
+    startDate: string,
+    endDate: string,
+    gapThresholdMinutes: number,
+    timeZone: string = DEFAULT_TIMEZONE
+  ): Promise<SensorWearReport | null> {
+    try {
+      const readings = await this.getReadingsByDateRange(userId, startDate, endDate);
+      return SensorWearService.analyze(readings, new Date(startDate), new Date(endDate), gapThresholdMinutes, timeZone);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async getForecast(userId: string): Promise<GlucoseForecast | null> {
+    try {
+      const now = new Date();
+      const readings = await this.getAnalyticsReadings(
+        userId,
+        new Date(now.getTime() - GlucoseForecastService.LOOKBACK_MINUTES * 60 * 1000).toISOString(),
+        now.toISOString()
+      );
+
+      if (readings.length === 0) {
+        return null;
+      }
+
+      const thresholds = await this.getThresholds(userId);
+      return GlucoseForecastService.forecast(readings, thresholds, now);
+    } catch (error) {
+      return null;
+    }
+  }
+
   static async deleteReading(readingId: string): Promise<boolean> {
     try {
       const { error } = await supabase
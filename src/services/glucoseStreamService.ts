@@ -0,0 +1,109 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createUserClient } from '../config/database';
+import { GlucoseAlert, GlucoseReading, GlucoseStreamEvent } from '../types';
+
+// Real-time glucose events from Supabase Realtime. Events come from inserts into glucose_readings
+// and glucose_alerts, so every server instance sees them whichever one saved the row
+export class GlucoseStreamService {
+  // How long to wait for Realtime to confirm the subscription
+  static readonly SUBSCRIBE_TIMEOUT_MS = 10000;
+  // Events missed between reconnects are replayed up to this limit
+  private static readonly MAX_REPLAYED_EVENTS = 100;
+
+  // Listen as the user, so RLS limits events to their rows; events created after `since` are
+  // replayed first. Resolves with a function that closes the subscription
+  static async subscribe(
+    userId: string,
+    accessToken: string,
+    since: string | null,
+    listener: (event: GlucoseStreamEvent) => void
+  ): Promise<() => Promise<void>> {
+    const client = createUserClient(accessToken);
+    const delivered = new Set<string>();
+
+    // A row can arrive both live and in the replay
+    const emit = (event: GlucoseStreamEvent) => {
+      if (event.event === 'alert' && !this.isInAppAlert(event.data)) {
+        return;
+      }
+      if (!delivered.has(event.data.id)) {
+        delivered.add(event.data.id);
+        listener(event);
+      }
+    };
+
+    const channel = client
+      .channel(`glucose-stream:${userId}`)
+      .on<GlucoseReading>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'glucose_readings', filter: `user_id=eq.${userId}` },
+        payload => emit({ event: 'reading', data: payload.new })
+      )
+      .on<GlucoseAlert>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'glucose_alerts', filter: `user_id=eq.${userId}` },
+        payload => emit({ event: 'alert', data: payload.new })
+      );
+
+    const close = async () => {
+      await client.removeChannel(channel);
+    };
+
+    // Replay only once live events are flowing, so nothing falls between the two
+    await new Promise<void>((resolve, reject) => {
+      channel.subscribe((status, error) => {
+        if (status === 'SUBSCRIBED') {
+          resolve();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          reject(error || new Error(`Glucose stream subscription ${status.toLowerCase()}`));
+        }
+      }, this.SUBSCRIBE_TIMEOUT_MS);
+    }).catch(async error => {
+      await close();
+      throw error;
+    });
+
+    if (since) {
+      (await this.getEventsSince(client, userId, since)).forEach(emit);
+    }
+
+    return close;
+  }
+
+  // Only alerts delivered in-app are pushed to the stream
+  private static isInAppAlert(alert: GlucoseAlert): boolean {
+    return alert.status === 'delivered' && (alert.channels || []).includes('in_app');
+  }
+
+  // Readings and alerts created after `since`, oldest first
+  private static async getEventsSince(client: SupabaseClient, userId: string, since: string): Promise<GlucoseStreamEvent[]> {
+    try {
+      const [readings, alerts] = await Promise.all([
+        client
+          .from('glucose_readings')
+          .select('*')
+          .eq('user_id', userId)
+          .gt('created_at', since)
+          .order('created_at', { ascending: true })
+          .limit(this.MAX_REPLAYED_EVENTS),
+        client
+          .from('glucose_alerts')
+          .select('*')
+          .eq('user_id', userId)
+          .gt('created_at', since)
+          .order('created_at', { ascending: true })
+          .limit(this.MAX_REPLAYED_EVENTS)
+      ]);
+
+      const events: GlucoseStreamEvent[] = [
+        ...((readings.data || []) as GlucoseReading[]).map(data => ({ event: 'reading' as const, data })),
+        ...((alerts.data || []) as GlucoseAlert[]).map(data => ({ event: 'alert' as const, data }))
+      ];
+
+      return events.sort((a, b) => a.data.created_at.localeCompare(b.data.created_at));
+    } catch (error) {
+      console.error('Error replaying glucose stream events:', error);
+      return [];
+    }
+  }
+}
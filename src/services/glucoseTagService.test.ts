@@ -0,0 +1,78 @@
+import { GlucoseReading } from '../types';
+import { GlucoseMetricsService } from './glucoseMetricsService';
+import { GlucoseTagService } from './glucoseTagService';
+
+const THRESHOLDS = GlucoseMetricsService.resolveThresholds();
+
+const reading = (timestamp: string, value: number, extra: Partial<GlucoseReading> = {}): GlucoseReading => ({
+  id: timestamp,
+  user_id: 'user-1',
+  value,
+  timestamp,
+  source: 'dexcom',
+  created_at: timestamp,
+  ...extra
+});
+
+describe('GlucoseTagService.parseTags', () => {
+  it('deduplicates known tags and rejects unknown ones', () => {
+    expect(GlucoseTagService.parseTags(['fasting', 'sick', 'fasting'])).toEqual(['fasting', 'sick']);
+    expect(GlucoseTagService.parseTags(['fasting', 'lunch'])).toBeNull();
+    expect(GlucoseTagService.parseTags('fasting')).toBeNull();
+  });
+});
+
+describe('GlucoseTagService.validate', () => {
+  it('allows only one meal-timing tag', () => {
+    expect(GlucoseTagService.validate(['pre_meal', 'post_meal_1h'], undefined)).toMatch(/^tags can include only one of/);
+    expect(GlucoseTagService.validate(['pre_meal', 'exercise'], 'lunch')).toBeNull();
+  });
+
+  it('requires a meal-relative tag for meal_type', () => {
+    expect(GlucoseTagService.validate(['fasting'], 'breakfast')).toMatch(/^meal_type requires one of/);
+    expect(GlucoseTagService.validate(['fasting'], null)).toBeNull();
+  });
+});
+
+describe('GlucoseTagService.summarizeByTag', () => {
+  const readings = [
+    // 01:00 and 05:30 in New York; untagged, so overnight
+    reading('2024-01-15T06:00:00Z', 60),
+    reading('2024-01-15T10:30:00Z', 100),
+    // 06:00 in New York, outside the overnight window
+    reading('2024-01-15T11:00:00Z', 200),
+    // Tagged readings are never overnight, whatever the time
+    reading('2024-01-15T07:00:00Z', 110, { tags: ['fasting'] }),
+    reading('2024-01-15T17:00:00Z', 150, { tags: ['post_meal_1h'], meal_type: 'lunch' }),
+    reading('2024-01-15T17:30:00Z', 190, { tags: ['post_meal_1h'], meal_type: 'lunch' })
+  ];
+  const stats = GlucoseTagService.summarizeByTag(readings, THRESHOLDS, 'start', 'end', 'America/New_York');
+
+  it('counts untagged readings from midnight to 06:00 local time as overnight', () => {
+    expect(stats.byTag.overnight).toEqual({
+      readings: 2,
+      average: 80,
+      min: 60,
+      max: 100,
+      standardDeviation: 20,
+      percentBelowRange: 50,
+      percentInRange: 50,
+      percentAboveRange: 0
+    });
+    expect(stats.untaggedReadings).toBe(3);
+    expect(stats.totalReadings).toBe(6);
+  });
+
+  it('breaks meal-relative tags down by meal type', () => {
+    expect(stats.byTag.fasting?.readings).toBe(1);
+    expect(stats.byMealType).toEqual({
+      post_meal_1h: {
+        lunch: expect.objectContaining({ readings: 2, average: 170, percentInRange: 50, percentAboveRange: 50 })
+      }
+    });
+  });
+
+  it('leaves out tags without readings', () => {
+    expect(stats.byTag.bedtime).toBeUndefined();
+  });
+});
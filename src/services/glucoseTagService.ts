@@ -0,0 +1,134 @@
+import {
+  GlucoseContextTag,
+  GlucoseReading,
+  GlucoseTagStats,
+  GlucoseTagSummary,
+  GlucoseThresholds,
+  MealType
+} from '../types';
+import { minuteOfZonedDay } from '../utils/timezone';
+
+type MealRelativeTag = keyof GlucoseTagStats['byMealType'];
+
+export class GlucoseTagService {
+  static readonly TAGS: GlucoseContextTag[] = [
+    'fasting',
+    'pre_meal',
+    'post_meal_1h',
+    'post_meal_2h',
+    'bedtime',
+    'overnight',
+    'exercise',
+    'sick'
+  ];
+  static readonly MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+  static readonly MEAL_RELATIVE_TAGS: MealRelativeTag[] = ['pre_meal', 'post_meal_1h', 'post_meal_2h'];
+
+  // Untagged readings in this local-time window count as overnight
+  static readonly OVERNIGHT_START_MINUTE = 0;
+  static readonly OVERNIGHT_END_MINUTE = 6 * 60;
+
+  // Tags that describe when a reading was taken relative to a meal; only one of them can apply
+  private static readonly EXCLUSIVE_TAGS: GlucoseContextTag[] = ['fasting', 'pre_meal', 'post_meal_1h', 'post_meal_2h'];
+
+  // Normalize tags from a request body; returns null when the input is not a list of known tags
+  static parseTags(value: unknown): GlucoseContextTag[] | null {
+    if (!Array.isArray(value) || value.some(tag => !this.TAGS.includes(tag))) {
+      return null;
+    }
+    return [...new Set(value as GlucoseContextTag[])];
+  }
+
+  static parseMealType(value: unknown): MealType | null | undefined {
+    if (value === null) return null;
+    return this.MEAL_TYPES.includes(value as MealType) ? value as MealType : undefined;
+  }
+
+  // Returns an error message when the tag combination is contradictory
+  static validate(tags: GlucoseContextTag[], mealType: MealType | null | undefined): string | null {
+    if (tags.filter(tag => this.EXCLUSIVE_TAGS.includes(tag)).length > 1) {
+      return `tags can include only one of ${this.EXCLUSIVE_TAGS.join(', ')}`;
+    }
+    if (mealType && !tags.some(tag => (this.MEAL_RELATIVE_TAGS as GlucoseContextTag[]).includes(tag))) {
+      return `meal_type requires one of the ${this.MEAL_RELATIVE_TAGS.join(', ')} tags`;
+    }
+    return null;
+  }
+
+  static summarizeByTag(
+    readings: GlucoseReading[],
+    thresholds: GlucoseThresholds,
+    startDate: string,
+    endDate: string,
+    timeZone: string
+  ): GlucoseTagStats {
+    const byTag: GlucoseTagStats['byTag'] = {};
+    const byMealType: GlucoseTagStats['byMealType'] = {};
+    const isUntagged = (reading: GlucoseReading) => !reading.tags || reading.tags.length === 0;
+    const isOvernight = (reading: GlucoseReading) => {
+      const minute = minuteOfZonedDay(new Date(reading.timestamp), timeZone);
+      return minute >= this.OVERNIGHT_START_MINUTE && minute < this.OVERNIGHT_END_MINUTE;
+    };
+
+    for (const tag of this.TAGS) {
+      const summary = summarize(
+        readings.filter(reading =>
+          reading.tags?.includes(tag) || (tag === 'overnight' && isUntagged(reading) && isOvernight(reading))
+        ),
+        thresholds
+      );
+      if (summary) byTag[tag] = summary;
+    }
+
+    for (const tag of this.MEAL_RELATIVE_TAGS) {
+      const meals: Partial<Record<MealType, GlucoseTagSummary>> = {};
+      for (const mealType of this.MEAL_TYPES) {
+        const summary = summarize(
+          readings.filter(reading => reading.meal_type === mealType && reading.tags?.includes(tag)),
+          thresholds
+        );
+        if (summary) meals[mealType] = summary;
+      }
+      if (Object.keys(meals).length > 0) byMealType[tag] = meals;
+    }
+
+    return {
+      startDate,
+      endDate,
+      timeZone,
+      thresholds,
+      totalReadings: readings.length,
+      untaggedReadings: readings.filter(isUntagged).length,
+      byTag,
+      byMealType
+    };
+  }
+}
+
+function summarize(readings: GlucoseReading[], thresholds: GlucoseThresholds): GlucoseTagSummary | null {
+  if (readings.length === 0) {
+    return null;
+  }
+
+  const values = readings.map(r => r.value);
+  const count = values.length;
+  const average = values.reduce((sum, val) => sum + val, 0) / count;
+  const variance = values.reduce((sum, val) => sum + (val - average) ** 2, 0) / count;
+  const percentOf = (predicate: (val: number) => boolean) =>
+    round1((values.filter(predicate).length / count) * 100);
+
+  return {
+    readings: count,
+    average: round1(average),
+    min: Math.min(...values),
+    max: Math.max(...values),
+    standardDeviation: round1(Math.sqrt(variance)),
+    percentBelowRange: percentOf(val => val < thresholds.low),
+    percentInRange: percentOf(val => val >= thresholds.low && val <= thresholds.high),
+    percentAboveRange: percentOf(val => val > thresholds.high)
+  };
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
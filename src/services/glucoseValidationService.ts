@@ -0,0 +1,104 @@
+import { GlucoseQualityFlag, GlucoseReading, GlucoseUnit, GlucoseValidationIssue } from '../types';
+import { HttpError } from '../utils/httpError';
+import { fromMgdl, toMgdl } from '../utils/glucoseUnits';
+
+type ReadingLike = Pick<GlucoseReading, 'value' | 'timestamp'> & Partial<Pick<GlucoseReading, 'id' | 'quality'>>;
+
+export class GlucoseValidationService {
+  // Widest range reported by current CGMs and meters, in mg/dL
+  static readonly MIN_VALUE = 20;
+  static readonly MAX_VALUE = 600;
+  // Allows for clock drift between the device and the server
+  static readonly MAX_FUTURE_MINUTES = 5;
+  // Glucose does not physiologically move faster than ~4-5 mg/dL per minute; faster jumps are sensor artefacts
+  static readonly MAX_PLAUSIBLE_RATE = 6;
+  static readonly RATE_WINDOW_MINUTES = 15;
+  // Neighbours closer than this are duplicates rather than a measurable rate
+  private static readonly MIN_RATE_SPAN_MINUTES = 2;
+
+  // Check a reading from a request body before it is converted to mg/dL; throws a 422 HttpError listing every problem
+  static validateInput(
+    input: { value?: unknown; timestamp?: unknown },
+    unit: GlucoseUnit,
+    options: { partial?: boolean; now?: Date } = {}
+  ): void {
+    const issues: GlucoseValidationIssue[] = [];
+    const now = options.now || new Date();
+
+    if (input.value !== undefined || !options.partial) {
+      issues.push(...this.checkValue(input.value, unit));
+    }
+
+    if (input.timestamp !== undefined || !options.partial) {
+      const time = typeof input.timestamp === 'string' ? new Date(input.timestamp).getTime() : NaN;
+
+      if (isNaN(time)) {
+        issues.push({ field: 'timestamp', code: 'INVALID_TIMESTAMP', message: 'timestamp must be an ISO 8601 date-time' });
+      } else if (time - now.getTime() > this.MAX_FUTURE_MINUTES * 60000) {
+        issues.push({ field: 'timestamp', code: 'FUTURE_TIMESTAMP', message: 'timestamp cannot be in the future' });
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new HttpError(422, 'Glucose reading failed validation', 'INVALID_GLUCOSE_READING', { issues });
+    }
+  }
+
+  static checkValue(value: unknown, unit: GlucoseUnit): GlucoseValidationIssue[] {
+    if (typeof value !== 'number' || !isFinite(value)) {
+      return [{ field: 'value', code: 'INVALID_VALUE', message: 'value must be a number' }];
+    }
+
+    const mgdl = toMgdl(value, unit);
+    if (mgdl >= this.MIN_VALUE && mgdl <= this.MAX_VALUE) {
+      return [];
+    }
+
+    // A value that fits the other unit's sensor range was most likely entered in that unit
+    const otherUnit: GlucoseUnit = unit === 'mg/dL' ? 'mmol/L' : 'mg/dL';
+    const asOtherUnit = toMgdl(value, otherUnit);
+    if (asOtherUnit >= this.MIN_VALUE && asOtherUnit <= this.MAX_VALUE) {
+      return [{
+        field: 'value',
+        code: 'UNIT_MISMATCH',
+        message: `${value} is outside the sensor range in ${unit} but looks like a ${otherUnit} value; check the unit`
+      }];
+    }
+
+    return [{
+      field: 'value',
+      code: 'OUT_OF_RANGE',
+      message: `value must be between ${fromMgdl(this.MIN_VALUE, unit)} and ${fromMgdl(this.MAX_VALUE, unit)} ${unit}`
+    }];
+  }
+
+  // Compare a reading with its nearest neighbour on each side; flagged neighbours are ignored.
+  // Batches should be assessed in time order with each result applied before the next reading.
+  static assessQuality(reading: ReadingLike, neighbours: ReadingLike[]): GlucoseQualityFlag[] {
+    const time = new Date(reading.timestamp).getTime();
+    if (isNaN(time)) {
+      return [];
+    }
+
+    const candidates = neighbours
+      .filter(other => other !== reading && (!reading.id || other.id !== reading.id) && other.quality !== 'flagged')
+      .map(other => ({ value: other.value, offset: (new Date(other.timestamp).getTime() - time) / 60000 }))
+      .filter(({ offset }) =>
+        !isNaN(offset) &&
+        Math.abs(offset) >= this.MIN_RATE_SPAN_MINUTES &&
+        Math.abs(offset) <= this.RATE_WINDOW_MINUTES
+      );
+
+    const nearest = (side: 1 | -1) => candidates
+      .filter(({ offset }) => Math.sign(offset) === side)
+      .sort((a, b) => Math.abs(a.offset) - Math.abs(b.offset))[0];
+
+    // A spike jumps away from both sides; a jump on one side only is a step that cannot be attributed
+    const compared = [nearest(-1), nearest(1)].filter(neighbour => neighbour !== undefined);
+    const implausible = compared.length > 0 && compared.every(neighbour =>
+      Math.abs(reading.value - neighbour.value) / Math.abs(neighbour.offset) > this.MAX_PLAUSIBLE_RATE
+    );
+
+    return implausible ? ['implausible_rate'] : [];
+  }
+}
@@ -0,0 +1,217 @@
+import { supabase } from '../config/database';
+import {
+  InsulinDailyTotal,
+  InsulinDailyTotals,
+  InsulinDose,
+  InsulinDoseSource,
+  InsulinDoseType,
+  InsulinKind
+} from '../types';
+import { DEFAULT_TIMEZONE, formatZonedDate, startOfZonedDay } from '../utils/timezone';
+
+export type NewInsulinDose = Omit<InsulinDose, 'id' | 'created_at' | 'updated_at'>;
+
+export class InsulinService {
+  static readonly DOSE_TYPES: InsulinDoseType[] = ['bolus', 'basal'];
+  static readonly INSULIN_TYPES: InsulinKind[] = ['rapid_acting', 'long_acting'];
+  static readonly SOURCES: InsulinDoseSource[] = ['manual', 'chat', 'pump_import'];
+  // Larger single doses are almost always a typo (e.g. 80 for 8.0)
+  static readonly MAX_UNITS = 100;
+
+  private static readonly RANGE_PAGE_SIZE = 1000;
+
+  static async getDoses(userId: string, limit: number = 100): Promise<InsulinDose[]> {
+    try {
+      const { data, error } = await supabase
+        .from('insulin_doses')
+        .select('*')
+        .eq('user_id', userId)
+        .order('timestamp', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  static async getDoseById(doseId: string): Promise<InsulinDose | null> {
+    try {
+      const { data, error } = await supabase
+        .from('insulin_doses')
+        .select('*')
+        .eq('id', doseId)
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Doses with startDate <= timestamp < endDate, oldest first
+  static async getDosesByDateRange(userId: string, startDate: string, endDate: string): Promise<InsulinDose[]> {
+    try {
+      const doses: InsulinDose[] = [];
+
+      for (let from = 0; ; from += this.RANGE_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('insulin_doses')
+          .select('*')
+          .eq('user_id', userId)
+          .gte('timestamp', startDate)
+          .lt('timestamp', endDate)
+          .order('timestamp', { ascending: true })
+          .range(from, from + this.RANGE_PAGE_SIZE - 1);
+
+        if (error) {
+          return [];
+        }
+
+        doses.push(...(data || []));
+
+        if (!data || data.length < this.RANGE_PAGE_SIZE) {
+          return doses;
+        }
+      }
+    } catch (error) {
+      return [];
+    }
+  }
+
+  static async createDose(dose: NewInsulinDose): Promise<InsulinDose | null> {
+    try {
+      const { data, error } = await supabase
+        .from('insulin_doses')
+        .insert([dose])
+        .select()
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async updateDose(doseId: string, updates: Partial<NewInsulinDose>): Promise<InsulinDose | null> {
+    try {
+      const { data, error } = await supabase
+        .from('insulin_doses')
+        .update(updates)
+        .eq('id', doseId)
+        .select()
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async deleteDose(doseId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('insulin_doses')
+        .delete()
+        .eq('id', doseId);
+
+      return !error;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // A dose can only be linked to one of the user's own food logs
+  static async foodLogExists(userId: string, foodLogId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase
+        .from('food_analysis_logs')
+        .select('id')
+        .eq('id', foodLogId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      return !error && !!data;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Totals per local calendar day from startDate's local midnight up to (excluding) endDate
+  static async getDailyTotals(
+    userId: string,
+    startDate: Date,
+    endDate: Date,
+    timeZone: string = DEFAULT_TIMEZONE
+  ): Promise<InsulinDailyTotals | null> {
+    try {
+      const doses = await this.getDosesByDateRange(userId, startDate.toISOString(), endDate.toISOString());
+      return this.summarizeDays(doses, startDate, endDate, timeZone);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static summarizeDays(doses: InsulinDose[], startDate: Date, endDate: Date, timeZone: string): InsulinDailyTotals {
+    const byDate = new Map<string, InsulinDose[]>();
+    for (const dose of doses) {
+      const date = formatZonedDate(new Date(dose.timestamp), timeZone);
+      byDate.set(date, [...(byDate.get(date) || []), dose]);
+    }
+
+    const days: InsulinDailyTotal[] = [];
+    for (
+      let day = startOfZonedDay(startDate, timeZone);
+      day.getTime() < endDate.getTime();
+      day = startOfZonedDay(day, timeZone, 1)
+    ) {
+      const date = formatZonedDate(day, timeZone);
+      const dayDoses = byDate.get(date) || [];
+      const sumOf = (type: InsulinDoseType) =>
+        round2(dayDoses.filter(dose => dose.dose_type === type).reduce((sum, dose) => sum + Number(dose.units), 0));
+      const bolusUnits = sumOf('bolus');
+      const basalUnits = sumOf('basal');
+
+      days.push({
+        date,
+        doses: dayDoses.length,
+        bolusUnits,
+        basalUnits,
+        totalUnits: round2(bolusUnits + basalUnits)
+      });
+    }
+
+    const averageOf = (pick: (day: InsulinDailyTotal) => number) =>
+      days.length > 0 ? round2(days.reduce((sum, day) => sum + pick(day), 0) / days.length) : 0;
+
+    return {
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      timeZone,
+      days,
+      averageDailyUnits: averageOf(day => day.totalUnits),
+      averageBolusUnits: averageOf(day => day.bolusUnits),
+      averageBasalUnits: averageOf(day => day.basalUnits)
+    };
+  }
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,137 @@
+import { supabase } from '../config/database';
+import { KetoneLevel, KetoneReading, KetoneSampleType } from '../types';
+
+export type NewKetoneReading = Omit<KetoneReading, 'id' | 'created_at' | 'updated_at'>;
+
+export class KetoneService {
+  static readonly SAMPLE_TYPES: KetoneSampleType[] = ['blood', 'urine'];
+  // Highest value a blood meter reports and the darkest urine strip colour, in mmol/L
+  static readonly MAX_VALUE: Record<KetoneSampleType, number> = { blood: 8, urine: 16 };
+
+  // Lower bounds in mmol/L for each level above normal; urine strips read acetoacetate, so the scale differs
+  static readonly LEVEL_THRESHOLDS: Record<KetoneSampleType, { elevated: number; high: number; very_high: number }> = {
+    blood: { elevated: 0.6, high: 1.5, very_high: 3 },
+    // Trace, moderate and large on a urine strip
+    urine: { elevated: 0.5, high: 4, very_high: 8 }
+  };
+
+  static classify(value: number, sampleType: KetoneSampleType): KetoneLevel {
+    const thresholds = this.LEVEL_THRESHOLDS[sampleType];
+    if (value >= thresholds.very_high) return 'very_high';
+    if (value >= thresholds.high) return 'high';
+    if (value >= thresholds.elevated) return 'elevated';
+    return 'normal';
+  }
+
+  static withLevel(reading: KetoneReading): KetoneReading & { level: KetoneLevel } {
+    return { ...reading, level: this.classify(reading.value, reading.sample_type) };
+  }
+
+  static async getReadings(userId: string, limit: number = 100): Promise<KetoneReading[]> {
+    try {
+      const { data, error } = await supabase
+        .from('ketone_readings')
+        .select('*')
+        .eq('user_id', userId)
+        .order('timestamp', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  static async getReadingById(readingId: string): Promise<KetoneReading | null> {
+    try {
+      const { data, error } = await supabase
+        .from('ketone_readings')
+        .select('*')
+        .eq('id', readingId)
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Readings with startDate <= timestamp < endDate, oldest first
+  static async getReadingsByDateRange(userId: string, startDate: string, endDate: string): Promise<KetoneReading[]> {
+    try {
+      const { data, error } = await supabase
+        .from('ketone_readings')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('timestamp', startDate)
+        .lt('timestamp', endDate)
+        .order('timestamp', { ascending: true });
+
+      if (error) {
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  static async createReading(reading: NewKetoneReading): Promise<KetoneReading | null> {
+    try {
+      const { data, error } = await supabase
+        .from('ketone_readings')
+        .insert([reading])
+        .select()
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async updateReading(readingId: string, updates: Partial<NewKetoneReading>): Promise<KetoneReading | null> {
+    try {
+      const { data, error } = await supabase
+        .from('ketone_readings')
+        .update(updates)
+        .eq('id', readingId)
+        .select()
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async deleteReading(readingId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('ketone_readings')
+        .delete()
+        .eq('id', readingId);
+
+      return !error;
+    } catch (error) {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,478 @@
+import { supabase } from '../config/database';
+import {
+  GlucoseUnit,
+  PendingActivityEntry,
+  PendingFoodEntry,
+  PendingGlucoseEntry,
+  PendingInsulinEntry,
+  PendingLogEntry,
+  PendingLogItem,
+  PendingLogItemStatus,
+  PendingLogItemType
+} from '../types';
+import { toMgdl } from '../utils/glucoseUnits';
+import { ActivityService } from './activityService';
+import { AIService } from './aiService';
+import { ChatService } from './chatService';
+import { FoodAnalysisService } from './foodAnalysisService';
+import { GlucoseService } from './glucoseService';
+import { GlucoseTagService } from './glucoseTagService';
+import { GlucoseValidationService } from './glucoseValidationService';
+import { InsulinService } from './insulinService';
+
+export type NewPendingLogItem = Omit<PendingLogItem, 'id' | 'created_at' | 'updated_at'>;
+export type ExtractedLogItem = Pick<PendingLogItem, 'item_type' | 'data' | 'source_text'>;
+
+type ParsedEntry = { data?: PendingLogEntry; error?: string };
+
+// Narrows an input field to one of the allowed values
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+export class LogInboxService {
+  static readonly ITEM_TYPES: PendingLogItemType[] = ['glucose', 'food', 'insulin', 'activity'];
+  static readonly STATUSES: PendingLogItemStatus[] = ['pending', 'confirmed', 'rejected'];
+  static readonly MAX_CARBS = 500;
+  static readonly MAX_DESCRIPTION_LENGTH = 200;
+  // Entries said to have happened longer ago than this are left out
+  static readonly MAX_MINUTES_AGO = 24 * 60;
+  private static readonly MAX_ITEMS_PER_MESSAGE = 10;
+  // Allows for clock drift between the device and the server
+  private static readonly MAX_FUTURE_MINUTES = 5;
+
+  // Validated entries mentioned in a chat message; never rejects, so it can run alongside the chat response
+  static async extractFromMessage(message: string, unit: GlucoseUnit, now: Date = new Date()): Promise<ExtractedLogItem[]> {
+    const entries = await AIService.extractLogEntries(message, unit);
+
+    // Without Claude, exercise can still be picked up by the keyword matcher
+    if (!entries) {
+      return ActivityService.extractFromMessage(message).map(activity => ({
+        item_type: 'activity' as const,
+        data: { ...activity, timestamp: new Date(now.getTime() - activity.duration_minutes * 60000).toISOString() },
+        source_text: null
+      }));
+    }
+
+    return entries
+      .map(entry => this.fromExtraction(entry, unit, now).item)
+      .filter((item): item is ExtractedLogItem => item !== undefined)
+      .slice(0, this.MAX_ITEMS_PER_MESSAGE);
+  }
+
+  // An entry in the shape AIService.extractLogEntries asks Claude for, or the reason it was refused
+  static fromExtraction(entry: unknown, unit: GlucoseUnit, now: Date): { item?: ExtractedLogItem; error?: string } {
+    if (!entry || typeof entry !== 'object') {
+      return { error: 'entry must be an object' };
+    }
+
+    // Claude sends null for anything the message does not state; defaults apply instead
+    const raw: Record<string, unknown> = Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== null));
+    const { type, minutes_ago: inputMinutesAgo, duration_minutes: inputDuration } = raw;
+
+    if (!isOneOf(this.ITEM_TYPES, type)) {
+      return { error: `type must be one of ${this.ITEM_TYPES.join(', ')}` };
+    }
+
+    const minutesAgo = typeof inputMinutesAgo === 'number' ? Math.max(0, inputMinutesAgo) : 0;
+    const duration = type === 'activity' && typeof inputDuration === 'number' ? inputDuration : 0;
+
+    if (minutesAgo > this.MAX_MINUTES_AGO) {
+      return { error: `minutes_ago cannot be more than ${this.MAX_MINUTES_AGO}` };
+    }
+
+    // Activities are stored by their start time
+    const timestamp = new Date(now.getTime() - (minutesAgo + duration) * 60000).toISOString();
+    const { data, error } = this.parseEntry(type, { ...raw, timestamp }, unit, undefined, now);
+    const text = raw['text'];
+
+    if (!data) {
+      return { error: error || 'Invalid entry' };
+    }
+
+    return {
+      item: { item_type: type, data, source_text: typeof text === 'string' ? text.slice(0, this.MAX_DESCRIPTION_LENGTH) : null }
+    };
+  }
+
+  // Drops entries that repeat an earlier one apart from its time, e.g. the same dose extracted and proposed
+  static dedupe(items: ExtractedLogItem[]): ExtractedLogItem[] {
+    const seen = new Set<string>();
+    return items.filter(item => {
+      const { timestamp: _timestamp, ...fields } = item.data;
+      const key = `${item.item_type}:${JSON.stringify(fields)}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  // Check entry fields for a type; fields left out of input keep their existing value. Glucose input is in the user's unit
+  static parseEntry(
+    type: PendingLogItemType,
+    input: Record<string, unknown>,
+    unit: GlucoseUnit,
+    existing?: PendingLogEntry,
+    now: Date = new Date()
+  ): ParsedEntry {
+    let timestamp = existing?.timestamp;
+
+    if (input['timestamp'] !== undefined) {
+      const time = typeof input['timestamp'] === 'string' ? new Date(input['timestamp']).getTime() : NaN;
+      if (isNaN(time)) {
+        return { error: 'timestamp must be an ISO 8601 date-time' };
+      }
+      if (time - now.getTime() > this.MAX_FUTURE_MINUTES * 60000) {
+        return { error: 'timestamp cannot be in the future' };
+      }
+      timestamp = new Date(time).toISOString();
+    }
+
+    if (!timestamp) {
+      return { error: 'timestamp is required' };
+    }
+
+    switch (type) {
+      case 'glucose':
+        return this.parseGlucose(input, unit, existing as PendingGlucoseEntry | undefined, timestamp);
+      case 'food':
+        return this.parseFood(input, existing as PendingFoodEntry | undefined, timestamp);
+      case 'insulin':
+        return this.parseInsulin(input, existing as PendingInsulinEntry | undefined, timestamp);
+      case 'activity':
+        return this.parseActivity(input, existing as PendingActivityEntry | undefined, timestamp);
+    }
+  }
+
+  private static parseGlucose(
+    input: Record<string, unknown>,
+    unit: GlucoseUnit,
+    existing: PendingGlucoseEntry | undefined,
+    timestamp: string
+  ): ParsedEntry {
+    const { value: inputValue } = input;
+    let value = existing?.value;
+
+    if (inputValue !== undefined) {
+      const [issue] = GlucoseValidationService.checkValue(inputValue, unit);
+      if (issue || typeof inputValue !== 'number') {
+        return { error: issue?.message || 'value must be a number' };
+      }
+      value = toMgdl(inputValue, unit);
+    }
+
+    if (value === undefined) {
+      return { error: 'value is required' };
+    }
+
+    return { data: { value, timestamp } };
+  }
+
+  private static parseFood(input: Record<string, unknown>, existing: PendingFoodEntry | undefined, timestamp: string): ParsedEntry {
+    const { description: inputDescription, carbs: inputCarbs, meal_type: inputMealType } = input;
+    let description = existing?.description;
+    let carbs = existing?.carbs;
+    let mealType = existing?.meal_type;
+
+    if (inputDescription !== undefined) {
+      if (typeof inputDescription !== 'string' || !inputDescription.trim()) {
+        return { error: 'description must be a non-empty string' };
+      }
+      description = inputDescription.trim().slice(0, this.MAX_DESCRIPTION_LENGTH);
+    }
+
+    if (inputCarbs !== undefined) {
+      if (typeof inputCarbs !== 'number' || !(inputCarbs >= 0) || inputCarbs > this.MAX_CARBS) {
+        return { error: `carbs must be a number of grams from 0 to ${this.MAX_CARBS}` };
+      }
+      carbs = Math.round(inputCarbs);
+    }
+
+    // null clears the meal type
+    if (inputMealType !== undefined) {
+      if (inputMealType !== null && !isOneOf(GlucoseTagService.MEAL_TYPES, inputMealType)) {
+        return { error: `meal_type must be null or one of ${GlucoseTagService.MEAL_TYPES.join(', ')}` };
+      }
+      mealType = inputMealType ?? undefined;
+    }
+
+    if (description === undefined || carbs === undefined) {
+      return { error: 'description and carbs are required' };
+    }
+
+    return { data: { description, carbs, ...(mealType ? { meal_type: mealType } : {}), timestamp } };
+  }
+
+  private static parseInsulin(input: Record<string, unknown>, existing: PendingInsulinEntry | undefined, timestamp: string): ParsedEntry {
+    const { dose_type: inputDoseType, insulin_type: inputInsulinType, units: inputUnits } = input;
+    let doseType = existing?.dose_type || 'bolus';
+    let units = existing?.units;
+
+    if (inputDoseType !== undefined) {
+      if (!isOneOf(InsulinService.DOSE_TYPES, inputDoseType)) {
+        return { error: `dose_type must be one of ${InsulinService.DOSE_TYPES.join(', ')}` };
+      }
+      doseType = inputDoseType;
+    }
+
+    if (inputInsulinType !== undefined && !isOneOf(InsulinService.INSULIN_TYPES, inputInsulinType)) {
+      return { error: `insulin_type must be one of ${InsulinService.INSULIN_TYPES.join(', ')}` };
+    }
+
+    if (inputUnits !== undefined) {
+      if (typeof inputUnits !== 'number' || !(inputUnits > 0) || inputUnits > InsulinService.MAX_UNITS) {
+        return { error: `units must be a number greater than 0 and at most ${InsulinService.MAX_UNITS}` };
+      }
+      units = Math.round(inputUnits * 100) / 100;
+    }
+
+    if (units === undefined) {
+      return { error: 'units is required' };
+    }
+
+    // Boluses are rapid-acting and basal injections long-acting unless stated otherwise
+    const insulinType = inputInsulinType
+      || (inputDoseType === undefined && existing?.insulin_type)
+      || (doseType === 'bolus' ? 'rapid_acting' : 'long_acting');
+
+    return { data: { dose_type: doseType, insulin_type: insulinType, units, timestamp } };
+  }
+
+  private static parseActivity(input: Record<string, unknown>, existing: PendingActivityEntry | undefined, timestamp: string): ParsedEntry {
+    const { activity_type: inputActivityType, intensity: inputIntensity, duration_minutes: inputDuration } = input;
+    let activityType = existing?.activity_type;
+    let duration = existing?.duration_minutes;
+
+    if (inputActivityType !== undefined) {
+      if (!isOneOf(ActivityService.ACTIVITY_TYPES, inputActivityType)) {
+        return { error: `activity_type must be one of ${ActivityService.ACTIVITY_TYPES.join(', ')}` };
+      }
+      activityType = inputActivityType;
+    }
+
+    if (inputIntensity !== undefined && !isOneOf(ActivityService.INTENSITIES, inputIntensity)) {
+      return { error: `intensity must be one of ${ActivityService.INTENSITIES.join(', ')}` };
+    }
+
+    if (inputDuration !== undefined) {
+      if (
+        typeof inputDuration !== 'number'
+        || !(inputDuration >= 1)
+        || inputDuration > ActivityService.MAX_DURATION_MINUTES
+      ) {
+        return { error: `duration_minutes must be a number from 1 to ${ActivityService.MAX_DURATION_MINUTES}` };
+      }
+      duration = Math.round(inputDuration);
+    }
+
+    if (activityType === undefined || duration === undefined) {
+      return { error: 'activity_type and duration_minutes are required' };
+    }
+
+    // A changed activity type brings its own default intensity
+    const intensity = inputIntensity
+      || (inputActivityType === undefined && existing?.intensity)
+      || ActivityService.DEFAULT_INTENSITY[activityType];
+
+    return { data: { activity_type: activityType, duration_minutes: duration, intensity, timestamp } };
+  }
+
+  static async getItems(userId: string, status: PendingLogItemStatus | null = 'pending', limit: number = 50): Promise<PendingLogItem[]> {
+    try {
+      let query = supabase
+        .from('pending_log_items')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  static async getItemById(itemId: string): Promise<PendingLogItem | null> {
+    try {
+      const { data, error } = await supabase
+        .from('pending_log_items')
+        .select('*')
+        .eq('id', itemId)
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Puts entries from a chat message in the inbox and records them on the conversation
+  static async addItems(userId: string, conversationId: string | null, extracted: ExtractedLogItem[]): Promise<PendingLogItem[]> {
+    if (extracted.length === 0) {
+      return [];
+    }
+
+    try {
+      const items: NewPendingLogItem[] = extracted.map(item => ({
+        ...item,
+        user_id: userId,
+        conversation_id: conversationId,
+        status: 'pending',
+        record_id: null,
+        resolved_at: null
+      }));
+
+      const { data, error } = await supabase
+        .from('pending_log_items')
+        .insert(items)
+        .select();
+
+      if (error) {
+        return [];
+      }
+
+      if (conversationId) {
+        await this.syncConversation(conversationId);
+      }
+
+      return data || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  static async updateItem(itemId: string, updates: Partial<NewPendingLogItem>): Promise<PendingLogItem | null> {
+    try {
+      const { data, error } = await supabase
+        .from('pending_log_items')
+        .update(updates)
+        .eq('id', itemId)
+        .select()
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Writes the entry to its own table. The item is claimed first so a repeated confirmation
+  // cannot log it twice, and released again if the write fails
+  static async confirmItem(item: PendingLogItem): Promise<PendingLogItem | null> {
+    const claimed = await this.resolveItem(item.id, 'confirmed');
+    if (!claimed) {
+      return null;
+    }
+
+    const recordId = await this.writeRecord(claimed);
+    if (!recordId) {
+      await this.updateItem(item.id, { status: 'pending', resolved_at: null });
+      return null;
+    }
+
+    const confirmed = await this.updateItem(item.id, { record_id: recordId });
+    if (item.conversation_id) {
+      await this.syncConversation(item.conversation_id);
+    }
+    return confirmed;
+  }
+
+  static async rejectItem(item: PendingLogItem): Promise<PendingLogItem | null> {
+    const rejected = await this.resolveItem(item.id, 'rejected');
+    if (rejected && item.conversation_id) {
+      await this.syncConversation(item.conversation_id);
+    }
+    return rejected;
+  }
+
+  // Moves a pending item to its final status; null when it was no longer pending
+  private static async resolveItem(itemId: string, status: Exclude<PendingLogItemStatus, 'pending'>): Promise<PendingLogItem | null> {
+    try {
+      const { data, error } = await supabase
+        .from('pending_log_items')
+        .update({ status, resolved_at: new Date().toISOString() })
+        .eq('id', itemId)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Id of the stored record, or null when it could not be written
+  private static async writeRecord(item: PendingLogItem): Promise<string | null> {
+    switch (item.item_type) {
+      case 'glucose': {
+        const entry = item.data as PendingGlucoseEntry;
+        const result = await GlucoseService.saveReading({ user_id: item.user_id, ...entry, source: 'manual' });
+        // A duplicate of a stored reading links to the reading that was kept
+        return result ? result.reading.id : null;
+      }
+      case 'food': {
+        const entry = item.data as PendingFoodEntry;
+        const log = await FoodAnalysisService.createLog(item.user_id, {
+          foods: [{ name: entry.description, carbs: entry.carbs }],
+          totalCarbs: entry.carbs,
+          ...(entry.meal_type ? { mealType: entry.meal_type } : {}),
+          source: 'chat'
+        }, entry.timestamp);
+        return log ? log.id : null;
+      }
+      case 'insulin': {
+        const entry = item.data as PendingInsulinEntry;
+        const dose = await InsulinService.createDose({ user_id: item.user_id, ...entry, food_log_id: null, source: 'chat' });
+        return dose ? dose.id : null;
+      }
+      case 'activity': {
+        const entry = item.data as PendingActivityEntry;
+        const activity = await ActivityService.createActivity({ user_id: item.user_id, ...entry, source: 'chat' });
+        return activity ? activity.id : null;
+      }
+    }
+  }
+
+  // Rebuilds the conversation's auto_logged_data from its inbox items
+  private static async syncConversation(conversationId: string): Promise<void> {
+    try {
+      const { data, error } = await supabase
+        .from('pending_log_items')
+        .select('id, item_type, status, record_id')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return;
+      }
+
+      await ChatService.updateAutoLoggedData(conversationId, { items: data || [] });
+    } catch (error) {
+      return;
+    }
+  }
+}
@@ -21,6 +21,27 @@ export class MealPlanningService {
     }
   }
 
+  // Plans for dates from startDate to endDate (YYYY-MM-DD), both included
+  static async getMealPlansByDateRange(userId: string, startDate: string, endDate: string): Promise<MealPlan[]> {
+    try {
+      const { data, error } = await supabase
+        .from('meal_plans')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('date', startDate)
+        .lte('date', endDate)
+        .order('date', { ascending: true });
+
+      if (error) {
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
   static async saveMealPlan(mealPlan: Omit<MealPlan, 'id' | 'created_at' | 'updated_at'>): Promise<MealPlan | null> {
     try {
       const { data, error } = await supabase
@@ -0,0 +1,133 @@
+import { InsulinDose } from '../types';
+import { OnBoardService } from './onBoardService';
+
+// Only the pure calculations are tested; the food log client is not needed
+jest.mock('./foodAnalysisService', () => ({ FoodAnalysisService: {} }));
+
+const AT = new Date('2024-01-01T12:00:00Z');
+const SETTINGS = OnBoardService.DEFAULT_SETTINGS;
+
+const minutesBefore = (minutes: number): string => new Date(AT.getTime() - minutes * 60000).toISOString();
+
+const dose = (minutesAgo: number, units: number, extra: Partial<InsulinDose> = {}): InsulinDose => ({
+  id: `d${minutesAgo}`,
+  user_id: 'user-1',
+  dose_type: 'bolus',
+  insulin_type: 'rapid_acting',
+  units,
+  timestamp: minutesBefore(minutesAgo),
+  source: 'manual',
+  created_at: AT.toISOString(),
+  updated_at: AT.toISOString(),
+  ...extra
+});
+
+describe('OnBoardService.insulinRemaining', () => {
+  it('starts at the full dose and reaches zero at the end of the action time', () => {
+    expect(OnBoardService.insulinRemaining(0, 300, 75)).toBe(1);
+    expect(OnBoardService.insulinRemaining(300, 300, 75)).toBe(0);
+    expect(OnBoardService.insulinRemaining(-5, 300, 75)).toBe(0);
+  });
+
+  it('matches the oref0 exponential curve for rapid-acting insulin over 5 hours', () => {
+    expect(OnBoardService.insulinRemaining(60, 300, 75)).toBeCloseTo(0.764, 3);
+    expect(OnBoardService.insulinRemaining(120, 300, 75)).toBeCloseTo(0.411, 3);
+    expect(OnBoardService.insulinRemaining(180, 300, 75)).toBeCloseTo(0.159, 3);
+  });
+
+  it('decreases throughout, fastest at the peak', () => {
+    let steepest = { minute: 0, drop: 0 };
+    for (let minute = 1; minute <= 300; minute++) {
+      const drop = OnBoardService.insulinRemaining(minute - 1, 300, 75) - OnBoardService.insulinRemaining(minute, 300, 75);
+      expect(drop).toBeGreaterThanOrEqual(0);
+      if (drop > steepest.drop) steepest = { minute, drop };
+    }
+
+    expect(Math.abs(steepest.minute - 75)).toBeLessThanOrEqual(1);
+  });
+
+  it('acts faster with an earlier peak', () => {
+    expect(OnBoardService.insulinRemaining(60, 300, 55)).toBeLessThan(OnBoardService.insulinRemaining(60, 300, 75));
+  });
+});
+
+describe('OnBoardService.carbsRemaining', () => {
+  it('absorbs nothing for the first 10 minutes', () => {
+    expect(OnBoardService.carbsRemaining(10, 180, 'linear')).toBe(1);
+    expect(OnBoardService.carbsRemaining(10, 180, 'parabolic')).toBe(1);
+  });
+
+  it('absorbs linearly or along the parabolic model', () => {
+    expect(OnBoardService.carbsRemaining(55, 180, 'linear')).toBeCloseTo(0.75);
+    expect(OnBoardService.carbsRemaining(55, 180, 'parabolic')).toBeCloseTo(0.875);
+    // Both models are half absorbed halfway through
+    expect(OnBoardService.carbsRemaining(100, 180, 'linear')).toBeCloseTo(0.5);
+    expect(OnBoardService.carbsRemaining(100, 180, 'parabolic')).toBeCloseTo(0.5);
+    expect(OnBoardService.carbsRemaining(190, 180, 'parabolic')).toBe(0);
+  });
+});
+
+describe('OnBoardService.calculate', () => {
+  it('sums rapid-acting boluses and carbs on board at the given time', () => {
+    const report = OnBoardService.calculate(
+      [dose(60, 4), dose(120, 2)],
+      [{ timestamp: minutesBefore(55), carbs: 60 }],
+      SETTINGS,
+      AT
+    );
+
+    // 4 x 0.764 + 2 x 0.411
+    expect(report.iob).toBeCloseTo(3.88, 2);
+    expect(report.cob).toBe(45);
+    expect(report.lastBolusAt).toBe(minutesBefore(60));
+    expect(report.lastCarbsAt).toBe(minutesBefore(55));
+  });
+
+  it('leaves out basal, long-acting, future and fully acted doses', () => {
+    const report = OnBoardService.calculate(
+      [
+        dose(30, 10, { dose_type: 'basal', insulin_type: 'long_acting' }),
+        dose(30, 10, { insulin_type: 'long_acting' }),
+        dose(-10, 5),
+        dose(301, 5)
+      ],
+      [],
+      SETTINGS,
+      AT
+    );
+
+    expect(report.iob).toBe(0);
+    expect(report.lastBolusAt).toBe(minutesBefore(301));
+  });
+
+  it('builds a 5-minute series from the history window until everything has acted', () => {
+    const report = OnBoardService.calculate([dose(0, 1)], [], SETTINGS, AT, 1);
+    const first = report.series[0];
+    const last = report.series[report.series.length - 1];
+
+    expect(first).toEqual({ timestamp: minutesBefore(60), iob: 0, cob: 0 });
+    expect(new Date(last?.timestamp as string).getTime()).toBeGreaterThanOrEqual(AT.getTime() + 300 * 60000);
+    expect(last?.iob).toBe(0);
+    expect(report.series.find(point => point.timestamp === AT.toISOString())?.iob).toBe(1);
+  });
+});
+
+describe('OnBoardService.resolveSettings', () => {
+  it('replaces missing or out-of-range preferences with defaults', () => {
+    expect(OnBoardService.resolveSettings(null)).toEqual(SETTINGS);
+    expect(OnBoardService.resolveSettings({ insulinDurationHours: 3, carbAbsorptionHours: 12 })).toEqual(SETTINGS);
+  });
+
+  it("uses the curve's own peak unless one is set", () => {
+    expect(OnBoardService.resolveSettings({ insulinActionCurve: 'ultra_rapid' }).insulinPeakMinutes).toBe(55);
+    expect(OnBoardService.resolveSettings({ insulinActionCurve: 'ultra_rapid', insulinPeakMinutes: 60 }).insulinPeakMinutes).toBe(60);
+  });
+});
+
+describe('OnBoardService.validatePreferences', () => {
+  it('reports the first invalid preference', () => {
+    expect(OnBoardService.validatePreferences({ insulinActionCurve: 'slow' })).toMatch(/^insulinActionCurve must be one of/);
+    expect(OnBoardService.validatePreferences({ insulinDurationHours: 4 })).toBe('insulinDurationHours must be a number between 5 and 8');
+    expect(OnBoardService.validatePreferences({ insulinPeakMinutes: null, carbAbsorptionHours: 2 })).toBeNull();
+  });
+});
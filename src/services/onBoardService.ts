@@ -0,0 +1,216 @@
+import {
+  CarbAbsorptionModel,
+  CarbEntry,
+  InsulinActionCurve,
+  InsulinDose,
+  OnBoardPoint,
+  OnBoardReport,
+  OnBoardSettings,
+  UserPreferences
+} from '../types';
+import { FoodAnalysisService } from './foodAnalysisService';
+import { InsulinService } from './insulinService';
+import { MealPlanningService } from './mealPlanningService';
+
+export class OnBoardService {
+  static readonly ACTION_CURVES: InsulinActionCurve[] = ['rapid_acting', 'ultra_rapid'];
+  static readonly ABSORPTION_MODELS: CarbAbsorptionModel[] = ['linear', 'parabolic'];
+
+  // Peak activity of each curve (oref0 defaults)
+  static readonly CURVE_PEAK_MINUTES: Record<InsulinActionCurve, number> = {
+    rapid_acting: 75,
+    ultra_rapid: 55
+  };
+
+  static readonly DEFAULT_SETTINGS: OnBoardSettings = {
+    insulinActionCurve: 'rapid_acting',
+    insulinDurationHours: 5,
+    insulinPeakMinutes: 75,
+    carbAbsorptionModel: 'linear',
+    carbAbsorptionHours: 3
+  };
+
+  // Exponential curves are only valid when DIA is well over twice the peak; oref0 enforces at least 5 hours
+  static readonly MIN_DURATION_HOURS = 5;
+  static readonly MAX_DURATION_HOURS = 8;
+  static readonly MIN_PEAK_MINUTES = 35;
+  static readonly MAX_PEAK_MINUTES = 120;
+  static readonly MIN_ABSORPTION_HOURS = 1;
+  static readonly MAX_ABSORPTION_HOURS = 8;
+
+  static readonly SERIES_STEP_MINUTES = 5;
+  static readonly DEFAULT_HISTORY_HOURS = 6;
+  static readonly MAX_HISTORY_HOURS = 24;
+  // Carbs are not absorbed for the first minutes after a meal
+  private static readonly CARB_DELAY_MINUTES = 10;
+
+  // Saved preferences with unset or invalid values replaced by the defaults
+  static resolveSettings(preferences: Partial<UserPreferences> | null): OnBoardSettings {
+    const curve = this.ACTION_CURVES.includes(preferences?.insulinActionCurve as InsulinActionCurve)
+      ? preferences?.insulinActionCurve as InsulinActionCurve
+      : this.DEFAULT_SETTINGS.insulinActionCurve;
+    const inRange = (value: unknown, min: number, max: number, fallback: number) =>
+      typeof value === 'number' && value >= min && value <= max ? value : fallback;
+
+    return {
+      insulinActionCurve: curve,
+      insulinDurationHours: inRange(
+        preferences?.insulinDurationHours, this.MIN_DURATION_HOURS, this.MAX_DURATION_HOURS,
+        this.DEFAULT_SETTINGS.insulinDurationHours
+      ),
+      insulinPeakMinutes: inRange(
+        preferences?.insulinPeakMinutes, this.MIN_PEAK_MINUTES, this.MAX_PEAK_MINUTES,
+        this.CURVE_PEAK_MINUTES[curve]
+      ),
+      carbAbsorptionModel: this.ABSORPTION_MODELS.includes(preferences?.carbAbsorptionModel as CarbAbsorptionModel)
+        ? preferences?.carbAbsorptionModel as CarbAbsorptionModel
+        : this.DEFAULT_SETTINGS.carbAbsorptionModel,
+      carbAbsorptionHours: inRange(
+        preferences?.carbAbsorptionHours, this.MIN_ABSORPTION_HOURS, this.MAX_ABSORPTION_HOURS,
+        this.DEFAULT_SETTINGS.carbAbsorptionHours
+      )
+    };
+  }
+
+  // Returns an error message when a provided IOB/COB preference is invalid
+  static validatePreferences(preferences: Record<string, unknown>): string | null {
+    const checkRange = (field: string, min: number, max: number) => {
+      const value = preferences[field];
+      return value !== undefined && (typeof value !== 'number' || value < min || value > max)
+        ? `${field} must be a number between ${min} and ${max}`
+        : null;
+    };
+
+    if (preferences['insulinActionCurve'] !== undefined
+      && !this.ACTION_CURVES.includes(preferences['insulinActionCurve'] as InsulinActionCurve)) {
+      return `insulinActionCurve must be one of ${this.ACTION_CURVES.join(', ')}`;
+    }
+    if (preferences['carbAbsorptionModel'] !== undefined
+      && !this.ABSORPTION_MODELS.includes(preferences['carbAbsorptionModel'] as CarbAbsorptionModel)) {
+      return `carbAbsorptionModel must be one of ${this.ABSORPTION_MODELS.join(', ')}`;
+    }
+
+    return checkRange('insulinDurationHours', this.MIN_DURATION_HOURS, this.MAX_DURATION_HOURS)
+      // null resets the peak to the curve's default
+      || (preferences['insulinPeakMinutes'] === null
+        ? null
+        : checkRange('insulinPeakMinutes', this.MIN_PEAK_MINUTES, this.MAX_PEAK_MINUTES))
+      || checkRange('carbAbsorptionHours', this.MIN_ABSORPTION_HOURS, this.MAX_ABSORPTION_HOURS);
+  }
+
+  static async getSettings(userId: string): Promise<OnBoardSettings> {
+    return this.resolveSettings(await MealPlanningService.getUserPreferences(userId));
+  }
+
+  static async getOnBoard(
+    userId: string,
+    at: Date = new Date(),
+    historyHours: number = this.DEFAULT_HISTORY_HOURS
+  ): Promise<OnBoardReport | null> {
+    try {
+      const settings = await this.getSettings(userId);
+      const seriesStart = at.getTime() - historyHours * 60 * 60 * 1000;
+      const lookbackMs = Math.max(
+        settings.insulinDurationHours * 60,
+        settings.carbAbsorptionHours * 60 + this.CARB_DELAY_MINUTES
+      ) * 60000;
+      const startDate = new Date(seriesStart - lookbackMs).toISOString();
+
+      const [doses, carbs] = await Promise.all([
+        InsulinService.getDosesByDateRange(userId, startDate, new Date(at.getTime() + 1).toISOString()),
+        FoodAnalysisService.getCarbEntries(userId, startDate, at.toISOString())
+      ]);
+
+      return this.calculate(doses, carbs, settings, at, historyHours);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Basal doses are excluded: IOB is insulin beyond what the basal rate or long-acting dose already covers
+  static calculate(
+    doses: InsulinDose[],
+    carbs: CarbEntry[],
+    settings: OnBoardSettings,
+    at: Date,
+    historyHours: number = this.DEFAULT_HISTORY_HOURS
+  ): OnBoardReport {
+    const bolusEvents = doses
+      .filter(dose => dose.dose_type === 'bolus' && dose.insulin_type === 'rapid_acting')
+      .map(dose => ({ time: new Date(dose.timestamp).getTime(), amount: Number(dose.units) }))
+      .filter(event => !isNaN(event.time) && event.time <= at.getTime() && event.amount > 0);
+    const carbEvents = carbs
+      .map(entry => ({ time: new Date(entry.timestamp).getTime(), amount: entry.carbs }))
+      .filter(event => !isNaN(event.time) && event.time <= at.getTime() && event.amount > 0);
+
+    const durationMinutes = settings.insulinDurationHours * 60;
+    const absorptionMinutes = settings.carbAbsorptionHours * 60;
+
+    const iobAt = (time: number) => bolusEvents.reduce((sum, event) =>
+      sum + event.amount * this.insulinRemaining((time - event.time) / 60000, durationMinutes, settings.insulinPeakMinutes), 0);
+    const cobAt = (time: number) => carbEvents.reduce((sum, event) =>
+      sum + event.amount * this.carbsRemaining((time - event.time) / 60000, absorptionMinutes, settings.carbAbsorptionModel), 0);
+
+    // The series runs past `at` until the last dose and meal have fully acted
+    const stepMs = this.SERIES_STEP_MINUTES * 60000;
+    const seriesStart = Math.floor((at.getTime() - historyHours * 60 * 60 * 1000) / stepMs) * stepMs;
+    const seriesEnd = Math.max(
+      at.getTime(),
+      ...bolusEvents.map(event => event.time + durationMinutes * 60000),
+      ...carbEvents.map(event => event.time + (absorptionMinutes + this.CARB_DELAY_MINUTES) * 60000)
+    );
+    const series: OnBoardPoint[] = [];
+    for (let time = seriesStart; time <= seriesEnd + stepMs; time += stepMs) {
+      // Only events that had happened by each point count, so the history shows what was on board then
+      series.push({ timestamp: new Date(time).toISOString(), iob: round2(iobAt(time)), cob: Math.round(cobAt(time)) });
+    }
+
+    const latest = (events: { time: number }[]) =>
+      events.length > 0 ? new Date(Math.max(...events.map(event => event.time))).toISOString() : null;
+
+    return {
+      at: at.toISOString(),
+      iob: round2(iobAt(at.getTime())),
+      cob: Math.round(cobAt(at.getTime())),
+      lastBolusAt: latest(bolusEvents),
+      lastCarbsAt: latest(carbEvents),
+      settings,
+      series
+    };
+  }
+
+  // Fraction of a dose still active after `minutes`, using the oref0 exponential insulin curve
+  static insulinRemaining(minutes: number, durationMinutes: number, peakMinutes: number): number {
+    if (minutes < 0) return 0;
+    if (minutes >= durationMinutes) return 0;
+
+    const tau = peakMinutes * (1 - peakMinutes / durationMinutes) / (1 - 2 * peakMinutes / durationMinutes);
+    const a = 2 * tau / durationMinutes;
+    const s = 1 / (1 - a + (1 + a) * Math.exp(-durationMinutes / tau));
+    const remaining = 1 - s * (1 - a) * (
+      (minutes ** 2 / (tau * durationMinutes * (1 - a)) - minutes / tau - 1) * Math.exp(-minutes / tau) + 1
+    );
+
+    return Math.min(1, Math.max(0, remaining));
+  }
+
+  // Fraction of a meal's carbs not yet absorbed after `minutes`
+  static carbsRemaining(minutes: number, absorptionMinutes: number, model: CarbAbsorptionModel): number {
+    if (minutes < 0) return 0;
+
+    const t = Math.max(0, minutes - this.CARB_DELAY_MINUTES) / absorptionMinutes;
+    if (t >= 1) return 0;
+
+    if (model === 'parabolic') {
+      // Absorption rate rises to a peak halfway through, then falls (Loop's parabolic model)
+      const absorbed = t < 0.5 ? 2 * t ** 2 : -1 + 4 * t * (1 - t / 2);
+      return 1 - absorbed;
+    }
+
+    return 1 - t;
+  }
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
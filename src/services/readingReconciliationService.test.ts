@@ -0,0 +1,112 @@
+import { GlucoseReading } from '../types';
+import { NewGlucoseReading, ReadingReconciliationService } from './readingReconciliationService';
+
+const START = new Date('2024-01-01T08:00:00Z');
+
+const at = (minutes: number): string => new Date(START.getTime() + minutes * 60000).toISOString();
+
+const stored = (id: string, minutes: number, source: GlucoseReading['source'], extra: Partial<GlucoseReading> = {}): GlucoseReading => ({
+  id,
+  user_id: 'user-1',
+  value: 120,
+  timestamp: at(minutes),
+  source,
+  created_at: START.toISOString(),
+  ...extra
+});
+
+const incoming = (minutes: number, source: GlucoseReading['source'], extra: Partial<NewGlucoseReading> = {}): NewGlucoseReading => ({
+  user_id: 'user-1',
+  value: 118,
+  timestamp: at(minutes),
+  source,
+  ...extra
+});
+
+describe('ReadingReconciliationService defaults', () => {
+  it('prefers CGM over other sources over manual within 2 minutes', () => {
+    expect(ReadingReconciliationService.PRECEDENCE).toEqual(['dexcom', 'other', 'manual']);
+    expect(ReadingReconciliationService.TOLERANCE_MINUTES).toBe(2);
+  });
+});
+
+describe('ReadingReconciliationService.plan', () => {
+  it('suppresses a lower-precedence incoming reading and copies its metadata to the stored one', () => {
+    const plan = ReadingReconciliationService.plan(
+      [stored('cgm', 0, 'dexcom')],
+      [incoming(1, 'manual', { notes: 'before lunch', tags: ['pre_meal'], meal_type: 'lunch' })]
+    );
+
+    expect(plan.insert).toEqual([]);
+    expect(plan.suppressed).toEqual([{ index: 0, keptId: 'cgm' }]);
+    expect(plan.update).toEqual([{ id: 'cgm', updates: { tags: ['pre_meal'], meal_type: 'lunch', notes: 'before lunch' } }]);
+    expect(plan.remove).toEqual([]);
+    expect(plan.groups).toEqual([{ timestamp: at(0), keep: 'cgm', keepSource: 'dexcom', remove: [], sources: ['dexcom', 'manual'] }]);
+  });
+
+  it('inserts a higher-precedence incoming reading and removes the stored duplicate', () => {
+    const plan = ReadingReconciliationService.plan(
+      [stored('finger', 0, 'manual', { notes: 'felt shaky' })],
+      [incoming(1.5, 'dexcom', { trend: 'flat' })]
+    );
+
+    expect(plan.insert).toEqual([{ index: 0, reading: incoming(1.5, 'dexcom', { trend: 'flat', notes: 'felt shaky' }) }]);
+    expect(plan.remove).toEqual(['finger']);
+    expect(plan.groups[0]).toMatchObject({ keep: null, keepSource: 'dexcom', remove: ['finger'] });
+  });
+
+  it('never changes the kept value or overwrites its own metadata', () => {
+    const plan = ReadingReconciliationService.plan(
+      [stored('cgm', 0, 'dexcom', { notes: 'sensor', trend: 'singleUp' })],
+      [incoming(0, 'other', { notes: 'import', trend: 'flat', value: 200 })]
+    );
+
+    expect(plan.update).toEqual([]);
+    expect(plan.suppressed).toEqual([{ index: 0, keptId: 'cgm' }]);
+  });
+
+  it('keeps the stored reading when sources tie', () => {
+    const plan = ReadingReconciliationService.plan([stored('existing', 1, 'dexcom')], [incoming(0, 'dexcom')]);
+
+    expect(plan.suppressed).toEqual([{ index: 0, keptId: 'existing' }]);
+    expect(plan.insert).toEqual([]);
+  });
+
+  it('measures the tolerance from the first reading in a cluster', () => {
+    const plan = ReadingReconciliationService.plan([], [incoming(0, 'dexcom'), incoming(1.5, 'manual'), incoming(3, 'manual')]);
+
+    expect(plan.insert.map(({ index }) => index)).toEqual([0, 2]);
+    expect(plan.suppressed).toEqual([{ index: 1, keptId: null }]);
+  });
+
+  it('leaves consecutive 5-minute CGM readings alone', () => {
+    const plan = ReadingReconciliationService.plan(
+      [stored('a', 0, 'dexcom'), stored('b', 5, 'dexcom')],
+      [incoming(10, 'dexcom'), incoming(15, 'dexcom')]
+    );
+
+    expect(plan.insert.map(({ index }) => index)).toEqual([0, 1]);
+    expect(plan.suppressed).toEqual([]);
+    expect(plan.remove).toEqual([]);
+    expect(plan.groups).toEqual([]);
+  });
+
+  it('inserts readings with unparseable timestamps as they are', () => {
+    const broken = { ...incoming(0, 'manual'), timestamp: 'not a date' };
+    const plan = ReadingReconciliationService.plan([stored('cgm', 0, 'dexcom')], [broken]);
+
+    expect(plan.insert).toEqual([{ index: 0, reading: broken }]);
+    expect(plan.suppressed).toEqual([]);
+  });
+
+  it('reconciles duplicates already stored', () => {
+    const plan = ReadingReconciliationService.plan([
+      stored('manual', 0, 'manual', { tags: ['fasting'] }),
+      stored('libre', 0.5, 'other'),
+      stored('cgm', 1, 'dexcom')
+    ]);
+
+    expect(plan.update).toEqual([{ id: 'cgm', updates: { tags: ['fasting'] } }]);
+    expect(plan.remove.sort()).toEqual(['libre', 'manual']);
+  });
+});
@@ -0,0 +1,146 @@
+import { GlucoseReading, GlucoseReconciliationGroup, GlucoseSource } from '../types';
+
+export type NewGlucoseReading = Omit<GlucoseReading, 'id' | 'created_at'>;
+
+export interface ReconciliationPlan {
+  insert: { index: number; reading: NewGlucoseReading }[];
+  // Incoming readings dropped as duplicates; keptId is null when the kept reading is itself being inserted
+  suppressed: { index: number; keptId: string | null }[];
+  update: { id: string; updates: Partial<GlucoseReading> }[];
+  remove: string[];
+  groups: GlucoseReconciliationGroup[];
+}
+
+interface Entry {
+  reading: GlucoseReading | NewGlucoseReading;
+  time: number;
+  // Position in the incoming batch; undefined for readings already stored
+  index?: number;
+}
+
+const SOURCES: GlucoseSource[] = ['dexcom', 'other', 'manual'];
+
+export class ReadingReconciliationService {
+  // Earlier sources win; e.g. GLUCOSE_SOURCE_PRECEDENCE=dexcom,manual,other
+  static readonly PRECEDENCE: GlucoseSource[] = parsePrecedence(process.env['GLUCOSE_SOURCE_PRECEDENCE']);
+  // Must stay under the 5-minute CGM interval or consecutive sensor readings would collapse
+  static readonly TOLERANCE_MINUTES: number = parseTolerance(process.env['GLUCOSE_DUPLICATE_TOLERANCE_MINUTES']);
+
+  // Readings within the tolerance of the first reading in a cluster are treated as one measurement.
+  // The highest-precedence reading is kept (stored readings win ties) and inherits missing metadata.
+  static plan(existing: GlucoseReading[], incoming: NewGlucoseReading[] = []): ReconciliationPlan {
+    const plan: ReconciliationPlan = { insert: [], suppressed: [], update: [], remove: [], groups: [] };
+    const toleranceMs = this.TOLERANCE_MINUTES * 60000;
+
+    const entries: Entry[] = [
+      ...existing.map(reading => ({ reading, time: new Date(reading.timestamp).getTime() })),
+      ...incoming.map((reading, index) => ({ reading, time: new Date(reading.timestamp).getTime(), index }))
+    ];
+
+    // Unparseable timestamps cannot be matched; new ones are inserted as-is
+    entries
+      .filter(entry => isNaN(entry.time) && entry.index !== undefined)
+      .forEach(entry => plan.insert.push({ index: entry.index as number, reading: entry.reading }));
+
+    const sorted = entries
+      .filter(entry => !isNaN(entry.time))
+      .sort((a, b) => a.time - b.time || Number(a.index !== undefined) - Number(b.index !== undefined));
+
+    let cluster: Entry[] = [];
+    for (const entry of sorted) {
+      const first = cluster[0];
+      if (first && entry.time - first.time > toleranceMs) {
+        this.resolveCluster(cluster, plan);
+        cluster = [];
+      }
+      cluster.push(entry);
+    }
+    if (cluster.length > 0) {
+      this.resolveCluster(cluster, plan);
+    }
+
+    plan.insert.sort((a, b) => a.index - b.index);
+    return plan;
+  }
+
+  private static resolveCluster(cluster: Entry[], plan: ReconciliationPlan): void {
+    const [winner, ...losers] = [...cluster].sort((a, b) =>
+      this.rank(a.reading.source) - this.rank(b.reading.source)
+      || Number(a.index !== undefined) - Number(b.index !== undefined)
+      || a.time - b.time
+    ) as [Entry, ...Entry[]];
+
+    const merged = mergeMetadata(winner.reading, losers.map(loser => loser.reading));
+    const winnerId = winner.index === undefined ? (winner.reading as GlucoseReading).id : null;
+
+    if (winner.index !== undefined) {
+      plan.insert.push({ index: winner.index, reading: { ...winner.reading, ...merged } });
+    } else if (Object.keys(merged).length > 0) {
+      plan.update.push({ id: winnerId as string, updates: merged });
+    }
+
+    for (const loser of losers) {
+      if (loser.index !== undefined) {
+        plan.suppressed.push({ index: loser.index, keptId: winnerId });
+      } else {
+        plan.remove.push((loser.reading as GlucoseReading).id);
+      }
+    }
+
+    if (losers.length > 0) {
+      plan.groups.push({
+        timestamp: winner.reading.timestamp,
+        keep: winnerId,
+        keepSource: winner.reading.source,
+        remove: losers.filter(loser => loser.index === undefined).map(loser => (loser.reading as GlucoseReading).id),
+        sources: cluster.map(entry => entry.reading.source)
+      });
+    }
+  }
+
+  private static rank(source: GlucoseSource): number {
+    const index = this.PRECEDENCE.indexOf(source);
+    return index === -1 ? this.PRECEDENCE.length : index;
+  }
+}
+
+// Fill metadata the kept reading lacks from the duplicates, in precedence order; the value is never changed
+function mergeMetadata(
+  winner: GlucoseReading | NewGlucoseReading,
+  losers: (GlucoseReading | NewGlucoseReading)[]
+): Partial<GlucoseReading> {
+  const merged: Partial<GlucoseReading> = {};
+
+  const withTags = losers.find(loser => loser.tags && loser.tags.length > 0);
+  if ((!winner.tags || winner.tags.length === 0) && withTags) {
+    merged.tags = withTags.tags as NonNullable<GlucoseReading['tags']>;
+    if (!winner.meal_type && withTags.meal_type) merged.meal_type = withTags.meal_type;
+  }
+
+  const withNotes = losers.find(loser => loser.notes && loser.notes.trim() !== '');
+  if (!winner.notes && withNotes) {
+    merged.notes = withNotes.notes as string;
+  }
+
+  const withTrend = losers.find(loser => loser.trend);
+  if (!winner.trend && withTrend) {
+    merged.trend = withTrend.trend as NonNullable<GlucoseReading['trend']>;
+  }
+
+  return merged;
+}
+
+function parsePrecedence(value: string | undefined): GlucoseSource[] {
+  const configured = (value || '')
+    .split(',')
+    .map(source => source.trim())
+    .filter((source): source is GlucoseSource => SOURCES.includes(source as GlucoseSource));
+
+  // Sources left out of the setting keep their default order after the configured ones
+  return [...new Set([...configured, ...SOURCES])];
+}
+
+function parseTolerance(value: string | undefined): number {
+  const minutes = Number(value);
+  return value && isFinite(minutes) && minutes >= 0 && minutes < 5 ? minutes : 2;
+}
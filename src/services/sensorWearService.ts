@@ -0,0 +1,184 @@
+import { GlucoseDataGap, GlucoseReading, SensorSession, SensorWearDay, SensorWearReport } from '../types';
+import { DEFAULT_TIMEZONE, formatZonedDate, startOfZonedDay } from '../utils/timezone';
+import { GlucoseMetricsService } from './glucoseMetricsService';
+
+export class SensorWearService {
+  static readonly DEFAULT_GAP_MINUTES = 20;
+  static readonly MIN_GAP_MINUTES = 10;
+  static readonly MAX_GAP_MINUTES = 24 * 60;
+  // Shortest CGM warm-up (Dexcom G7); G6 and Libre warm-ups are 60-120 minutes
+  static readonly SESSION_GAP_MINUTES = 30;
+  // Dexcom readings arrive every 5 minutes and LibreView history every 15
+  static readonly CGM_INTERVALS_MINUTES = [5, 15];
+  static readonly DEFAULT_CGM_INTERVAL_MINUTES = 5;
+
+  static isCgmReading(reading: GlucoseReading): boolean {
+    return reading.source !== 'manual';
+  }
+
+  // Minutes between CGM readings: the median spacing within sensor sessions, snapped to the nearest
+  // known interval, as imported readings do not say which sensor they came from
+  static cgmIntervalMinutes(readings: GlucoseReading[]): number {
+    const times = [...new Set(readings
+      .filter(reading => this.isCgmReading(reading))
+      .map(reading => new Date(reading.timestamp).getTime())
+      .filter(time => !isNaN(time)))]
+      .sort((a, b) => a - b);
+
+    const spacings = times
+      .slice(1)
+      .map((time, i) => (time - (times[i] as number)) / 60000)
+      .filter(minutes => minutes < this.SESSION_GAP_MINUTES)
+      .sort((a, b) => a - b);
+    const median = spacings[Math.floor(spacings.length / 2)];
+
+    if (median === undefined) {
+      return this.DEFAULT_CGM_INTERVAL_MINUTES;
+    }
+
+    return this.CGM_INTERVALS_MINUTES.reduce((closest, interval) =>
+      Math.abs(interval - median) < Math.abs(closest - median) ? interval : closest
+    );
+  }
+
+  // Gaps between consecutive CGM readings, including the edges of the window
+  static findGaps(
+    readings: GlucoseReading[],
+    windowStart: Date,
+    windowEnd: Date,
+    thresholdMinutes: number
+  ): GlucoseDataGap[] {
+    const times = readings
+      .filter(reading => this.isCgmReading(reading))
+      .map(reading => new Date(reading.timestamp).getTime())
+      .filter(time => !isNaN(time) && time >= windowStart.getTime() && time <= windowEnd.getTime())
+      .sort((a, b) => a - b);
+
+    const boundaries = [windowStart.getTime(), ...times, windowEnd.getTime()];
+    const gaps: GlucoseDataGap[] = [];
+
+    for (let i = 1; i < boundaries.length; i++) {
+      const start = boundaries[i - 1] as number;
+      const end = boundaries[i] as number;
+      const durationMinutes = Math.round((end - start) / 60000);
+
+      if (durationMinutes > thresholdMinutes) {
+        gaps.push({
+          start: new Date(start).toISOString(),
+          end: new Date(end).toISOString(),
+          durationMinutes
+        });
+      }
+    }
+
+    return gaps;
+  }
+
+  static analyze(
+    readings: GlucoseReading[],
+    windowStart: Date,
+    windowEnd: Date,
+    gapThresholdMinutes: number = this.DEFAULT_GAP_MINUTES,
+    timeZone: string = DEFAULT_TIMEZONE
+  ): SensorWearReport {
+    const cgm = readings
+      .filter(reading => this.isCgmReading(reading))
+      .map(reading => ({ reading, time: new Date(reading.timestamp).getTime() }))
+      .filter(({ time }) => !isNaN(time) && time >= windowStart.getTime() && time <= windowEnd.getTime())
+      .sort((a, b) => a.time - b.time);
+
+    const intervalMinutes = this.cgmIntervalMinutes(cgm.map(({ reading }) => reading));
+    // Readings one interval apart are never a gap, e.g. a 10-minute threshold on 15-minute Libre data
+    const thresholdMinutes = Math.max(gapThresholdMinutes, intervalMinutes);
+    const gaps = this.findGaps(readings, windowStart, windowEnd, thresholdMinutes);
+    const expectedReadings = expectedFor(windowStart.getTime(), windowEnd.getTime(), intervalMinutes);
+    const days = this.buildDays(cgm.map(({ time }) => time), windowStart, windowEnd, timeZone, intervalMinutes);
+
+    return {
+      startDate: windowStart.toISOString(),
+      endDate: windowEnd.toISOString(),
+      timeZone,
+      gapThresholdMinutes: thresholdMinutes,
+      cgmReadings: cgm.length,
+      expectedReadings,
+      percentActive: percentOf(cgm.length, expectedReadings),
+      totalGapMinutes: gaps.reduce((sum, gap) => sum + gap.durationMinutes, 0),
+      longestGapMinutes: gaps.reduce((longest, gap) => Math.max(longest, gap.durationMinutes), 0),
+      gaps,
+      sessions: this.buildSessions(cgm.map(({ time }) => time)),
+      days,
+      insufficientDays: days.filter(day => !day.sufficient).map(day => day.date)
+    };
+  }
+
+  private static buildSessions(times: number[]): SensorSession[] {
+    const sessions: SensorSession[] = [];
+    let sessionStart = 0;
+
+    for (let i = 1; i <= times.length; i++) {
+      const previous = times[i - 1] as number;
+      const current = times[i];
+
+      if (current === undefined || current - previous >= this.SESSION_GAP_MINUTES * 60000) {
+        const start = times[sessionStart] as number;
+        sessions.push({
+          start: new Date(start).toISOString(),
+          end: new Date(previous).toISOString(),
+          durationHours: Math.round(((previous - start) / 3600000) * 10) / 10,
+          readings: i - sessionStart
+        });
+        sessionStart = i;
+      }
+    }
+
+    return sessions;
+  }
+
+  // Local calendar days; the first and last day are clipped to the window
+  private static buildDays(
+    times: number[],
+    windowStart: Date,
+    windowEnd: Date,
+    timeZone: string,
+    intervalMinutes: number
+  ): SensorWearDay[] {
+    const days: SensorWearDay[] = [];
+    let dayStart = startOfZonedDay(windowStart, timeZone);
+    let index = 0;
+
+    while (dayStart.getTime() < windowEnd.getTime()) {
+      const nextDay = startOfZonedDay(dayStart, timeZone, 1);
+      const start = Math.max(dayStart.getTime(), windowStart.getTime());
+      const end = Math.min(nextDay.getTime(), windowEnd.getTime());
+
+      let count = 0;
+      while (index < times.length && (times[index] as number) < nextDay.getTime()) {
+        if ((times[index] as number) >= start) count++;
+        index++;
+      }
+
+      const expectedReadings = expectedFor(start, end, intervalMinutes);
+      const percentActive = percentOf(count, expectedReadings);
+
+      days.push({
+        date: formatZonedDate(dayStart, timeZone),
+        readings: count,
+        expectedReadings,
+        percentActive,
+        sufficient: percentActive >= GlucoseMetricsService.MIN_ACTIVE_PERCENT
+      });
+
+      dayStart = nextDay;
+    }
+
+    return days;
+  }
+}
+
+function expectedFor(start: number, end: number, intervalMinutes: number): number {
+  return Math.max(1, Math.floor((end - start) / 60000 / intervalMinutes));
+}
+
+function percentOf(count: number, expected: number): number {
+  return Math.round(Math.min(100, (count / expected) * 100) * 10) / 10;
+}
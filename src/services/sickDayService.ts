@@ -0,0 +1,339 @@
+import { supabase } from '../config/database';
+import {
+  GlucoseAlertRule,
+  GlucoseAlertType,
+  GlucoseReading,
+  GlucoseUnit,
+  KetoneReading,
+  SickDayAction,
+  SickDayChecklistItem,
+  SickDayEscalation,
+  SickDaySession,
+  SickDayStatus,
+  SickDaySymptom
+} from '../types';
+import { formatGlucose } from '../utils/glucoseUnits';
+import { GlucoseService } from './glucoseService';
+import { KetoneService } from './ketoneService';
+
+export type NewSickDaySession = Omit<SickDaySession, 'id' | 'created_at' | 'updated_at'>;
+
+export class SickDayService {
+  static readonly SYMPTOMS: SickDaySymptom[] = [
+    'fever',
+    'nausea',
+    'vomiting',
+    'diarrhea',
+    'unable_to_keep_fluids',
+    'abdominal_pain',
+    'rapid_breathing',
+    'fruity_breath',
+    'confusion',
+    'drowsiness'
+  ];
+  static readonly DKA_SYMPTOMS: SickDaySymptom[] = ['abdominal_pain', 'rapid_breathing', 'fruity_breath', 'confusion', 'drowsiness'];
+
+  // Alert thresholds while sick-day mode is on; rules that are already stricter keep their own
+  static readonly ALERT_THRESHOLDS: Partial<Record<GlucoseAlertType, number>> = {
+    urgent_low: 60,
+    low: 80,
+    high: 240,
+    no_data: 15
+  };
+
+  static readonly HYDRATION_INTERVAL_MINUTES = 60;
+  static readonly HYDRATION_TARGET_ML = 250;
+  static readonly MAX_FLUID_ML = 2000;
+  // Ketones every 2 hours while they are up or glucose is high, otherwise every 4
+  static readonly KETONE_CHECK_MINUTES = { frequent: 120, routine: 240 };
+  static readonly KETONE_CHECK_GLUCOSE = 250;
+  // Glucose above this for the whole window needs the care team
+  static readonly PERSISTENT_HIGH_GLUCOSE = 300;
+  static readonly PERSISTENT_HIGH_MINUTES = 120;
+  // Older ketone readings are shown but no longer drive escalation
+  static readonly CURRENT_KETONE_HOURS = 6;
+  // A due checklist item becomes overdue after this long
+  private static readonly OVERDUE_AFTER_MINUTES = 30;
+
+  // The alert rule with sick-day thresholds applied
+  static tightenRule(rule: GlucoseAlertRule): GlucoseAlertRule {
+    const threshold = this.ALERT_THRESHOLDS[rule.type];
+    if (threshold === undefined) {
+      return rule;
+    }
+    // Low rules fire earlier with a higher threshold, high and no-data rules with a lower one
+    const tightened = rule.type === 'urgent_low' || rule.type === 'low'
+      ? Math.max(rule.threshold, threshold)
+      : Math.min(rule.threshold, threshold);
+    return { ...rule, threshold: tightened };
+  }
+
+  static async isActive(userId: string): Promise<boolean> {
+    return (await this.getActiveSession(userId)) !== null;
+  }
+
+  // Users with sick-day mode on; few users are sick at once, so they are loaded together
+  static async getActiveUserIds(): Promise<Set<string>> {
+    try {
+      const { data, error } = await supabase
+        .from('sick_day_sessions')
+        .select('user_id')
+        .is('ended_at', null);
+
+      if (error) {
+        return new Set();
+      }
+
+      return new Set(((data || []) as Pick<SickDaySession, 'user_id'>[]).map(session => session.user_id));
+    } catch (error) {
+      return new Set();
+    }
+  }
+
+  static async getActiveSession(userId: string): Promise<SickDaySession | null> {
+    try {
+      const { data, error } = await supabase
+        .from('sick_day_sessions')
+        .select('*')
+        .eq('user_id', userId)
+        .is('ended_at', null)
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async getSessions(userId: string, limit: number = 20): Promise<SickDaySession[]> {
+    try {
+      const { data, error } = await supabase
+        .from('sick_day_sessions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('started_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  static async createSession(session: NewSickDaySession): Promise<SickDaySession | null> {
+    try {
+      const { data, error } = await supabase
+        .from('sick_day_sessions')
+        .insert([session])
+        .select()
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async updateSession(sessionId: string, updates: Partial<NewSickDaySession>): Promise<SickDaySession | null> {
+    try {
+      const { data, error } = await supabase
+        .from('sick_day_sessions')
+        .update(updates)
+        .eq('id', sessionId)
+        .select()
+        .single();
+
+      if (error) {
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static async getStatus(userId: string, unit: GlucoseUnit, now: Date = new Date()): Promise<SickDayStatus | null> {
+    try {
+      const [session, [latestKetones], readings] = await Promise.all([
+        this.getActiveSession(userId),
+        KetoneService.getReadings(userId, 1),
+        GlucoseService.getReadingsByDateRange(
+          userId,
+          new Date(now.getTime() - this.PERSISTENT_HIGH_MINUTES * 60000).toISOString(),
+          now.toISOString()
+        )
+      ]);
+
+      return this.buildStatus(session, latestKetones || null, readings, unit, now);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Escalation criteria are checked even outside sick-day mode; the checklist only runs during a session
+  static buildStatus(
+    session: SickDaySession | null,
+    latestKetones: KetoneReading | null,
+    readings: GlucoseReading[],
+    unit: GlucoseUnit,
+    now: Date
+  ): SickDayStatus {
+    const recent = readings
+      .filter(reading => reading.quality !== 'flagged')
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const latestGlucose = recent.length > 0 ? (recent[recent.length - 1] as GlucoseReading).value : null;
+
+    const ketones = latestKetones ? KetoneService.withLevel(latestKetones) : null;
+    const ketonesAreCurrent = ketones !== null
+      && now.getTime() - new Date(ketones.timestamp).getTime() <= this.CURRENT_KETONE_HOURS * 3600000;
+    const ketoneLevel = ketonesAreCurrent && ketones ? ketones.level : 'normal';
+
+    const symptoms = session?.symptoms || [];
+    const firstRecent = recent[0];
+    // Readings have to cover most of the window; a sensor gap is not proof of a sustained high
+    const persistentHigh = firstRecent !== undefined
+      && recent.length >= 2
+      && now.getTime() - new Date(firstRecent.timestamp).getTime() >= (this.PERSISTENT_HIGH_MINUTES - 30) * 60000
+      && recent.every(reading => reading.value > this.PERSISTENT_HIGH_GLUCOSE);
+
+    const escalations: SickDayEscalation[] = [
+      {
+        id: 'ketones_high',
+        description: 'Blood ketones 1.5-3.0 mmol/L or moderate urine ketones',
+        action: 'contact_care_team',
+        met: ketoneLevel === 'high'
+      },
+      {
+        id: 'ketones_very_high',
+        description: 'Blood ketones 3.0 mmol/L or above, or large urine ketones',
+        action: 'emergency',
+        met: ketoneLevel === 'very_high'
+      },
+      {
+        id: 'ketones_with_vomiting',
+        description: 'Raised ketones together with vomiting',
+        action: 'emergency',
+        met: ketoneLevel !== 'normal' && symptoms.includes('vomiting')
+      },
+      {
+        id: 'persistent_high_glucose',
+        description: `Glucose above ${formatGlucose(this.PERSISTENT_HIGH_GLUCOSE, unit)} for ${this.PERSISTENT_HIGH_MINUTES / 60} hours despite extra insulin`,
+        action: 'contact_care_team',
+        met: persistentHigh
+      },
+      {
+        id: 'vomiting',
+        description: 'Vomiting',
+        action: 'contact_care_team',
+        met: symptoms.includes('vomiting')
+      },
+      {
+        id: 'unable_to_keep_fluids',
+        description: 'Unable to keep fluids down',
+        action: 'emergency',
+        met: symptoms.includes('unable_to_keep_fluids')
+      },
+      {
+        id: 'dka_symptoms',
+        description: 'Abdominal pain, rapid breathing, fruity breath, confusion or drowsiness',
+        action: 'emergency',
+        met: this.DKA_SYMPTOMS.some(symptom => symptoms.includes(symptom))
+      }
+    ];
+
+    const met = escalations.filter(escalation => escalation.met);
+    const recommendedAction: SickDayAction = met.some(escalation => escalation.action === 'emergency')
+      ? 'emergency'
+      : met.length > 0 ? 'contact_care_team' : 'continue_sick_day_rules';
+
+    const checklist: SickDayChecklistItem[] = [];
+
+    if (session) {
+      const startedAt = new Date(session.started_at).getTime();
+      const fluids = [...(session.fluid_log || [])].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+      const lastFluid = fluids[fluids.length - 1];
+      const recentMl = fluids
+        .filter(entry => now.getTime() - new Date(entry.timestamp).getTime() <= 4 * 3600000)
+        .reduce((sum, entry) => sum + entry.ml, 0);
+
+      checklist.push(this.checklistItem(
+        'hydration',
+        'Drink fluids',
+        this.HYDRATION_INTERVAL_MINUTES,
+        lastFluid ? lastFluid.timestamp : null,
+        lastFluid ? new Date(lastFluid.timestamp).getTime() + this.HYDRATION_INTERVAL_MINUTES * 60000 : startedAt,
+        `About ${this.HYDRATION_TARGET_ML} ml every hour; ${recentMl} ml logged in the last 4 hours`,
+        now
+      ));
+
+      const frequent = ketoneLevel !== 'normal' || (latestGlucose !== null && latestGlucose > this.KETONE_CHECK_GLUCOSE);
+      const interval = frequent ? this.KETONE_CHECK_MINUTES.frequent : this.KETONE_CHECK_MINUTES.routine;
+      const lastCheck = ketones ? new Date(ketones.timestamp).getTime() : null;
+      // A check from shortly before the session counts; otherwise ketones are due as soon as it starts
+      const nextCheck = lastCheck !== null && lastCheck >= startedAt - interval * 60000
+        ? lastCheck + interval * 60000
+        : startedAt;
+
+      checklist.push(this.checklistItem(
+        'ketone_check',
+        'Check ketones',
+        interval,
+        ketones ? ketones.timestamp : null,
+        nextCheck,
+        frequent
+          ? `Every ${interval / 60} hours while ketones are raised or glucose is above ${formatGlucose(this.KETONE_CHECK_GLUCOSE, unit)}`
+          : `Every ${interval / 60} hours`,
+        now
+      ));
+    }
+
+    return {
+      active: session !== null,
+      session,
+      latestKetones: ketones,
+      latestGlucose,
+      checklist,
+      escalations,
+      recommendedAction
+    };
+  }
+
+  private static checklistItem(
+    id: SickDayChecklistItem['id'],
+    label: string,
+    intervalMinutes: number,
+    lastDoneAt: string | null,
+    nextDue: number,
+    detail: string,
+    now: Date
+  ): SickDayChecklistItem {
+    const status = now.getTime() < nextDue
+      ? 'ok'
+      : now.getTime() < nextDue + this.OVERDUE_AFTER_MINUTES * 60000 ? 'due' : 'overdue';
+
+    return {
+      id,
+      label,
+      status,
+      intervalMinutes,
+      lastDoneAt,
+      nextDueAt: new Date(nextDue).toISOString(),
+      detail
+    };
+  }
+}
@@ -0,0 +1,237 @@
+import { supabase } from '../config/database';
+import {
+  ActivityLog,
+  ChatConversation,
+  FoodAnalysisLog,
+  GlucoseReading,
+  InsulinDose,
+  TimelineEvent,
+  TimelineEventType,
+  TimelinePage
+} from '../types';
+import { formatZonedDate, zonedTimeToUtc } from '../utils/timezone';
+import { MealPlanningService } from './mealPlanningService';
+
+// Position of the last event on a page; timestamp is the raw database value so no precision is lost
+interface TimelineCursor {
+  timestamp: string;
+  type: TimelineEventType;
+  id: string;
+}
+
+interface TimelineEntry {
+  event: TimelineEvent;
+  sortTimestamp: string;
+}
+
+type TableEventType = Exclude<TimelineEventType, 'meal_plan'>;
+type TimestampColumn = 'timestamp' | 'created_at';
+
+// Row shapes returned for each table
+interface TableRows {
+  glucose: GlucoseReading;
+  insulin: InsulinDose;
+  food: FoodAnalysisLog;
+  activity: ActivityLog;
+  chat: Omit<ChatConversation, 'glucose_context'>;
+}
+
+type TimelineRow = TableRows[TableEventType] & Partial<Record<TimestampColumn, string>>;
+
+// Cursor parts end up in a PostgREST filter string, so only these shapes are accepted
+const CURSOR_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}(:?\d{2})?)?$/;
+// UUID primary keys, or integer keys for the older tables
+const ROW_ID_PATTERN = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|\d+)$/i;
+// Planned meals are <meal plan id>:<meal index>
+const PLANNED_MEAL_ID_PATTERN = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|\d+):\d+$/i;
+
+// Tables read for each event type and the column that places a row on the timeline
+const TABLE_SOURCES: Record<TableEventType, { table: string; column: TimestampColumn; select: string }> = {
+  glucose: { table: 'glucose_readings', column: 'timestamp', select: '*' },
+  insulin: { table: 'insulin_doses', column: 'timestamp', select: '*' },
+  // The stored photo is left out
+  food: { table: 'food_analysis_logs', column: 'created_at', select: 'id, user_id, analysis_result, created_at' },
+  activity: { table: 'activity_logs', column: 'timestamp', select: '*' },
+  chat: {
+    table: 'chat_conversations',
+    column: 'created_at',
+    select: 'id, user_id, message, ai_response, auto_logged_data, created_at'
+  }
+};
+
+export class TimelineService {
+  // Also the tie-break order for events at the same instant
+  static readonly EVENT_TYPES: TimelineEventType[] = ['glucose', 'insulin', 'food', 'meal_plan', 'activity', 'chat'];
+  static readonly DEFAULT_LIMIT = 100;
+  static readonly MAX_LIMIT = 500;
+
+  static encodeCursor(cursor: TimelineCursor): string {
+    return Buffer.from(JSON.stringify([cursor.timestamp, cursor.type, cursor.id])).toString('base64url');
+  }
+
+  static decodeCursor(value: string): TimelineCursor | null {
+    try {
+      const [timestamp, type, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+      if (
+        typeof timestamp !== 'string'
+        || !CURSOR_TIMESTAMP_PATTERN.test(timestamp)
+        || isNaN(new Date(timestamp).getTime())
+        || !this.EVENT_TYPES.includes(type)
+        || typeof id !== 'string'
+        || !(type === 'meal_plan' ? PLANNED_MEAL_ID_PATTERN : ROW_ID_PATTERN).test(id)
+      ) {
+        return null;
+      }
+      return { timestamp, type, id };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Events with startDate <= timestamp < endDate, oldest first, after the cursor when one is given
+  static async getTimeline(
+    userId: string,
+    options: {
+      startDate: string;
+      endDate: string;
+      types: TimelineEventType[];
+      limit: number;
+      timeZone: string;
+      cursor?: TimelineCursor;
+    }
+  ): Promise<TimelinePage | null> {
+    try {
+      // Each source returns at most one page, so the merged first page is exact
+      const sources = await Promise.all(options.types.map(type => type === 'meal_plan'
+        ? this.getPlannedMealEntries(userId, options)
+        : this.getTableEntries(type, userId, options)
+      ));
+
+      const merged = sources.flat().sort(compareEntries);
+      const page = merged.slice(0, options.limit);
+      const last = page[page.length - 1];
+
+      return {
+        startDate: options.startDate,
+        endDate: options.endDate,
+        types: options.types,
+        events: page.map(entry => entry.event),
+        nextCursor: merged.length > options.limit && last
+          ? this.encodeCursor({ timestamp: last.sortTimestamp, type: last.event.type, id: last.event.id })
+          : null
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private static async getTableEntries(
+    type: TableEventType,
+    userId: string,
+    options: { startDate: string; endDate: string; limit: number; cursor?: TimelineCursor }
+  ): Promise<TimelineEntry[]> {
+    const { table, column, select } = TABLE_SOURCES[type];
+    const { cursor } = options;
+
+    let query = supabase
+      .from(table)
+      .select(select)
+      .eq('user_id', userId)
+      .gte(column, options.startDate)
+      .lt(column, options.endDate);
+
+    // Keyset pagination on (timestamp, type, id)
+    if (cursor) {
+      const order = this.EVENT_TYPES.indexOf(type) - this.EVENT_TYPES.indexOf(cursor.type);
+      if (order < 0) {
+        query = query.gt(column, cursor.timestamp);
+      } else if (order > 0) {
+        query = query.gte(column, cursor.timestamp);
+      } else {
+        query = query.or(`${column}.gt."${cursor.timestamp}",and(${column}.eq."${cursor.timestamp}",id.gt."${cursor.id}")`);
+      }
+    }
+
+    const { data, error } = await query
+      .order(column, { ascending: true })
+      .order('id', { ascending: true })
+      .limit(options.limit + 1);
+
+    if (error) {
+      throw error;
+    }
+
+    // The select list is not a literal, so the client cannot infer the row shape
+    return ((data || []) as unknown as TimelineRow[]).flatMap(row => {
+      const placedAt = row[column];
+      return placedAt
+        ? [{
+            event: { type, id: String(row.id), timestamp: new Date(placedAt).toISOString(), data: row } as TimelineEvent,
+            sortTimestamp: placedAt
+          }]
+        : [];
+    });
+  }
+
+  // Meals from saved plans at their planned local time
+  private static async getPlannedMealEntries(
+    userId: string,
+    options: { startDate: string; endDate: string; limit: number; timeZone: string; cursor?: TimelineCursor }
+  ): Promise<TimelineEntry[]> {
+    const { startDate, endDate, timeZone, cursor } = options;
+    const plans = await MealPlanningService.getMealPlansByDateRange(
+      userId,
+      formatZonedDate(new Date(startDate), timeZone),
+      formatZonedDate(new Date(endDate), timeZone)
+    );
+
+    const entries = plans.flatMap(plan => (plan.meals || []).map((meal, index): TimelineEntry | null => {
+      const day = /^(\d{4})-(\d{2})-(\d{2})/.exec(String(plan.date));
+      const time = /^([01]?\d|2[0-3]):([0-5]\d)/.exec(meal.time || '');
+      if (!day || !time) {
+        return null;
+      }
+
+      const timestamp = zonedTimeToUtc(
+        timeZone,
+        Number(day[1]),
+        Number(day[2]),
+        Number(day[3]),
+        Number(time[1]),
+        Number(time[2])
+      ).toISOString();
+
+      return {
+        event: {
+          type: 'meal_plan',
+          id: `${plan.id}:${index}`,
+          timestamp,
+          data: { ...meal, meal_plan_id: plan.id, date: plan.date }
+        },
+        sortTimestamp: timestamp
+      };
+    }));
+
+    return entries
+      .filter((entry): entry is TimelineEntry => entry !== null)
+      .filter(entry => entry.sortTimestamp >= new Date(startDate).toISOString() && entry.sortTimestamp < new Date(endDate).toISOString())
+      .filter(entry => !cursor || compareEntries(entry, {
+        event: { type: cursor.type, id: cursor.id } as TimelineEvent,
+        sortTimestamp: cursor.timestamp
+      }) > 0)
+      .sort(compareEntries)
+      .slice(0, options.limit + 1);
+  }
+}
+
+// Microseconds since the epoch; Postgres keeps more precision than Date
+function toMicros(timestamp: string): number {
+  const extra = /\.\d{3}(\d{1,3})/.exec(timestamp)?.[1] || '';
+  return new Date(timestamp).getTime() * 1000 + Number(extra.padEnd(3, '0'));
+}
+
+function compareEntries(a: TimelineEntry, b: TimelineEntry): number {
+  return toMicros(a.sortTimestamp) - toMicros(b.sortTimestamp)
+    || TimelineService.EVENT_TYPES.indexOf(a.event.type) - TimelineService.EVENT_TYPES.indexOf(b.event.type)
+    || (a.event.id < b.event.id ? -1 : a.event.id > b.event.id ? 1 : 0);
+}
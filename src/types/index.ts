@@ -15,13 +15,16 @@ export interface FoodItem {
   portionSize: number;
 }
 
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
 export interface DailyMeal {
-  type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  type: MealType;
   time: string;
   foods: FoodItem[];
   totalCarbs: number;
   totalCalories: number;
-  recommendedInsulin: number;
+  // Only set when the user has a dosing profile
+  recommendedInsulin?: number;
   preBolusTime: number;
   confidence: number;
   reasoning: string[];
@@ -47,49 +50,827 @@ export interface UserPreferences {
   restrictions: string[];
   insulinToCarbRatio?: string;
   targetGlucoseRange?: [number, number];
+  glucoseUnit?: GlucoseUnit;
+  // IANA timezone used for day boundaries, e.g. America/Los_Angeles
+  timezone?: string;
+  // Insulin action and carb absorption used for IOB/COB
+  insulinActionCurve?: InsulinActionCurve;
+  insulinDurationHours?: number;
+  insulinPeakMinutes?: number | null;
+  carbAbsorptionModel?: CarbAbsorptionModel;
+  carbAbsorptionHours?: number;
+  // Lets chat propose log inbox entries; chat tools are read-only otherwise
+  chatLogProposals?: boolean;
   created_at: string;
   updated_at: string;
 }
 
 // Glucose Data Types
+export type GlucoseUnit = 'mg/dL' | 'mmol/L';
+
+// Dexcom trend arrows
+export type GlucoseTrend =
+  | 'doubleUp'
+  | 'singleUp'
+  | 'fortyFiveUp'
+  | 'flat'
+  | 'fortyFiveDown'
+  | 'singleDown'
+  | 'doubleDown'
+  | 'none'
+  | 'notComputable'
+  | 'rateOutOfRange';
+
+// Structured context for a reading; post-meal tags are 1 and 2 hours after the start of a meal
+export type GlucoseContextTag =
+  | 'fasting'
+  | 'pre_meal'
+  | 'post_meal_1h'
+  | 'post_meal_2h'
+  | 'bedtime'
+  | 'overnight'
+  | 'exercise'
+  | 'sick';
+
+export type GlucoseReadingQuality = 'ok' | 'flagged';
+export type GlucoseQualityFlag = 'implausible_rate';
+
+export interface GlucoseValidationIssue {
+  field: string;
+  code: string;
+  message: string;
+}
+
 export interface GlucoseReading {
   id: string;
   user_id: string;
   value: number;
   timestamp: string;
   source: 'manual' | 'dexcom' | 'other';
+  trend?: GlucoseTrend;
+  tags?: GlucoseContextTag[];
+  meal_type?: MealType | null;
+  // Flagged readings are kept but left out of analytics
+  quality?: GlucoseReadingQuality;
+  quality_flags?: GlucoseQualityFlag[];
   notes?: string;
   created_at: string;
 }
 
+// Consensus glucose thresholds (mg/dL) used to split readings into TIR bands
+export interface GlucoseThresholds {
+  veryLow: number;
+  low: number;
+  high: number;
+  veryHigh: number;
+}
+
+export interface GlucoseDataSufficiency {
+  expectedReadings: number;
+  // Manual fingersticks do not count towards CGM wear
+  cgmReadings: number;
+  percentActive: number;
+  longestGapMinutes: number;
+  sufficient: boolean;
+  warnings: string[];
+}
+
+// day and month start at local midnight / the 1st; the fixed windows end now; custom uses explicit dates
+export type GlucoseStatsPeriod = 'day' | 'week' | 'month' | '14d' | '30d' | '90d' | 'custom';
+
 export interface GlucoseStats {
   average: number;
   min: number;
   max: number;
+  standardDeviation: number;
+  coefficientOfVariation: number;
+  glucoseManagementIndicator: number;
+  // Exclusive bands that add up to 100%: <54, 54-low, low-high, high-250, >250
+  timeBelowRangeLevel2: number;
+  timeBelowRangeLevel1: number;
   timeInRange: number;
+  timeAboveRangeLevel1: number;
+  timeAboveRangeLevel2: number;
+  thresholds: GlucoseThresholds;
+  dataSufficiency: GlucoseDataSufficiency;
+  episodes: GlucoseEpisodeCounts;
+  readings: number;
+  period: GlucoseStatsPeriod;
+  startDate: string;
+  endDate: string;
+}
+
+// Metrics that are compared between periods; positive deltas mean the current period is higher
+export type GlucoseStatsDeltas = Pick<
+  GlucoseStats,
+  | 'average'
+  | 'standardDeviation'
+  | 'coefficientOfVariation'
+  | 'glucoseManagementIndicator'
+  | 'timeBelowRangeLevel2'
+  | 'timeBelowRangeLevel1'
+  | 'timeInRange'
+  | 'timeAboveRangeLevel1'
+  | 'timeAboveRangeLevel2'
+>;
+
+export interface GlucoseStatsComparison {
+  current: GlucoseStats;
+  // The window of the same length immediately before the current one
+  previous: GlucoseStats | null;
+  deltas: GlucoseStatsDeltas | null;
+}
+
+// Glucose Episode Types
+export type GlucoseEpisodeType = 'hypoglycemia' | 'hyperglycemia';
+
+export interface GlucoseEpisode {
+  type: GlucoseEpisodeType;
+  level: 1 | 2;
+  start: string;
+  end: string;
+  durationMinutes: number;
+  // Nadir for hypoglycemia, peak for hyperglycemia
+  extremeValue: number;
+  extremeTimestamp: string;
   readings: number;
-  period: 'day' | 'week' | 'month';
+  ongoing: boolean;
+}
+
+export interface GlucoseEpisodeCounts {
+  hypoglycemia: {
+    level1: number;
+    level2: number;
+  };
+  hyperglycemia: {
+    level1: number;
+    level2: number;
+  };
+}
+
+// Glucose Context Tag Types
+export interface GlucoseTagSummary {
+  readings: number;
+  average: number;
+  min: number;
+  max: number;
+  standardDeviation: number;
+  percentBelowRange: number;
+  percentInRange: number;
+  percentAboveRange: number;
+}
+
+export interface GlucoseTagStats {
+  startDate: string;
+  endDate: string;
+  timeZone: string;
+  thresholds: GlucoseThresholds;
+  totalReadings: number;
+  untaggedReadings: number;
+  byTag: Partial<Record<GlucoseContextTag, GlucoseTagSummary>>;
+  // Pre- and post-meal readings broken down by the meal they were taken around
+  byMealType: Partial<Record<'pre_meal' | 'post_meal_1h' | 'post_meal_2h', Partial<Record<MealType, GlucoseTagSummary>>>>;
+}
+
+// Glucose Reconciliation Types
+export type GlucoseSource = GlucoseReading['source'];
+
+export interface GlucoseReconciliationGroup {
+  timestamp: string;
+  // null when the reading kept is a new one that has not been saved yet
+  keep: string | null;
+  keepSource: GlucoseSource;
+  remove: string[];
+  sources: GlucoseSource[];
+}
+
+export interface GlucoseReconciliationReport {
+  startDate: string;
+  endDate: string;
+  dryRun: boolean;
+  precedence: GlucoseSource[];
+  toleranceMinutes: number;
+  scanned: number;
+  duplicateGroups: number;
+  readingsToRemove: number;
+  readingsRemoved: number;
+  groups: GlucoseReconciliationGroup[];
+}
+
+// Glucose Import Types
+export type GlucoseImportFormat = 'dexcom_clarity' | 'libreview';
+
+export interface GlucoseImportRowIssue {
+  row: number;
+  reason: string;
+}
+
+export interface GlucoseImportSummary {
+  format: GlucoseImportFormat;
+  totalRows: number;
+  imported: number;
+  skipped: number;
+  rejected: number;
+  skippedRows: GlucoseImportRowIssue[];
+  rejectedRows: GlucoseImportRowIssue[];
+}
+
+// Glucose Forecast Types
+export interface GlucoseForecastPoint {
+  minutesAhead: number;
+  timestamp: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface GlucoseThresholdCrossing {
+  threshold: number;
+  minutesUntil: number;
+  timestamp: string;
+}
+
+export interface GlucoseForecast {
+  generatedAt: string;
+  latestValue: number;
+  latestTimestamp: string;
+  ratePerMinute: number;
+  trend?: GlucoseTrend;
+  readingsUsed: number;
+  points: GlucoseForecastPoint[];
+  predictedLow: GlucoseThresholdCrossing | null;
+  predictedHigh: GlucoseThresholdCrossing | null;
+}
+
+// Glucose Alert Types
+export type GlucoseAlertType = 'urgent_low' | 'low' | 'high' | 'rapid_rise' | 'rapid_fall' | 'no_data';
+
+export type AlertChannel = 'in_app' | 'push' | 'sms' | 'email';
+
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+export interface GlucoseAlertRule {
+  id: string;
+  user_id: string;
+  type: GlucoseAlertType;
+  // mg/dL for low/high rules, mg/dL per minute for rapid rules, minutes for no_data
+  threshold: number;
+  snooze_minutes: number;
+  quiet_hours: QuietHours | null;
+  channels: AlertChannel[];
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GlucoseAlert {
+  id: string;
+  user_id: string;
+  // null for sick-day default alerts and once the rule is deleted
+  rule_id: string | null;
+  type: GlucoseAlertType;
+  value: number | null;
+  message: string;
+  status: 'delivered' | 'suppressed';
+  suppressed_reason: string | null;
+  channels: AlertChannel[];
+  triggered_at: string;
+  created_at: string;
+}
+
+// Real-time Stream Types
+export type GlucoseStreamEvent =
+  | { event: 'reading'; data: GlucoseReading }
+  | { event: 'alert'; data: GlucoseAlert };
+
+// Ambulatory Glucose Profile Types
+export interface AgpPercentileBucket {
+  time: string;
+  minuteOfDay: number;
+  readings: number;
+  p5: number | null;
+  p25: number | null;
+  p50: number | null;
+  p75: number | null;
+  p95: number | null;
+}
+
+export interface AgpDailyOverlay {
+  date: string;
+  readings: {
+    time: string;
+    value: number;
+  }[];
+}
+
+export interface AmbulatoryGlucoseProfile {
+  startDate: string;
+  endDate: string;
+  timeZone: string;
+  bucketMinutes: number;
+  days: number;
+  readings: number;
+  percentiles: AgpPercentileBucket[];
+  dailyOverlays: AgpDailyOverlay[];
+}
+
+// Sensor Wear Types
+export interface GlucoseDataGap {
+  start: string;
+  end: string;
+  durationMinutes: number;
+}
+
+export interface SensorSession {
+  start: string;
+  end: string;
+  durationHours: number;
+  readings: number;
+}
+
+export interface SensorWearDay {
+  date: string;
+  readings: number;
+  expectedReadings: number;
+  percentActive: number;
+  sufficient: boolean;
+}
+
+export interface SensorWearReport {
+  startDate: string;
+  endDate: string;
+  timeZone: string;
+  gapThresholdMinutes: number;
+  cgmReadings: number;
+  expectedReadings: number;
+  percentActive: number;
+  totalGapMinutes: number;
+  longestGapMinutes: number;
+  gaps: GlucoseDataGap[];
+  // Sessions are split at gaps long enough to be a sensor change and warm-up
+  sessions: SensorSession[];
+  days: SensorWearDay[];
+  insufficientDays: string[];
+}
+
+// Insulin Types
+export type InsulinDoseType = 'bolus' | 'basal';
+export type InsulinKind = 'rapid_acting' | 'long_acting';
+// pump_import covers doses read from a pump or pen export
+export type InsulinDoseSource = 'manual' | 'chat' | 'pump_import';
+
+export interface InsulinDose {
+  id: string;
+  user_id: string;
+  dose_type: InsulinDoseType;
+  insulin_type: InsulinKind;
+  units: number;
+  timestamp: string;
+  // food_analysis_logs entry the dose covered
+  food_log_id?: string | null;
+  source: InsulinDoseSource;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InsulinDailyTotal {
+  date: string;
+  doses: number;
+  bolusUnits: number;
+  basalUnits: number;
+  totalUnits: number;
+}
+
+export interface InsulinDailyTotals {
+  startDate: string;
+  endDate: string;
+  timeZone: string;
+  // Days without a logged dose are included with zero units
+  days: InsulinDailyTotal[];
+  averageDailyUnits: number;
+  averageBolusUnits: number;
+  averageBasalUnits: number;
+}
+
+// Insulin and Carbs On Board Types
+// Exponential action curves; ultra_rapid covers Fiasp and Lyumjev
+export type InsulinActionCurve = 'rapid_acting' | 'ultra_rapid';
+export type CarbAbsorptionModel = 'linear' | 'parabolic';
+
+export interface OnBoardSettings {
+  insulinActionCurve: InsulinActionCurve;
+  insulinDurationHours: number;
+  insulinPeakMinutes: number;
+  carbAbsorptionModel: CarbAbsorptionModel;
+  carbAbsorptionHours: number;
+}
+
+export interface OnBoardPoint {
+  timestamp: string;
+  iob: number;
+  cob: number;
+}
+
+export interface CarbEntry {
+  timestamp: string;
+  carbs: number;
+  food_log_id?: string;
+}
+
+export interface OnBoardReport {
+  at: string;
+  // Units of rapid-acting insulin still active
+  iob: number;
+  // Grams of carbs not yet absorbed
+  cob: number;
+  lastBolusAt: string | null;
+  lastCarbsAt: string | null;
+  settings: OnBoardSettings;
+  // From the start of the history window until everything on board has decayed
+  series: OnBoardPoint[];
+}
+
+// Dosing Profile Types
+// A time-of-day schedule; each entry applies from its start (HH:MM local) until the next one
+export interface DosingScheduleEntry {
+  start: string;
+  value: number;
+}
+
+export interface DosingTargetEntry {
+  start: string;
+  low: number;
+  high: number;
+}
+
+export interface DosingProfile {
+  id: string;
+  user_id: string;
+  // Grams of carbs covered by one unit
+  carb_ratios: DosingScheduleEntry[];
+  // mg/dL drop per unit
+  correction_factors: DosingScheduleEntry[];
+  // mg/dL; corrections aim for the middle of the range
+  targets: DosingTargetEntry[];
+  max_bolus: number;
+  // Smallest dose the pen or pump can deliver
+  dose_increment: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type BolusTermType =
+  | 'carbs'
+  | 'correction'
+  | 'trend'
+  | 'insulin_on_board'
+  | 'low_glucose'
+  | 'rounding'
+  | 'max_bolus';
+
+export interface BolusTerm {
+  type: BolusTermType;
+  units: number;
+  explanation: string;
+}
+
+export interface BolusCalculation {
+  at: string;
+  timeZone: string;
+  carbs: number;
+  glucose: number | null;
+  trend: GlucoseTrend | null;
+  // Glucose expected 30 minutes out from the trend arrow
+  projectedGlucose: number | null;
+  insulinOnBoard: number;
+  carbRatio: number;
+  correctionFactor: number;
+  target: { low: number; high: number };
+  // Sum of the terms before rounding and the max bolus cap
+  calculatedUnits: number;
+  recommendedUnits: number;
+  capped: boolean;
+  breakdown: BolusTerm[];
+  warnings: string[];
+}
+
+// Activity Types
+export type ActivityType = 'walking' | 'running' | 'cycling' | 'swimming' | 'strength' | 'yoga' | 'sports' | 'other';
+export type ActivityIntensity = 'low' | 'moderate' | 'high';
+export type ActivitySource = 'manual' | 'chat';
+
+export interface ActivityLog {
+  id: string;
+  user_id: string;
+  activity_type: ActivityType;
+  duration_minutes: number;
+  intensity: ActivityIntensity;
+  // When the activity started
+  timestamp: string;
+  source: ActivitySource;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Glucose around one activity; values are null when no reading was close enough
+export interface ActivityImpact {
+  activityId: string;
+  activityType: ActivityType;
+  intensity: ActivityIntensity;
+  timestamp: string;
+  durationMinutes: number;
+  startGlucose: number | null;
+  endGlucose: number | null;
+  changeDuring: number | null;
+  // Lowest reading in the 24 hours after the activity ended
+  nadirAfter: number | null;
+  nadirMinutesAfter: number | null;
+  // Change from the start of the activity to 1-24 hours after it ended
+  hourlyChangeAfter: (number | null)[];
+  lowAfter: boolean;
+}
+
+export interface ActivityTypeImpact {
+  activityType: ActivityType;
+  activities: number;
+  averageDurationMinutes: number;
+  averageChangeDuring: number | null;
+  averageChangePerHourDuring: number | null;
+  averageNadirAfter: number | null;
+  averageHourlyChangeAfter: (number | null)[];
+  // Share of activities followed by a low within 24 hours
+  percentWithLowAfter: number;
+}
+
+export interface ActivityImpactReport {
+  startDate: string;
+  endDate: string;
+  thresholds: GlucoseThresholds;
+  byType: ActivityTypeImpact[];
+  activities: ActivityImpact[];
+}
+
+// Ketone and Sick-Day Types
+export type KetoneSampleType = 'blood' | 'urine';
+export type KetoneLevel = 'normal' | 'elevated' | 'high' | 'very_high';
+
+export interface KetoneReading {
+  id: string;
+  user_id: string;
+  // mmol/L; urine strips map to trace 0.5, small 1.5, moderate 4, large 8
+  value: number;
+  sample_type: KetoneSampleType;
+  timestamp: string;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SickDaySymptom =
+  | 'fever'
+  | 'nausea'
+  | 'vomiting'
+  | 'diarrhea'
+  | 'unable_to_keep_fluids'
+  | 'abdominal_pain'
+  | 'rapid_breathing'
+  | 'fruity_breath'
+  | 'confusion'
+  | 'drowsiness';
+
+export interface SickDayFluidEntry {
+  timestamp: string;
+  ml: number;
+}
+
+// An active session (ended_at null) is the user's sick-day mode flag
+export interface SickDaySession {
+  id: string;
+  user_id: string;
+  started_at: string;
+  ended_at: string | null;
+  symptoms: SickDaySymptom[];
+  fluid_log: SickDayFluidEntry[];
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SickDayChecklistStatus = 'ok' | 'due' | 'overdue';
+
+export interface SickDayChecklistItem {
+  id: 'hydration' | 'ketone_check';
+  label: string;
+  status: SickDayChecklistStatus;
+  intervalMinutes: number;
+  lastDoneAt: string | null;
+  nextDueAt: string;
+  detail: string;
+}
+
+export type SickDayAction = 'continue_sick_day_rules' | 'contact_care_team' | 'emergency';
+
+export interface SickDayEscalation {
+  id: string;
+  description: string;
+  action: Exclude<SickDayAction, 'continue_sick_day_rules'>;
+  met: boolean;
+}
+
+export interface SickDayStatus {
+  active: boolean;
+  session: SickDaySession | null;
+  latestKetones: (KetoneReading & { level: KetoneLevel }) | null;
+  // mg/dL
+  latestGlucose: number | null;
+  checklist: SickDayChecklistItem[];
+  escalations: SickDayEscalation[];
+  // The most urgent action among the escalation criteria that are met
+  recommendedAction: SickDayAction;
+}
+
+// Log Inbox Types
+export type PendingLogItemType = 'glucose' | 'food' | 'insulin' | 'activity';
+export type PendingLogItemStatus = 'pending' | 'confirmed' | 'rejected';
+
+// Glucose value in mg/dL
+export interface PendingGlucoseEntry {
+  value: number;
+  timestamp: string;
+}
+
+export interface PendingFoodEntry {
+  description: string;
+  carbs: number;
+  meal_type?: MealType;
+  timestamp: string;
+}
+
+export interface PendingInsulinEntry {
+  dose_type: InsulinDoseType;
+  insulin_type: InsulinKind;
+  units: number;
+  timestamp: string;
+}
+
+// timestamp is when the activity started
+export interface PendingActivityEntry {
+  activity_type: ActivityType;
+  duration_minutes: number;
+  intensity: ActivityIntensity;
+  timestamp: string;
+}
+
+export interface PendingLogEntryMap {
+  glucose: PendingGlucoseEntry;
+  food: PendingFoodEntry;
+  insulin: PendingInsulinEntry;
+  activity: PendingActivityEntry;
+}
+
+export type PendingLogEntry = PendingLogEntryMap[PendingLogItemType];
+
+// An entry picked out of a chat message, waiting for the user to confirm it
+export interface PendingLogItem {
+  id: string;
+  user_id: string;
+  conversation_id: string | null;
+  item_type: PendingLogItemType;
+  data: PendingLogEntry;
+  // The part of the message the entry came from
+  source_text: string | null;
+  status: PendingLogItemStatus;
+  // Id of the glucose reading, food log, insulin dose or activity written on confirmation
+  record_id: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Stored on chat_conversations.auto_logged_data and kept in step with the inbox
+export interface ChatAutoLoggedData {
+  items: Pick<PendingLogItem, 'id' | 'item_type' | 'status' | 'record_id'>[];
+}
+
+// Timeline Types
+export type TimelineEventType = 'glucose' | 'insulin' | 'food' | 'meal_plan' | 'activity' | 'chat';
+
+export interface FoodAnalysisLog {
+  id: string;
+  user_id: string;
+  analysis_result: any;
+  created_at: string;
+}
+
+// A planned meal placed at its local time on the plan's date
+export interface PlannedMealEntry extends DailyMeal {
+  meal_plan_id: string;
+  date: string;
+}
+
+export type TimelineEvent =
+  | { type: 'glucose'; id: string; timestamp: string; data: GlucoseReading }
+  | { type: 'insulin'; id: string; timestamp: string; data: InsulinDose }
+  | { type: 'food'; id: string; timestamp: string; data: FoodAnalysisLog }
+  | { type: 'meal_plan'; id: string; timestamp: string; data: PlannedMealEntry }
+  | { type: 'activity'; id: string; timestamp: string; data: ActivityLog }
+  | { type: 'chat'; id: string; timestamp: string; data: Omit<ChatConversation, 'glucose_context'> };
+
+export interface TimelinePage {
+  startDate: string;
+  endDate: string;
+  types: TimelineEventType[];
+  events: TimelineEvent[];
+  // Pass back as cursor to get the next page; null on the last page
+  nextCursor: string | null;
 }
 
 // Chat and AI Types
 export interface ChatConversation {
   id: string;
   user_id: string;
+  thread_id?: string | null;
   message: string;
   ai_response: string;
-  auto_logged_data?: any;
+  auto_logged_data?: ChatAutoLoggedData | null;
   glucose_context?: any;
   created_at: string;
 }
 
+export interface ChatThread {
+  id: string;
+  user_id: string;
+  title: string;
+  // Summary of the turns up to summarized_through (a conversation created_at)
+  summary: string | null;
+  summarized_through: string | null;
+  last_message_at: string;
+  archived_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChatTurn {
+  message: string;
+  response: string;
+}
+
+// Prior turns replayed into a Claude request
+export interface ChatHistory {
+  summary: string | null;
+  turns: ChatTurn[];
+}
+
+// A logged meal as it is given to Michelle
+export interface ChatFoodLog {
+  description: string;
+  carbs: number;
+  timestamp: string;
+}
+
+// What Michelle is told about the user besides their glucose
+export interface ChatUserProfile {
+  diabetesType?: 'type1' | 'type2';
+  insulinToCarbRatio?: string;
+  targetCarbs?: number;
+  preferences?: string[];
+  restrictions?: string[];
+}
+
+export type ChatToolScope = 'glucose:read' | 'meals:read' | 'logs:propose';
+
+// Who Michelle's tools act for; the user always comes from the server, never from Claude
+export interface ChatToolContext {
+  userId: string;
+  unit: GlucoseUnit;
+  timeZone: string;
+  scopes: ChatToolScope[];
+  // Entries proposed during the turn, collected for the log inbox
+  proposals: Pick<PendingLogItem, 'item_type' | 'data' | 'source_text'>[];
+}
+
 export interface AIAnalysisRequest {
   message: string;
+  unit?: GlucoseUnit;
+  history?: ChatHistory;
+  // Without it Michelle answers from the prompt context alone
+  tools?: ChatToolContext;
   glucoseContext?: {
     currentGlucose?: {
       value: number;
       trend?: string;
+      // When the reading was taken; client context may leave it out
+      timestamp?: string;
     };
-    recentReadings?: GlucoseReading[];
+    forecast?: GlucoseForecast;
+    onBoard?: OnBoardReport;
+    sickDay?: SickDayStatus;
+    recentReadings?: Pick<GlucoseReading, 'value' | 'timestamp'>[];
     targetRange?: [number, number];
     recentFoodLogs?: any[];
     currentMealPlan?: any;
@@ -0,0 +1,259 @@
+import {
+  ActivityImpactReport,
+  AIAnalysisRequest,
+  AmbulatoryGlucoseProfile,
+  BolusCalculation,
+  DosingProfile,
+  GlucoseAlert,
+  GlucoseAlertRule,
+  GlucoseAlertType,
+  GlucoseEpisode,
+  GlucoseForecast,
+  GlucoseReading,
+  GlucoseStats,
+  GlucoseStatsComparison,
+  GlucoseTagStats,
+  GlucoseTagSummary,
+  GlucoseUnit,
+  PendingGlucoseEntry,
+  PendingLogItem,
+  SickDayStatus
+} from '../types';
+
+// Glucose is stored in mg/dL; these helpers convert at the API boundary
+export const MGDL_PER_MMOLL = 18.0182;
+export const DEFAULT_GLUCOSE_UNIT: GlucoseUnit = 'mg/dL';
+
+export const parseGlucoseUnit = (value: unknown): GlucoseUnit | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const normalized = value.trim().toLowerCase().replace(/\s+/g, '');
+  if (normalized === 'mg/dl' || normalized === 'mgdl') return 'mg/dL';
+  if (normalized === 'mmol/l' || normalized === 'mmol') return 'mmol/L';
+  return undefined;
+};
+
+export const toMgdl = (value: number, unit: GlucoseUnit): number =>
+  unit === 'mmol/L' ? Math.round(value * MGDL_PER_MMOLL) : value;
+
+export const fromMgdl = (value: number, unit: GlucoseUnit): number =>
+  unit === 'mmol/L' ? Math.round((value / MGDL_PER_MMOLL) * 10) / 10 : value;
+
+export const formatGlucose = (valueMgdl: number, unit: GlucoseUnit): string =>
+  `${fromMgdl(valueMgdl, unit)} ${unit}`;
+
+export const convertRange = (range: [number, number], convert: (value: number) => number): [number, number] =>
+  [convert(range[0]), convert(range[1])];
+
+export const convertReading = <T extends Pick<GlucoseReading, 'value'>>(reading: T, unit: GlucoseUnit): T => ({
+  ...reading,
+  value: fromMgdl(reading.value, unit)
+});
+
+// Percentages, GMI and CV are unit-independent; only absolute glucose values are converted
+export const convertStats = (stats: GlucoseStats, unit: GlucoseUnit): GlucoseStats => ({
+  ...stats,
+  average: fromMgdl(stats.average, unit),
+  min: fromMgdl(stats.min, unit),
+  max: fromMgdl(stats.max, unit),
+  standardDeviation: fromMgdl(stats.standardDeviation, unit),
+  thresholds: {
+    veryLow: fromMgdl(stats.thresholds.veryLow, unit),
+    low: fromMgdl(stats.thresholds.low, unit),
+    high: fromMgdl(stats.thresholds.high, unit),
+    veryHigh: fromMgdl(stats.thresholds.veryHigh, unit)
+  }
+});
+
+export const convertStatsComparison = (comparison: GlucoseStatsComparison, unit: GlucoseUnit): GlucoseStatsComparison => ({
+  current: convertStats(comparison.current, unit),
+  previous: comparison.previous && convertStats(comparison.previous, unit),
+  deltas: comparison.deltas && {
+    ...comparison.deltas,
+    average: fromMgdl(comparison.deltas.average, unit),
+    standardDeviation: fromMgdl(comparison.deltas.standardDeviation, unit)
+  }
+});
+
+const convertTagSummary = (summary: GlucoseTagSummary, unit: GlucoseUnit): GlucoseTagSummary => ({
+  ...summary,
+  average: fromMgdl(summary.average, unit),
+  min: fromMgdl(summary.min, unit),
+  max: fromMgdl(summary.max, unit),
+  standardDeviation: fromMgdl(summary.standardDeviation, unit)
+});
+
+const convertSummaries = <K extends string>(
+  summaries: Partial<Record<K, GlucoseTagSummary>>,
+  unit: GlucoseUnit
+): Partial<Record<K, GlucoseTagSummary>> =>
+  Object.fromEntries(
+    Object.entries(summaries).map(([key, summary]) => [key, convertTagSummary(summary as GlucoseTagSummary, unit)])
+  ) as Partial<Record<K, GlucoseTagSummary>>;
+
+export const convertTagStats = (stats: GlucoseTagStats, unit: GlucoseUnit): GlucoseTagStats => ({
+  ...stats,
+  thresholds: {
+    veryLow: fromMgdl(stats.thresholds.veryLow, unit),
+    low: fromMgdl(stats.thresholds.low, unit),
+    high: fromMgdl(stats.thresholds.high, unit),
+    veryHigh: fromMgdl(stats.thresholds.veryHigh, unit)
+  },
+  byTag: convertSummaries(stats.byTag, unit),
+  byMealType: Object.fromEntries(
+    Object.entries(stats.byMealType).map(([tag, meals]) => [tag, convertSummaries(meals || {}, unit)])
+  )
+});
+
+export const convertEpisode = (episode: GlucoseEpisode, unit: GlucoseUnit): GlucoseEpisode => ({
+  ...episode,
+  extremeValue: fromMgdl(episode.extremeValue, unit)
+});
+
+export const convertForecast = (forecast: GlucoseForecast, unit: GlucoseUnit): GlucoseForecast => {
+  // Rates are converted without rounding to one decimal so small mmol/L slopes are not lost
+  const rateFactor = unit === 'mmol/L' ? 1 / MGDL_PER_MMOLL : 1;
+
+  return {
+    ...forecast,
+    latestValue: fromMgdl(forecast.latestValue, unit),
+    ratePerMinute: Math.round(forecast.ratePerMinute * rateFactor * 100) / 100,
+    points: forecast.points.map(point => ({
+      ...point,
+      value: fromMgdl(point.value, unit),
+      lower: fromMgdl(point.lower, unit),
+      upper: fromMgdl(point.upper, unit)
+    })),
+    predictedLow: forecast.predictedLow && { ...forecast.predictedLow, threshold: fromMgdl(forecast.predictedLow.threshold, unit) },
+    predictedHigh: forecast.predictedHigh && { ...forecast.predictedHigh, threshold: fromMgdl(forecast.predictedHigh.threshold, unit) }
+  };
+};
+
+export const convertProfile = (profile: AmbulatoryGlucoseProfile, unit: GlucoseUnit): AmbulatoryGlucoseProfile => {
+  const convert = (value: number | null) => (value === null ? null : fromMgdl(value, unit));
+
+  return {
+    ...profile,
+    percentiles: profile.percentiles.map(bucket => ({
+      ...bucket,
+      p5: convert(bucket.p5),
+      p25: convert(bucket.p25),
+      p50: convert(bucket.p50),
+      p75: convert(bucket.p75),
+      p95: convert(bucket.p95)
+    })),
+    dailyOverlays: profile.dailyOverlays.map(overlay => ({
+      ...overlay,
+      readings: overlay.readings.map(reading => convertReading(reading, unit))
+    }))
+  };
+};
+
+// Level rules are in mg/dL, rate rules in mg/dL per minute and no_data rules in minutes
+export const alertValueToMgdl = (type: GlucoseAlertType, value: number, unit: GlucoseUnit): number => {
+  if (type === 'no_data' || unit === 'mg/dL') return value;
+  return type === 'rapid_rise' || type === 'rapid_fall'
+    ? Math.round(value * MGDL_PER_MMOLL * 10) / 10
+    : toMgdl(value, unit);
+};
+
+export const alertValueFromMgdl = (type: GlucoseAlertType, value: number, unit: GlucoseUnit): number => {
+  if (type === 'no_data' || unit === 'mg/dL') return value;
+  return type === 'rapid_rise' || type === 'rapid_fall'
+    ? Math.round((value / MGDL_PER_MMOLL) * 100) / 100
+    : fromMgdl(value, unit);
+};
+
+export const convertAlertRule = (rule: GlucoseAlertRule, unit: GlucoseUnit): GlucoseAlertRule => ({
+  ...rule,
+  threshold: alertValueFromMgdl(rule.type, rule.threshold, unit)
+});
+
+// no_data alerts carry no glucose value
+export const convertAlert = (alert: GlucoseAlert, unit: GlucoseUnit): GlucoseAlert => ({
+  ...alert,
+  value: alert.value === null ? null : alertValueFromMgdl(alert.type, alert.value, unit)
+});
+
+// Correction factors and targets are glucose amounts; carb ratios, doses and increments are unit-free
+export const convertDosingProfile = (
+  profile: Pick<DosingProfile, 'correction_factors' | 'targets'>,
+  convert: (value: number) => number
+) => ({
+  correction_factors: profile.correction_factors.map(entry => ({ ...entry, value: convert(entry.value) })),
+  targets: profile.targets.map(entry => ({ ...entry, low: convert(entry.low), high: convert(entry.high) }))
+});
+
+export const convertDosingProfileFromMgdl = (profile: DosingProfile, unit: GlucoseUnit): DosingProfile =>
+  unit === 'mg/dL' ? profile : { ...profile, ...convertDosingProfile(profile, value => fromMgdl(value, unit)) };
+
+export const convertBolusCalculation = (calculation: BolusCalculation, unit: GlucoseUnit): BolusCalculation => {
+  if (unit === 'mg/dL') return calculation;
+  const convert = (value: number) => fromMgdl(value, unit);
+  return {
+    ...calculation,
+    glucose: calculation.glucose === null ? null : convert(calculation.glucose),
+    projectedGlucose: calculation.projectedGlucose === null ? null : convert(calculation.projectedGlucose),
+    correctionFactor: convert(calculation.correctionFactor),
+    target: { low: convert(calculation.target.low), high: convert(calculation.target.high) }
+  };
+};
+
+export const convertActivityImpactReport = (report: ActivityImpactReport, unit: GlucoseUnit): ActivityImpactReport => {
+  if (unit === 'mg/dL') return report;
+  const convert = (value: number | null) => (value === null ? null : fromMgdl(value, unit));
+  return {
+    ...report,
+    thresholds: {
+      veryLow: fromMgdl(report.thresholds.veryLow, unit),
+      low: fromMgdl(report.thresholds.low, unit),
+      high: fromMgdl(report.thresholds.high, unit),
+      veryHigh: fromMgdl(report.thresholds.veryHigh, unit)
+    },
+    byType: report.byType.map(summary => ({
+      ...summary,
+      averageChangeDuring: convert(summary.averageChangeDuring),
+      averageChangePerHourDuring: convert(summary.averageChangePerHourDuring),
+      averageNadirAfter: convert(summary.averageNadirAfter),
+      averageHourlyChangeAfter: summary.averageHourlyChangeAfter.map(convert)
+    })),
+    activities: report.activities.map(impact => ({
+      ...impact,
+      startGlucose: convert(impact.startGlucose),
+      endGlucose: convert(impact.endGlucose),
+      changeDuring: convert(impact.changeDuring),
+      nadirAfter: convert(impact.nadirAfter),
+      hourlyChangeAfter: impact.hourlyChangeAfter.map(convert)
+    }))
+  };
+};
+
+export const convertSickDayStatus = (status: SickDayStatus, unit: GlucoseUnit): SickDayStatus => ({
+  ...status,
+  latestGlucose: status.latestGlucose === null ? null : fromMgdl(status.latestGlucose, unit)
+});
+
+// Only glucose entries carry a glucose value
+export const convertPendingLogItem = (item: PendingLogItem, unit: GlucoseUnit): PendingLogItem =>
+  item.item_type === 'glucose'
+    ? { ...item, data: convertReading(item.data as PendingGlucoseEntry, unit) }
+    : item;
+
+// Client-supplied chat context is expressed in the request unit
+export const convertGlucoseContextToMgdl = (
+  context: AIAnalysisRequest['glucoseContext'],
+  unit: GlucoseUnit
+): AIAnalysisRequest['glucoseContext'] => {
+  if (!context || unit === 'mg/dL') return context;
+
+  const converted: NonNullable<AIAnalysisRequest['glucoseContext']> = { ...context };
+  if (context.currentGlucose && typeof context.currentGlucose.value === 'number') {
+    converted.currentGlucose = { ...context.currentGlucose, value: toMgdl(context.currentGlucose.value, unit) };
+  }
+  if (context.recentReadings) {
+    converted.recentReadings = context.recentReadings.map(reading => ({ ...reading, value: toMgdl(reading.value, unit) }));
+  }
+  if (context.targetRange) {
+    converted.targetRange = convertRange(context.targetRange, value => toMgdl(value, unit));
+  }
+  return converted;
+};
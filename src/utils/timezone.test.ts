@@ -0,0 +1,106 @@
+import {
+  formatZonedDate,
+  getTimeZoneOffsetMinutes,
+  minuteOfZonedDay,
+  parseTimeZone,
+  parseZonedDate,
+  resolveDateBound,
+  startOfZonedDay,
+  startOfZonedMonth,
+  zonedTimeToUtc
+} from './timezone';
+
+const NEW_YORK = 'America/New_York';
+
+describe('parseTimeZone', () => {
+  it('accepts IANA zones and rejects anything else', () => {
+    expect(parseTimeZone(' Europe/London ')).toBe('Europe/London');
+    expect(parseTimeZone('Not/AZone')).toBeUndefined();
+    expect(parseTimeZone('')).toBeUndefined();
+    expect(parseTimeZone(42)).toBeUndefined();
+  });
+});
+
+describe('getTimeZoneOffsetMinutes', () => {
+  it('follows daylight saving time', () => {
+    expect(getTimeZoneOffsetMinutes(new Date('2024-01-15T12:00:00Z'), NEW_YORK)).toBe(-300);
+    expect(getTimeZoneOffsetMinutes(new Date('2024-07-15T12:00:00Z'), NEW_YORK)).toBe(-240);
+    expect(getTimeZoneOffsetMinutes(new Date('2024-07-15T12:00:00Z'), 'Asia/Kolkata')).toBe(330);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('converts a local wall-clock time', () => {
+    expect(zonedTimeToUtc(NEW_YORK, 2024, 1, 15, 8, 30).toISOString()).toBe('2024-01-15T13:30:00.000Z');
+  });
+
+  it('resolves a time skipped by the spring-forward change forward', () => {
+    // 2024-03-10 02:30 does not exist in New York; clocks jump from 02:00 EST to 03:00 EDT
+    expect(zonedTimeToUtc(NEW_YORK, 2024, 3, 10, 2, 30).toISOString()).toBe('2024-03-10T07:30:00.000Z');
+  });
+
+  it('resolves a time repeated by the fall-back change to its first occurrence', () => {
+    // 01:30 happens at 05:30Z (EDT) and again at 06:30Z (EST)
+    expect(zonedTimeToUtc(NEW_YORK, 2024, 11, 3, 1, 30).toISOString()).toBe('2024-11-03T05:30:00.000Z');
+  });
+
+  it('rolls over out-of-range fields', () => {
+    expect(zonedTimeToUtc('UTC', 2024, 1, 32).toISOString()).toBe('2024-02-01T00:00:00.000Z');
+  });
+});
+
+describe('startOfZonedDay', () => {
+  it('returns local midnight', () => {
+    expect(startOfZonedDay(new Date('2024-01-15T03:00:00Z'), NEW_YORK).toISOString()).toBe('2024-01-14T05:00:00.000Z');
+  });
+
+  it('gives 23 and 25 hour days across DST changes', () => {
+    const springDay = startOfZonedDay(new Date('2024-03-10T12:00:00Z'), NEW_YORK);
+    const fallDay = startOfZonedDay(new Date('2024-11-03T12:00:00Z'), NEW_YORK);
+
+    expect(startOfZonedDay(springDay, NEW_YORK, 1).getTime() - springDay.getTime()).toBe(23 * 3600000);
+    expect(startOfZonedDay(fallDay, NEW_YORK, 1).getTime() - fallDay.getTime()).toBe(25 * 3600000);
+  });
+});
+
+describe('startOfZonedMonth', () => {
+  it('returns local midnight on the first of the month', () => {
+    expect(startOfZonedMonth(new Date('2024-03-01T03:00:00Z'), NEW_YORK).toISOString()).toBe('2024-02-01T05:00:00.000Z');
+  });
+});
+
+describe('minuteOfZonedDay and formatZonedDate', () => {
+  it('use the local wall clock', () => {
+    const date = new Date('2024-07-01T02:15:00Z');
+
+    expect(minuteOfZonedDay(date, NEW_YORK)).toBe(22 * 60 + 15);
+    expect(formatZonedDate(date, NEW_YORK)).toBe('2024-06-30');
+    expect(formatZonedDate(date, 'UTC')).toBe('2024-07-01');
+  });
+});
+
+describe('parseZonedDate', () => {
+  it('returns local midnight for valid calendar dates', () => {
+    expect(parseZonedDate('2024-07-01', NEW_YORK)?.toISOString()).toBe('2024-07-01T04:00:00.000Z');
+    expect(parseZonedDate('2024-02-29', 'UTC')?.toISOString()).toBe('2024-02-29T00:00:00.000Z');
+  });
+
+  it('rejects impossible dates and other formats', () => {
+    expect(parseZonedDate('2023-02-29', 'UTC')).toBeNull();
+    expect(parseZonedDate('2024-13-01', 'UTC')).toBeNull();
+    expect(parseZonedDate('2024-7-1', 'UTC')).toBeNull();
+    expect(parseZonedDate('2024-07-01T00:00:00Z', 'UTC')).toBeNull();
+  });
+});
+
+describe('resolveDateBound', () => {
+  it('covers whole local days for date-only bounds', () => {
+    expect(resolveDateBound('2024-03-10', NEW_YORK, false)).toBe('2024-03-10T05:00:00.000Z');
+    expect(resolveDateBound('2024-03-10', NEW_YORK, true)).toBe('2024-03-11T04:00:00.000Z');
+  });
+
+  it('passes timestamps through and rejects anything else', () => {
+    expect(resolveDateBound('2024-03-10T12:00:00Z', NEW_YORK, true)).toBe('2024-03-10T12:00:00Z');
+    expect(resolveDateBound('yesterday', NEW_YORK, false)).toBeNull();
+  });
+});
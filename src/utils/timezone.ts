@@ -0,0 +1,126 @@
+// Calendar math in a user's IANA timezone; the server itself runs in UTC
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const parseTimeZone = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone: value.trim() }).resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+};
+
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts['year'] as number,
+    month: parts['month'] as number,
+    day: parts['day'] as number,
+    hour: parts['hour'] as number,
+    minute: parts['minute'] as number,
+    second: parts['second'] as number
+  };
+};
+
+// Minutes to add to UTC to get local wall-clock time at the given instant
+export const getTimeZoneOffsetMinutes = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+// Convert a local wall-clock time to an instant. Out-of-range fields roll over like Date.UTC.
+// Times skipped by a DST change resolve forward; repeated times resolve to the first occurrence.
+export const zonedTimeToUtc = (
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hour: number = 0,
+  minute: number = 0,
+  second: number = 0
+): Date => {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  // Offsets either side of any transition near this time; no zone changes offset twice within two days
+  const offsets = [...new Set([
+    getTimeZoneOffsetMinutes(new Date(wallClock - 86400000), timeZone),
+    getTimeZoneOffsetMinutes(new Date(wallClock + 86400000), timeZone)
+  ])];
+  const candidates = offsets.map(offset => ({ offset, time: wallClock - offset * 60000 }));
+  const valid = candidates.filter(({ offset, time }) => getTimeZoneOffsetMinutes(new Date(time), timeZone) === offset);
+
+  return valid.length > 0
+    ? new Date(Math.min(...valid.map(({ time }) => time)))
+    : new Date(Math.max(...candidates.map(({ time }) => time)));
+};
+
+export const startOfZonedDay = (date: Date, timeZone: string, dayOffset: number = 0): Date => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(timeZone, year, month, day + dayOffset);
+};
+
+export const startOfZonedMonth = (date: Date, timeZone: string): Date => {
+  const { year, month } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(timeZone, year, month, 1);
+};
+
+export const minuteOfZonedDay = (date: Date, timeZone: string): number => {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return hour * 60 + minute;
+};
+
+// YYYY-MM-DD of the local calendar day
+export const formatZonedDate = (date: Date, timeZone: string): string => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Parse a YYYY-MM-DD calendar date; returns the local midnight that starts it
+export const parseZonedDate = (value: string, timeZone: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number) as [number, number, number];
+  if (month < 1 || month > 12 || day < 1 || day > new Date(Date.UTC(year, month, 0)).getUTCDate()) return null;
+  return zonedTimeToUtc(timeZone, year, month, day);
+};
+
+// Date-only bounds (YYYY-MM-DD) cover whole local days; anything else must be a full timestamp
+export const resolveDateBound = (value: string, timeZone: string, isEnd: boolean): string | null => {
+  const localMidnight = parseZonedDate(value, timeZone);
+  if (localMidnight) {
+    return (isEnd ? startOfZonedDay(localMidnight, timeZone, 1) : localMidnight).toISOString();
+  }
+  return isNaN(new Date(value).getTime()) ? null : value;
+};